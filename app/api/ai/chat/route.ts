@@ -0,0 +1,174 @@
+import { auth } from "@/auth";
+import { NextResponse } from "next/server";
+import { streamChatReply } from "@/lib/chat";
+import { appendChatMessages, clearChatConversation, getChatConversation, type ChatMessage } from "@/lib/chat-history";
+import { validateExplanation } from "@/lib/explanation-schema";
+import { getLLMConfigError } from "@/lib/llm";
+import type { ErrorExplanation, ExplainErrorDetails } from "@/lib/openai";
+import { formatServerSentEvent } from "@/lib/utils/sse";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
+
+const MAX_QUESTION_LENGTH = 4000;
+
+// Server-Sent Events: `token` events with reply text as it is written, then `done` with the stored conversation
+function streamAnswer(
+  userId: string,
+  errorId: string,
+  question: string,
+  errorDetails: ExplainErrorDetails,
+  explanation: ErrorExplanation | null,
+  history: ChatMessage[]
+) {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const write = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+        } catch {
+          // The page went away; the answer is still stored for when it comes back
+        }
+      };
+
+      try {
+        let reply = "";
+        for await (const chunk of streamChatReply(errorDetails, explanation, history, question)) {
+          reply += chunk;
+          write("token", { text: chunk });
+        }
+        if (!reply.trim()) {
+          throw new Error("The model returned an empty reply");
+        }
+
+        // Stored only once answered, so a failed question can simply be asked again
+        const conversation = appendChatMessages(userId, errorId, [
+          { role: "user", content: question },
+          { role: "assistant", content: reply },
+        ]);
+        write("done", { conversation });
+      } catch (error) {
+        console.error("Error streaming follow-up answer:", error);
+        write("error", {
+          error: "Failed to answer the question",
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// The signed-in user's follow-up conversation about an error (?errorId=)
+export async function GET(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const errorId = new URL(request.url).searchParams.get("errorId");
+    if (!errorId) {
+      return NextResponse.json({ error: "Error ID is required" }, { status: 400 });
+    }
+
+    return NextResponse.json({ data: getChatConversation(session.user.id, errorId) });
+  } catch (error) {
+    console.error("Error reading chat history:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to read chat history",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Ask a follow-up question: { errorId, question, errorDetails, explanation? }; the answer streams back
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const llmError = getLLMConfigError();
+    if (llmError) {
+      return NextResponse.json(llmError, { status: 500 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const errorId = typeof body?.errorId === "string" ? body.errorId.trim() : "";
+    const question = typeof body?.question === "string" ? body.question.trim() : "";
+
+    if (!errorId || !body?.errorDetails) {
+      return NextResponse.json({ error: "Error ID and error details are required" }, { status: 400 });
+    }
+    if (!question) {
+      return NextResponse.json({ error: "Ask a question about this error" }, { status: 400 });
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return NextResponse.json({ error: `Question is too long (${question.length} characters, max ${MAX_QUESTION_LENGTH})` }, { status: 400 });
+    }
+
+    // The explanation comes from the page; only a well-formed one is used as grounding
+    const explanation = body.explanation ? validateExplanation(body.explanation).explanation : null;
+    const { messages } = getChatConversation(session.user.id, errorId);
+
+    return streamAnswer(session.user.id, errorId, question, body.errorDetails, explanation, messages);
+  } catch (error) {
+    console.error("Error answering follow-up question:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to answer the question",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Start the conversation about an error over (?errorId=)
+export async function DELETE(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const errorId = new URL(request.url).searchParams.get("errorId");
+    if (!errorId) {
+      return NextResponse.json({ error: "Error ID is required" }, { status: 400 });
+    }
+
+    clearChatConversation(session.user.id, errorId);
+    return NextResponse.json({ data: getChatConversation(session.user.id, errorId) });
+  } catch (error) {
+    console.error("Error clearing chat history:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to clear chat history",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
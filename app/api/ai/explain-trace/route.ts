@@ -0,0 +1,65 @@
+import crypto from "crypto";
+import { auth } from "@/auth";
+import { NextResponse } from "next/server";
+import { explainError } from "@/lib/openai";
+import { getLLMConfigError } from "@/lib/llm";
+import { resolvePersonaId } from "@/lib/preferences";
+import { parseStackTrace, stackTraceToErrorDetails, STACK_TRACE_LANGUAGES, type StackTraceLanguage } from "@/lib/stacktrace/parser";
+import { getSourceMapDirs, resolveExceptionFrames } from "@/lib/sourcemaps";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
+
+const MAX_TEXT_LENGTH = 50000; // Roughly 1,000 lines of stack trace
+
+// Cache key of a pasted trace: the whole text, ignoring line endings and trailing whitespace, plus the chosen language
+function traceHash(text: string, language?: string): string {
+  const normalized = text.replace(/\r\n?/g, "\n").split("\n").map((line) => line.trimEnd()).join("\n").trim();
+  return crypto.createHash("sha256").update(`${language || "auto"}\n${normalized}`).digest("hex");
+}
+
+// Explain a pasted stack trace or log excerpt that never reached an error tracker
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const llmError = getLLMConfigError();
+    if (llmError) {
+      return NextResponse.json(llmError, { status: 500 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const text = typeof body?.text === "string" ? body.text.trim() : "";
+    const language = body?.language as StackTraceLanguage | undefined;
+
+    if (!text) {
+      return NextResponse.json({ error: "Paste a stack trace or log excerpt to explain" }, { status: 400 });
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json({ error: `Text is too long (${text.length} characters, max ${MAX_TEXT_LENGTH})` }, { status: 400 });
+    }
+    if (language && !STACK_TRACE_LANGUAGES.some((option) => option.value === language)) {
+      return NextResponse.json({ error: `Unknown language "${String(language)}"` }, { status: 400 });
+    }
+
+    const persona = resolvePersonaId(body?.persona, session.user?.id);
+    // Minified frontend frames are mapped through SOURCE_MAPS_DIR and shared uploads; the UI shows the mapped frames
+    const trace = parseStackTrace(text, language);
+    const parsed = { ...trace, exceptions: resolveExceptionFrames(trace.exceptions, getSourceMapDirs()) };
+    const explanation = await explainError({ ...stackTraceToErrorDetails(parsed, text), traceHash: traceHash(text, language) }, { persona });
+
+    return NextResponse.json({ explanation, parsed, persona });
+  } catch (error) {
+    console.error("Error explaining pasted stack trace:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to generate explanation",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
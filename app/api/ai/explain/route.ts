@@ -1,9 +1,58 @@
 import { auth } from "@/auth";
 import { NextResponse } from "next/server";
 import { explainError } from "@/lib/openai";
+import { getLLMConfigError } from "@/lib/llm";
+import { formatServerSentEvent } from "@/lib/utils/sse";
+import { resolvePersonaId } from "@/lib/preferences";
+import type { PersonaId } from "@/lib/prompts";
 
 export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
 
+// Server-Sent Events: a `section` event per completed part of the explanation, then `done` with the validated result
+function streamExplanation(errorDetails: Parameters<typeof explainError>[0], persona: PersonaId) {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const write = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+        } catch {
+          // The page went away; generation continues so the result is still cached
+        }
+      };
+
+      try {
+        const explanation = await explainError(errorDetails, {
+          onSection: (key, value) => write("section", { key, value }),
+          persona,
+        });
+        write("done", { explanation, persona });
+      } catch (error) {
+        console.error("Error streaming AI explanation:", error);
+        write("error", {
+          error: "Failed to generate explanation",
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
 export async function POST(request: Request) {
   try {
     const session = await auth();
@@ -12,15 +61,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json({
-        error: "OpenAI API key not configured",
-        message: "Please set OPENAI_API_KEY in your environment variables.",
-      }, { status: 500 });
+    const llmError = getLLMConfigError();
+    if (llmError) {
+      return NextResponse.json(llmError, { status: 500 });
     }
 
     const body = await request.json();
-    const { errorDetails } = body;
+    const { errorDetails, stream } = body;
+    // The persona picked on the page, else the user's saved default
+    const persona = resolvePersonaId(body.persona, session.user?.id);
 
     if (!errorDetails) {
       return NextResponse.json({
@@ -28,9 +77,13 @@ export async function POST(request: Request) {
       }, { status: 400 });
     }
 
-    const explanation = await explainError(errorDetails);
+    if (stream) {
+      return streamExplanation(errorDetails, persona);
+    }
+
+    const explanation = await explainError(errorDetails, { persona });
 
-    return NextResponse.json({ explanation });
+    return NextResponse.json({ explanation, persona });
   } catch (error) {
     console.error("Error generating AI explanation:", error);
     return NextResponse.json(
@@ -1,5 +1,8 @@
 import { auth } from "@/auth";
 import { NextResponse } from "next/server";
+import { getSentryRegistry, findSentryProject } from "@/lib/sentry/projects";
+import { getAllSentryTargets, getSentryTarget } from "@/lib/sentry/config";
+import { getIssue, SentryApiError } from "@/lib/sentry/client";
 
 export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
 
@@ -12,7 +15,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const { errorId, aiExplanation, linearIssueId, assigneeId } = body;
+    const { errorId, aiExplanation, linearIssueId, assigneeId, project } = body;
 
     if (!errorId || !aiExplanation) {
       return NextResponse.json(
@@ -40,70 +43,66 @@ export async function POST(request: Request) {
     
     if (!issueId) {
       // Fetch error details from Sentry to get tags
-      const sentryAuthToken = process.env.SENTRY_AUTH_TOKEN;
-      if (sentryAuthToken) {
+      // Use the issue's project connection if known, otherwise try each configured Sentry instance
+      const registry = getSentryRegistry();
+      const projectTarget = getSentryTarget(findSentryProject(project, registry.projects), registry);
+      const sentryTargets = project && projectTarget ? [projectTarget] : getAllSentryTargets(registry);
+
+      for (const target of sentryTargets) {
         try {
-          const sentryResponse = await fetch(
-            `https://sentry.io/api/0/issues/${errorId}/`,
-            {
-              headers: {
-                Authorization: `Bearer ${sentryAuthToken}`,
-                "Content-Type": "application/json",
-              },
-            }
+          const sentryData = await getIssue(target, errorId);
+          const tags = sentryData.tags || [];
+          
+          console.log("Sentry tags:", JSON.stringify(tags, null, 2));
+          
+          // Look for Linear issue ID in tags (common patterns: linear:issue_id, linear_issue_id, etc.)
+          const linearTag = tags.find(
+            (tag) =>
+              tag.key?.toLowerCase().includes("linear") &&
+              tag.value
           );
-
-          if (sentryResponse.ok) {
-            const sentryData = await sentryResponse.json();
-            const tags = sentryData.tags || [];
-            
-            console.log("Sentry tags:", JSON.stringify(tags, null, 2));
-            
-            // Look for Linear issue ID in tags (common patterns: linear:issue_id, linear_issue_id, etc.)
-            const linearTag = tags.find(
-              (tag: any) =>
-                tag.key?.toLowerCase().includes("linear") &&
-                tag.value
-            );
-            
-            if (linearTag?.value) {
-              // Extract issue ID from various formats
-              // Could be: "ABC-123", "https://linear.app/workspace/issue/ABC-123", or just "ABC-123"
-              const match = linearTag.value.match(/([A-Z]+-\d+)/);
-              if (match) {
-                issueId = match[1];
-              } else {
-                issueId = linearTag.value;
-              }
-              console.log("Found Linear issue ID from tags:", issueId);
+          
+          if (linearTag?.value) {
+            // Extract issue ID from various formats
+            // Could be: "ABC-123", "https://linear.app/workspace/issue/ABC-123", or just "ABC-123"
+            const match = linearTag.value.match(/([A-Z]+-\d+)/);
+            if (match) {
+              issueId = match[1];
+            } else {
+              issueId = linearTag.value;
             }
-            
-            // Also check metadata for Linear references
-            if (!issueId && sentryData.metadata) {
-              const metadataStr = JSON.stringify(sentryData.metadata);
-              const metadataMatch = metadataStr.match(/([A-Z]+-\d+)/);
-              if (metadataMatch) {
-                issueId = metadataMatch[1];
-                console.log("Found Linear issue ID from metadata:", issueId);
-              }
+            console.log("Found Linear issue ID from tags:", issueId);
+          }
+          
+          // Also check metadata for Linear references
+          if (!issueId && sentryData.metadata) {
+            const metadataStr = JSON.stringify(sentryData.metadata);
+            const metadataMatch = metadataStr.match(/([A-Z]+-\d+)/);
+            if (metadataMatch) {
+              issueId = metadataMatch[1];
+              console.log("Found Linear issue ID from metadata:", issueId);
             }
-            
-            // Check all tag values for Linear issue pattern
-            if (!issueId) {
-              for (const tag of tags) {
-                if (tag.value) {
-                  const match = String(tag.value).match(/([A-Z]+-\d+)/);
-                  if (match) {
-                    issueId = match[1];
-                    console.log(`Found Linear issue ID in tag ${tag.key}:`, issueId);
-                    break;
-                  }
+          }
+          
+          // Check all tag values for Linear issue pattern
+          if (!issueId) {
+            for (const tag of tags) {
+              if (tag.value) {
+                const match = String(tag.value).match(/([A-Z]+-\d+)/);
+                if (match) {
+                  issueId = match[1];
+                  console.log(`Found Linear issue ID in tag ${tag.key}:`, issueId);
+                  break;
                 }
               }
             }
           }
+          break; // Issue found on this Sentry instance
         } catch (err) {
-          console.error("Failed to fetch Sentry tags:", err);
+          // 404 means the issue lives on another Sentry instance; anything else is worth logging
+          if (!(err instanceof SentryApiError && err.isNotFound)) {
+            console.error("Failed to fetch Sentry tags:", err);
+          }
         }
       }
     }
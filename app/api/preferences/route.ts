@@ -0,0 +1,60 @@
+import { auth } from "@/auth";
+import { NextResponse } from "next/server";
+import { getUserPreferences, resolvePersonaId, saveUserPreferences } from "@/lib/preferences";
+import { isPersonaId, listPersonas } from "@/lib/prompts";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
+
+// The signed-in user's preferences, plus the personas they can pick from
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      preferences: getUserPreferences(session.user.id),
+      persona: resolvePersonaId(null, session.user.id),
+      personas: listPersonas().map(({ id, name, description, version }) => ({ id, name, description, version })),
+    });
+  } catch (error) {
+    console.error("Error reading preferences:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to read preferences",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Save the user's default explanation persona
+export async function PUT(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!isPersonaId(body?.persona)) {
+      return NextResponse.json({ error: `Unknown persona "${String(body?.persona)}"` }, { status: 400 });
+    }
+
+    const preferences = saveUserPreferences(session.user.id, { persona: body.persona });
+    return NextResponse.json({ preferences, persona: preferences.persona });
+  } catch (error) {
+    console.error("Error saving preferences:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save preferences",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
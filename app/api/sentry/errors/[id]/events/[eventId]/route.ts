@@ -0,0 +1,80 @@
+import { auth } from "@/auth";
+import { NextResponse } from "next/server";
+import { isErrorSourceApiError, resolveIssueSource } from "@/lib/sources";
+import { applySourceMaps } from "@/lib/sourcemaps";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
+
+// Fetch one full event of an issue (entries, contexts, tags) plus the issue summary it belongs to
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; eventId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: errorId, eventId } = await params;
+    const { searchParams } = new URL(request.url);
+    const projectSlug = searchParams.get("project") || undefined;
+
+    if (!errorId || !eventId) {
+      return NextResponse.json({ error: "Error ID and event ID are required" }, { status: 400 });
+    }
+
+    const { source, id: issueId } = resolveIssueSource(errorId);
+    if (!source.isConfigured()) {
+      return NextResponse.json({
+        error: `${source.name} credentials not configured`,
+        message: source.setupHint,
+      }, { status: 500 });
+    }
+
+    try {
+      const { event, issue, project: issueProject } = await source.getEvent(issueId, eventId, projectSlug);
+      const project = source.getProjects().find((candidate) => candidate.slug === issueProject);
+
+      return NextResponse.json({
+        data: {
+          event: applySourceMaps(event, issueProject),
+          issue: issue && {
+            id: issue.id,
+            title: issue.title,
+            level: issue.level || "error",
+            status: issue.status,
+            culprit: issue.culprit || "",
+            metadata: issue.metadata || {},
+            type: issue.type || "",
+            platform: issue.platform || "",
+            logger: issue.logger || "",
+            firstSeen: issue.firstSeen,
+            lastSeen: issue.lastSeen,
+            count: Number(issue.count) || 0,
+            userCount: issue.userCount || 0,
+            project: issueProject,
+            projectName: project?.name,
+          },
+        },
+      });
+    } catch (error) {
+      if (!isErrorSourceApiError(error)) throw error;
+      return NextResponse.json({
+        error: `Failed to fetch event: ${error.status} ${error.statusText}`,
+        message: error.details,
+        retryAfter: error.retryAfter,
+      }, { status: error.status || 502 });
+    }
+  } catch (error) {
+    console.error("Error fetching event:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch event",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { auth } from "@/auth";
+import { NextResponse } from "next/server";
+import { isErrorSourceApiError, resolveIssueSource } from "@/lib/sources";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
+
+const MAX_EVENTS = 10;
+
+// List an issue's recent events, optionally filtered with Sentry search syntax (e.g. browser:"Safari 17.1")
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: errorId } = await params;
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get("query")?.trim() || "";
+    const projectSlug = searchParams.get("project") || undefined;
+
+    const { source, id: issueId } = resolveIssueSource(errorId);
+    if (!source.isConfigured()) {
+      return NextResponse.json({
+        error: `${source.name} credentials not configured`,
+        message: source.setupHint,
+      }, { status: 500 });
+    }
+
+    try {
+      const events = await source.getEvents(issueId, { query, project: projectSlug });
+      return NextResponse.json({ events: events.slice(0, MAX_EVENTS), query });
+    } catch (error) {
+      if (!isErrorSourceApiError(error)) throw error;
+      return NextResponse.json({
+        error: `Failed to fetch events: ${error.status} ${error.statusText}`,
+        message: error.details,
+        retryAfter: error.retryAfter,
+      }, { status: error.status || 502 });
+    }
+  } catch (error) {
+    console.error("Error fetching issue events:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch events",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
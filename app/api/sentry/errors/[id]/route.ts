@@ -1,6 +1,13 @@
 import { auth } from "@/auth";
 import { NextResponse } from "next/server";
 import { matchLinearIssue, type SentryError, type LinearIssue } from "@/lib/utils/linear-matcher";
+import { getSentryRegistry, findSentryProject } from "@/lib/sentry/projects";
+import { getAllSentryTargets, getSentryTarget } from "@/lib/sentry/config";
+import { revalidateTag } from "next/cache";
+import { updateIssue, SentryApiError, SENTRY_ISSUES_TAG, sentryIssueTag } from "@/lib/sentry/client";
+import type { SentryIssueAction, SentryIssueUpdate } from "@/lib/sentry/types";
+import { isErrorSourceApiError, resolveIssueSource, type ErrorSource, type ErrorSourceIssue } from "@/lib/sources";
+import { applySourceMaps, applySourceMapsToMetadata, getSourceMapDirs } from "@/lib/sourcemaps";
 
 export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
 
@@ -73,152 +80,186 @@ export async function GET(
       }, { status: 400 });
     }
 
-    // Get Sentry credentials from environment variables
-    const sentryAuthToken = process.env.SENTRY_AUTH_TOKEN;
-    const sentryOrg = process.env.SENTRY_ORG;
-    const sentryFrontendProject = process.env.SENTRY_FRONTEND_PROJECT;
-    const sentryBackendProject = process.env.SENTRY_BACKEND_PROJECT;
-    const sentryProject = process.env.SENTRY_PROJECT; // Fallback
+    // Sentry issue IDs are plain; other sources' IDs carry a prefix (e.g. "rollbar-")
+    const { source, id: issueId } = resolveIssueSource(errorId);
+    const projectSlug = new URL(request.url).searchParams.get("project") || undefined;
 
-    if (!sentryAuthToken || !sentryOrg) {
+    if (!source.isConfigured()) {
       return NextResponse.json({
-        error: "Sentry credentials not configured",
-        message: "Please set SENTRY_AUTH_TOKEN and SENTRY_ORG environment variables.",
+        error: `${source.name} credentials not configured`,
+        message: source.setupHint,
       }, { status: 500 });
     }
 
-    console.log("Fetching error details for ID:", errorId);
-    console.log("Organization:", sentryOrg);
+    try {
+      return await processIssueData(await source.getIssue(issueId, projectSlug), errorId, source);
+    } catch (error) {
+      if (!isErrorSourceApiError(error)) throw error;
 
-    // Fetch error details from Sentry API
-    // Try the direct issues endpoint first
-    let url = `https://sentry.io/api/0/issues/${errorId}/`;
-    
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${sentryAuthToken}`,
-        "Content-Type": "application/json",
+      console.error(`${source.name} API error:`, {
+        status: error.status,
+        statusText: error.statusText,
+        url: error.url,
+        errorId,
+        errorDetails: error.details,
+      });
+
+      return NextResponse.json({
+        error: `Failed to fetch error details: ${error.status} ${error.statusText}`,
+        details: error.details,
+        retryAfter: error.retryAfter,
+        debug: {
+          errorId,
+          source: source.id,
+          url: error.url,
+        },
+      }, {
+        // Network failures have no HTTP status of their own
+        status: error.status || 502,
+        headers: error.retryAfter ? { "Retry-After": String(error.retryAfter) } : undefined,
+      });
+    }
+  } catch (error) {
+    console.error("Error fetching error details:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch error details",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
       },
-      next: { revalidate: 120 }, // Cache for 2 minutes
-    });
+      { status: 500 }
+    );
+  }
+}
 
-    if (!response.ok) {
-      // If direct endpoint fails, try project-specific endpoints
-      if (response.status === 404) {
-        console.log("Direct endpoint failed, trying project-specific endpoints");
-        
-        // Try frontend project first
-        if (sentryFrontendProject) {
-          const frontendUrl = `https://sentry.io/api/0/projects/${sentryOrg}/${sentryFrontendProject}/issues/${errorId}/`;
-          const frontendResponse = await fetch(frontendUrl, {
-            headers: {
-              Authorization: `Bearer ${sentryAuthToken}`,
-              "Content-Type": "application/json",
-            },
-            next: { revalidate: 120 },
-          });
+// Positive whole number from a request body field, or undefined
+function positiveInt(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? parseInt(value, 10) : value;
+  return typeof parsed === "number" && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
 
-          if (frontendResponse.ok) {
-            const issueData = await frontendResponse.json();
-            return await processIssueData(issueData, errorId, sentryFrontendProject, sentryAuthToken, sentryFrontendProject, sentryBackendProject);
-          }
-        }
+// Translate a dashboard action into Sentry's issue update body
+function buildIssueUpdate(body: Record<string, unknown>): SentryIssueUpdate | string {
+  const action = body.action as SentryIssueAction;
 
-        // Try backend project
-        if (sentryBackendProject) {
-          const backendUrl = `https://sentry.io/api/0/projects/${sentryOrg}/${sentryBackendProject}/issues/${errorId}/`;
-          const backendResponse = await fetch(backendUrl, {
-            headers: {
-              Authorization: `Bearer ${sentryAuthToken}`,
-              "Content-Type": "application/json",
-            },
-            next: { revalidate: 120 },
-          });
+  switch (action) {
+    case "resolve":
+      return { status: "resolved" };
+    case "resolveInNextRelease":
+      return { status: "resolvedInNextRelease" };
+    case "unresolve":
+      return { status: "unresolved" };
+    case "ignore": {
+      // Ignore forever, for a duration (minutes), or until it happens N more times / affects N more users
+      const statusDetails: SentryIssueUpdate["statusDetails"] = {};
+      const ignoreDuration = positiveInt(body.ignoreDuration);
+      const ignoreCount = positiveInt(body.ignoreCount);
+      const ignoreUserCount = positiveInt(body.ignoreUserCount);
+      const ignoreWindow = positiveInt(body.ignoreWindow);
+      if (ignoreDuration) statusDetails.ignoreDuration = ignoreDuration;
+      if (ignoreCount) statusDetails.ignoreCount = ignoreCount;
+      if (ignoreUserCount) statusDetails.ignoreUserCount = ignoreUserCount;
+      if (ignoreWindow && ignoreCount) statusDetails.ignoreWindow = ignoreWindow;
+      if (ignoreWindow && ignoreUserCount) statusDetails.ignoreUserWindow = ignoreWindow;
+      return { status: "ignored", statusDetails };
+    }
+    case "assign":
+      if (typeof body.assignedTo !== "string") {
+        return "assignedTo is required (\"user:<id>\", \"team:<id>\", a username/email, or \"\" to unassign)";
+      }
+      return { assignedTo: body.assignedTo.trim() };
+    default:
+      return `Unknown action "${String(body.action)}". Expected resolve, resolveInNextRelease, ignore, unresolve or assign.`;
+  }
+}
 
-          if (backendResponse.ok) {
-            const issueData = await backendResponse.json();
-            return await processIssueData(issueData, errorId, sentryBackendProject, sentryAuthToken, sentryFrontendProject, sentryBackendProject);
-          }
-        }
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
-        // Try fallback project if configured
-        if (sentryProject) {
-          const fallbackUrl = `https://sentry.io/api/0/projects/${sentryOrg}/${sentryProject}/issues/${errorId}/`;
-          const fallbackResponse = await fetch(fallbackUrl, {
-            headers: {
-              Authorization: `Bearer ${sentryAuthToken}`,
-              "Content-Type": "application/json",
-            },
-            next: { revalidate: 120 },
-          });
+    const { id: errorId } = await params;
+    const body = await request.json().catch(() => null);
 
-          if (fallbackResponse.ok) {
-            const issueData = await fallbackResponse.json();
-            return await processIssueData(issueData, errorId, sentryProject, sentryAuthToken, sentryFrontendProject, sentryBackendProject);
-          }
-        }
+    if (!errorId || !body || typeof body !== "object") {
+      return NextResponse.json({ error: "Error ID and an action are required" }, { status: 400 });
+    }
 
-        // All endpoints failed
-        let errorDetails = "";
-        try {
-          const errorData = await response.json();
-          errorDetails = errorData.detail || errorData.message || JSON.stringify(errorData);
-        } catch {
-          const errorText = await response.text();
-          errorDetails = errorText || "No error details available";
-        }
+    if (resolveIssueSource(errorId).source.id !== "sentry") {
+      return NextResponse.json({ error: "Issue actions are only supported for Sentry issues" }, { status: 400 });
+    }
 
-        return NextResponse.json({
-          error: `Failed to fetch error details: ${response.status} ${response.statusText}`,
-          details: errorDetails,
-          debug: {
-            errorId,
-            org: sentryOrg,
-            frontendProject: sentryFrontendProject,
-            backendProject: sentryBackendProject,
-            fallbackProject: sentryProject,
-            url,
-          },
-        }, { status: response.status });
-      } else {
-        let errorDetails = "";
-        try {
-          const errorData = await response.json();
-          errorDetails = errorData.detail || errorData.message || JSON.stringify(errorData);
-        } catch {
-          const errorText = await response.text();
-          errorDetails = errorText || "No error details available";
-        }
+    const update = buildIssueUpdate(body);
+    if (typeof update === "string") {
+      return NextResponse.json({ error: update }, { status: 400 });
+    }
 
-        console.error("Sentry API error:", {
-          status: response.status,
-          statusText: response.statusText,
-          url,
-          errorId,
-          errorDetails,
-        });
+    // Use the issue's project connection if known, otherwise try each configured Sentry instance
+    const registry = getSentryRegistry();
+    const projectTarget = getSentryTarget(findSentryProject(body.project, registry.projects), registry);
+    const targets = body.project && projectTarget ? [projectTarget] : getAllSentryTargets(registry);
+
+    if (targets.length === 0) {
+      return NextResponse.json({
+        error: "Sentry credentials not configured",
+        message: "Please set SENTRY_AUTH_TOKEN and SENTRY_ORG environment variables.",
+      }, { status: 500 });
+    }
+
+    let lastError: SentryApiError | null = null;
+    for (const target of targets) {
+      try {
+        const result = await updateIssue(target, errorId, update);
+        console.log(`✅ Updated Sentry issue ${errorId} (${body.action})`);
 
+        // Drop cached Sentry reads so the detail page and dashboard list show the change immediately
+        revalidateTag(SENTRY_ISSUES_TAG, { expire: 0 });
+        revalidateTag(sentryIssueTag(errorId), { expire: 0 });
+
+        // Sentry only echoes the fields that changed
         return NextResponse.json({
-          error: `Failed to fetch error details: ${response.status} ${response.statusText}`,
-          details: errorDetails,
-          debug: {
-            errorId,
-            org: sentryOrg,
-            url,
+          data: {
+            ...(result.status !== undefined && { status: result.status, statusDetails: result.statusDetails || {} }),
+            ...(result.assignedTo !== undefined && { assignedTo: result.assignedTo }),
           },
-        }, { status: response.status });
+        });
+      } catch (error) {
+        if (!(error instanceof SentryApiError)) throw error;
+        lastError = error;
+        if (!error.isNotFound) break;
       }
     }
 
-    const issueData = await response.json();
-    // Try to get project from issue data
-    const issueProjectSlug = issueData.project?.slug || sentryFrontendProject || sentryBackendProject || sentryProject || "default";
-    return await processIssueData(issueData, errorId, issueProjectSlug, sentryAuthToken, sentryFrontendProject, sentryBackendProject);
+    if (!lastError) {
+      throw new Error("No Sentry request was made");
+    }
+
+    console.error("Sentry issue update error:", {
+      status: lastError.status,
+      statusText: lastError.statusText,
+      url: lastError.url,
+      errorId,
+      errorDetails: lastError.details,
+    });
+
+    const hint = lastError.status === 403
+      ? " Your Sentry auth token needs the 'event:write' scope to change issues."
+      : "";
+    return NextResponse.json({
+      error: `Failed to update issue: ${lastError.status} ${lastError.statusText}`,
+      message: `${lastError.details}${hint}`,
+      retryAfter: lastError.retryAfter,
+    }, { status: lastError.status || 502 });
   } catch (error) {
-    console.error("Error fetching Sentry error details:", error);
+    console.error("Error updating Sentry issue:", error);
     return NextResponse.json(
       {
-        error: "Failed to fetch error details",
+        error: "Failed to update issue",
         message: error instanceof Error ? error.message : "Unknown error occurred",
       },
       { status: 500 }
@@ -226,34 +267,12 @@ export async function GET(
   }
 }
 
-async function processIssueData(issueData: any, errorId: string, projectSlug: string, sentryAuthToken: string, sentryFrontendProject?: string, sentryBackendProject?: string) {
-  // Determine project type based on project slug
-  let projectType: "frontend" | "backend" = "frontend";
-  if (sentryFrontendProject && projectSlug === sentryFrontendProject) {
-    projectType = "frontend";
-  } else if (sentryBackendProject && projectSlug === sentryBackendProject) {
-    projectType = "backend";
-  } else if (sentryBackendProject && !sentryFrontendProject) {
-    // If only backend project is configured, assume backend
-    projectType = "backend";
-  }
-  // Fetch recent events for this issue
-  const eventsUrl = `https://sentry.io/api/0/issues/${errorId}/events/`;
-  let events = [];
-  try {
-    const eventsResponse = await fetch(eventsUrl, {
-      headers: {
-        Authorization: `Bearer ${sentryAuthToken}`,
-        "Content-Type": "application/json",
-      },
-      next: { revalidate: 120 }, // Cache for 2 minutes
-    });
-    if (eventsResponse.ok) {
-      events = await eventsResponse.json();
-    }
-  } catch (err) {
-    console.error("Failed to fetch events:", err);
-  }
+async function processIssueData(details: ErrorSourceIssue, errorId: string, source: ErrorSource) {
+  const { issue: issueData, project: projectSlug } = details;
+  // Look up display name, category and color from the source's project registry
+  const project = source.getProjects().find((candidate) => candidate.slug === projectSlug);
+  // Map minified frontend frames back to original files before the UI and the explainer see them
+  const sourceMapDirs = getSourceMapDirs(projectSlug);
 
   // Fetch Linear issues and match with this error
   let linearIssue = undefined;
@@ -263,12 +282,16 @@ async function processIssueData(issueData: any, errorId: string, projectSlug: st
       const linearIssues = await fetchLinearIssues(linearApiKey);
       const sentryError: SentryError = {
         id: String(issueData.id || errorId),
+        source: source.id,
         title: issueData.title || "",
         level: issueData.level || "error",
         lastSeen: issueData.lastSeen || new Date().toISOString(),
-        count: issueData.count || 0,
+        count: Number(issueData.count) || 0,
         userCount: issueData.userCount || 0,
-        projectType: projectType === "frontend" ? "Frontend" : "Backend",
+        project: projectSlug,
+        projectName: project?.name,
+        projectType: project?.category || "unknown",
+        projectColor: project?.color,
         culprit: issueData.culprit,
         metadata: issueData.metadata,
       };
@@ -282,9 +305,11 @@ async function processIssueData(issueData: any, errorId: string, projectSlug: st
   // Transform the data
   const errorDetails = {
     id: issueData.id,
+    source: source.id,
     title: issueData.title,
     level: issueData.level || "error",
     status: issueData.status,
+    statusDetails: issueData.statusDetails || {},
     count: issueData.count || 0,
     userCount: issueData.userCount || 0,
     firstSeen: issueData.firstSeen,
@@ -292,16 +317,21 @@ async function processIssueData(issueData: any, errorId: string, projectSlug: st
     culprit: issueData.culprit || "",
     permalink: issueData.permalink || "",
     project: projectSlug,
-    projectType: projectType,
-    metadata: issueData.metadata || {},
+    projectName: project?.name || projectSlug,
+    projectType: project?.category || "unknown",
+    projectColor: project?.color || "gray",
+    metadata: applySourceMapsToMetadata(issueData.metadata || {}, projectSlug, sourceMapDirs),
     tags: issueData.tags || [],
+    tagDistributions: details.tagDistributions, // Top values per tag key across all events
     assignedTo: issueData.assignedTo || null,
     logger: issueData.logger || "",
     type: issueData.type || "",
     numComments: issueData.numComments || 0,
     isPublic: issueData.isPublic || false,
     platform: issueData.platform || "",
-    events: events.slice(0, 10), // Limit to 10 most recent events
+    events: details.events.slice(0, 10), // Limit to 10 most recent events
+    latestEvent: applySourceMaps(details.latestEvent, projectSlug, sourceMapDirs), // Full event with exception frames, breadcrumbs, request and contexts
+    recentEvents: details.recentEvents.map((event) => applySourceMaps(event, projectSlug, sourceMapDirs)), // Additional full events (SENTRY_FULL_EVENTS - 1)
     linearIssue: linearIssue,
   };
 
@@ -1,9 +1,17 @@
 import { auth } from "@/auth";
 import { NextResponse } from "next/server";
+import { encodeErrorsCursor, decodeErrorsCursor } from "@/lib/sentry/pagination";
+import { getErrorSources } from "@/lib/sources";
+import type { SentryError } from "@/lib/utils/linear-matcher";
+import { isSentryIssueSort, sortErrors } from "@/lib/utils/sort-errors";
 
 export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
 
-export async function GET() {
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+const STATS_PERIODS = ["24h", "14d"]; // The only periods Sentry's project issues endpoint accepts (besides none)
+
+export async function GET(request: Request) {
   try {
     const session = await auth();
     
@@ -11,170 +19,108 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get Sentry credentials from environment variables
-    const sentryAuthToken = process.env.SENTRY_AUTH_TOKEN;
-    const sentryOrg = process.env.SENTRY_ORG;
-    const sentryFrontendProject = process.env.SENTRY_FRONTEND_PROJECT;
-    const sentryBackendProject = process.env.SENTRY_BACKEND_PROJECT;
-    // Fallback to old variable name for backward compatibility
-    const sentryProject = process.env.SENTRY_PROJECT;
-
-    if (!sentryAuthToken || !sentryOrg) {
-      return NextResponse.json({
-        errors: [],
-        message: "Sentry credentials not configured. Please set SENTRY_AUTH_TOKEN and SENTRY_ORG environment variables.",
-      });
-    }
-
-    // Determine which projects to fetch
-    const projects: Array<{ slug: string; type: "frontend" | "backend" }> = [];
+    // Every error source (Sentry, Rollbar) with registered projects
+    const sources = getErrorSources();
+    const projects = sources.flatMap((source) => source.getProjects());
     
-    if (sentryFrontendProject) {
-      projects.push({ slug: sentryFrontendProject, type: "frontend" });
-    }
-    if (sentryBackendProject) {
-      projects.push({ slug: sentryBackendProject, type: "backend" });
-    }
-    // Fallback to single project if new variables not set
-    if (projects.length === 0 && sentryProject) {
-      projects.push({ slug: sentryProject, type: "frontend" });
-    }
-    
-    if (projects.length === 0) {
+    if (sources.length === 0) {
       return NextResponse.json({
         errors: [],
-        message: "No projects configured. Please set SENTRY_FRONTEND_PROJECT and/or SENTRY_BACKEND_PROJECT environment variables.",
+        message: "No projects configured. Please add projects to sentry.projects.json (or set SENTRY_PROJECTS / SENTRY_FRONTEND_PROJECT / SENTRY_BACKEND_PROJECT), or set ROLLBAR_ACCESS_TOKEN.",
       });
     }
 
-    // First, verify the token works by checking organizations
-    // This helps diagnose 403 errors
-    let orgCheckUrl = `https://sentry.io/api/0/organizations/${sentryOrg}/`;
-    const orgResponse = await fetch(orgCheckUrl, {
-      headers: {
-        Authorization: `Bearer ${sentryAuthToken}`,
-        "Content-Type": "application/json",
-      },
-      next: { revalidate: 300 }, // Cache for 5 minutes
-    });
+    // Pagination: `limit` is the number of issues per project for this response,
+    // `cursor` is the opaque nextCursor returned by a previous call
+    const { searchParams } = new URL(request.url);
+    const limitParam = parseInt(searchParams.get("limit") || "", 10);
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
 
-    if (!orgResponse.ok) {
-      let errorDetails = "";
-      try {
-        const errorData = await orgResponse.json();
-        errorDetails = errorData.detail || errorData.message || JSON.stringify(errorData);
-      } catch {
-        const errorText = await orgResponse.text();
-        errorDetails = errorText || "No error details available";
-      }
+    // Sentry search filters, passed straight through to the issues endpoint (other sources map what they can)
+    const query = searchParams.get("query") ?? "is:unresolved";
+    const environments = searchParams.getAll("environment").flatMap((env) => env.split(",")).map((env) => env.trim()).filter(Boolean);
+    const statsPeriod = searchParams.get("statsPeriod") || "";
+    const sortParam = searchParams.get("sort") || "date";
 
-      console.error("Sentry Org API error:", {
-        status: orgResponse.status,
-        statusText: orgResponse.statusText,
-        url: orgCheckUrl,
-        errorDetails,
-        org: sentryOrg,
-      });
+    if (statsPeriod && !STATS_PERIODS.includes(statsPeriod)) {
+      return NextResponse.json({ errors: [], message: `Invalid statsPeriod "${statsPeriod}" (expected 24h or 14d)` }, { status: 400 });
+    }
+    if (!isSentryIssueSort(sortParam)) {
+      return NextResponse.json({ errors: [], message: `Invalid sort "${sortParam}"` }, { status: 400 });
+    }
+    const sort = sortParam;
+
+    const cursorParam = searchParams.get("cursor");
+    let sourceCursors: Record<string, string> | null = null;
+    if (cursorParam) {
+      sourceCursors = decodeErrorsCursor(cursorParam);
+      if (!sourceCursors) {
+        return NextResponse.json({ errors: [], message: "Invalid cursor" }, { status: 400 });
+      }
+    }
 
-      let userMessage = "";
-      if (orgResponse.status === 403) {
-        userMessage = `403 Forbidden - Cannot access organization "${sentryOrg}". Please verify:\n\n1. ✅ Your auth token has 'org:read' scope\n2. ✅ Your organization slug is correct (check URL: sentry.io/organizations/[slug]/)\n3. ✅ Your account has access to this organization\n4. ✅ Token is not expired\n\nError details: ${errorDetails}`;
-      } else if (orgResponse.status === 401) {
-        userMessage = `401 Unauthorized - Invalid auth token. Please verify your SENTRY_AUTH_TOKEN is correct.\n\nError details: ${errorDetails}`;
-      } else if (orgResponse.status === 404) {
-        userMessage = `404 Not Found - Organization "${sentryOrg}" not found. Please check the organization slug in your Sentry URL.\n\nError details: ${errorDetails}`;
-      } else {
-        userMessage = `Failed to access Sentry organization: ${orgResponse.status} ${orgResponse.statusText}\n\nError details: ${errorDetails}`;
+    // When continuing from a cursor, only sources that still have results are fetched
+    const sourcesToFetch = sourceCursors
+      ? sources.filter((source) => sourceCursors && source.id in sourceCursors)
+      : sources;
+
+    const pages = await Promise.all(sourcesToFetch.map((source) => source.listIssues({
+      limit,
+      cursor: sourceCursors?.[source.id],
+      query,
+      environments,
+      statsPeriod: statsPeriod || undefined,
+      sort,
+    })));
+
+    const allErrors: SentryError[] = pages.flatMap((page) => page.errors);
+    const warnings = pages.flatMap((page) => page.failure ? [page.failure.message, ...page.warnings] : page.warnings);
+    const retryAfter = Math.max(0, ...pages.map((page) => page.retryAfter || 0)); // Longest rate limit wait seen, in seconds
+    const nextCursors: Record<string, string> = {}; // source id -> that source's own cursor
+    pages.forEach((page, index) => {
+      if (page.nextCursor) {
+        nextCursors[sourcesToFetch[index].id] = page.nextCursor;
       }
+    });
 
+    // If no source can be reached, surface its error instead of an empty list
+    const firstFailure = pages.find((page) => page.failure)?.failure;
+    if (allErrors.length === 0 && firstFailure && pages.every((page) => page.failure)) {
+      // A 429 lets the dashboard keep showing its last data instead of an empty list
       return NextResponse.json({
         errors: [],
-        message: userMessage,
-        details: errorDetails,
-      });
+        projects,
+        message: firstFailure.message,
+        details: firstFailure.details,
+        retryAfter: retryAfter || undefined,
+      }, retryAfter > 0 ? { status: 429, headers: { "Retry-After": String(retryAfter) } } : undefined);
     }
 
-    // Fetch errors from all configured projects
-    const allErrors: Array<{
-      id: string;
-      title: string;
-      level: string;
-      lastSeen: string;
-      count: number;
-      userCount: number;
-      project: string;
-      projectType: "frontend" | "backend";
-      culprit: string;
-    }> = [];
-
-    const errors: string[] = [];
-
-    for (const project of projects) {
-      try {
-        const url = `https://sentry.io/api/0/projects/${sentryOrg}/${project.slug}/issues/`;
-        
-        const response = await fetch(url, {
-          headers: {
-            Authorization: `Bearer ${sentryAuthToken}`,
-            "Content-Type": "application/json",
-          },
-          next: { revalidate: 60 }, // Cache for 60 seconds
-        });
-
-        if (!response.ok) {
-          let errorDetails = "";
-          try {
-            const errorData = await response.json();
-            errorDetails = errorData.detail || errorData.message || JSON.stringify(errorData);
-          } catch {
-            const errorText = await response.text();
-            errorDetails = errorText || "No error details available";
-          }
-          
-          console.error(`Sentry API error for ${project.type} project:`, {
-            status: response.status,
-            statusText: response.statusText,
-            url,
-            errorDetails,
-            org: sentryOrg,
-            project: project.slug,
-          });
-
-          errors.push(`Failed to fetch ${project.type} project (${project.slug}): ${response.status} ${response.statusText}`);
-          continue; // Continue with other projects
-        }
-
-        const data = await response.json();
-
-        // Transform Sentry errors to our format
-        const projectErrors = data.map((issue: any) => ({
-          id: issue.id,
-          title: issue.title,
-          level: issue.level || "error",
-          lastSeen: issue.lastSeen,
-          count: typeof issue.count === 'number' ? issue.count : parseInt(String(issue.count || 0), 10),
-          userCount: typeof issue.userCount === 'number' ? issue.userCount : parseInt(String(issue.userCount || 0), 10),
-          project: project.slug,
-          projectType: project.type,
-          culprit: issue.culprit || "",
-        }));
-
-        allErrors.push(...projectErrors);
-      } catch (error) {
-        console.error(`Error fetching ${project.type} project errors:`, error);
-        errors.push(`Error fetching ${project.type} project (${project.slug}): ${error instanceof Error ? error.message : "Unknown error"}`);
-      }
+    // Rate limited with nothing to show: fail the request so the dashboard keeps its last data
+    if (allErrors.length === 0 && retryAfter > 0) {
+      return NextResponse.json({
+        errors: [],
+        projects,
+        message: `Rate limit reached. Try again in ${retryAfter}s.`,
+        retryAfter,
+        warnings,
+      }, { status: 429, headers: { "Retry-After": String(retryAfter) } });
     }
 
-    // Sort by last seen (most recent first)
-    allErrors.sort((a, b) => new Date(b.lastSeen).getTime() - new Date(a.lastSeen).getTime());
+    // Merge projects and sources using the same order Sentry applied per project
+    sortErrors(allErrors, sort);
+
+    const nextCursor = encodeErrorsCursor(nextCursors);
 
     return NextResponse.json({ 
       errors: allErrors,
-      warnings: errors.length > 0 ? errors : undefined,
+      projects,
+      nextCursor,
+      hasMore: nextCursor !== null,
+      warnings: warnings.length > 0 ? warnings : undefined,
     });
   } catch (error) {
-    console.error("Error fetching Sentry errors:", error);
+    console.error("Error fetching errors:", error);
     return NextResponse.json(
       {
         errors: [],
@@ -0,0 +1,76 @@
+import { auth } from "@/auth";
+import { NextResponse } from "next/server";
+import { listUploadedSourceMaps, saveUploadedSourceMap } from "@/lib/sourcemaps";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
+
+// List the source maps uploaded for a project (?project=), or the shared ones without it
+export async function GET(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const project = searchParams.get("project") || null;
+
+    return NextResponse.json({ data: listUploadedSourceMaps(project) });
+  } catch (error) {
+    console.error("Error listing source maps:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list source maps",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Upload build artifacts: multipart/form-data with an optional "project" and one or more "file" fields
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const form = await request.formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json({ error: "Expected multipart/form-data with one or more \"file\" fields" }, { status: 400 });
+    }
+
+    const project = String(form.get("project") || "").trim() || null;
+    const files = form.getAll("file").filter((value): value is File => typeof value !== "string");
+    if (files.length === 0) {
+      return NextResponse.json({ error: "No source map files uploaded" }, { status: 400 });
+    }
+
+    const uploaded = [];
+    for (const file of files) {
+      try {
+        uploaded.push(saveUploadedSourceMap(project, file.name, await file.text()));
+      } catch (error) {
+        return NextResponse.json({
+          error: error instanceof Error ? error.message : `Invalid source map ${file.name}`,
+          data: uploaded,
+        }, { status: 400 });
+      }
+    }
+
+    console.log(`🗺️ Stored ${uploaded.length} source map(s) for ${project || "all projects"}`);
+    return NextResponse.json({ data: uploaded });
+  } catch (error) {
+    console.error("Error uploading source maps:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to upload source maps",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse, after } from "next/server";
+import { revalidateTag } from "next/cache";
+import { parseSentryWebhook, verifySentrySignature, type SentryWebhookRecord } from "@/lib/sentry/webhooks";
+import { saveWebhookRecord } from "@/lib/sentry/webhook-store";
+import { getSentryRegistry, findSentryProject } from "@/lib/sentry/projects";
+import { getSentryTarget } from "@/lib/sentry/config";
+import { getIssueEvent, SENTRY_ISSUES_TAG, sentryIssueTag } from "@/lib/sentry/client";
+import { explainError } from "@/lib/openai";
+import { isLLMConfigured } from "@/lib/llm";
+
+export const dynamic = 'force-dynamic'; // Webhooks must never be cached
+
+// Generate (and cache) an AI explanation as soon as a new issue arrives
+async function autoExplain(record: SentryWebhookRecord) {
+  const issue = record.issue;
+  if (!issue || !record.issueId) return;
+
+  try {
+    // The webhook issue has no entries; fetch the latest full event for stack frames and breadcrumbs
+    const registry = getSentryRegistry();
+    const target = getSentryTarget(findSentryProject(record.projectSlug, registry.projects), registry);
+    const latestEvent = target
+      ? await getIssueEvent(target, record.issueId).catch(() => null)
+      : null;
+
+    await explainError({
+      title: issue.title || record.title || "",
+      level: issue.level || "error",
+      culprit: issue.culprit || "",
+      metadata: issue.metadata || {},
+      project: record.projectSlug,
+      type: issue.type,
+      platform: issue.platform,
+      firstSeen: issue.firstSeen,
+      lastSeen: issue.lastSeen,
+      count: Number(issue.count) || 0,
+      userCount: issue.userCount || 0,
+      latestEvent,
+    });
+    console.log(`🤖 Auto-explained new Sentry issue ${record.issueId}`);
+  } catch (error) {
+    console.error(`Failed to auto-explain Sentry issue ${record.issueId}:`, error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const secret = process.env.SENTRY_WEBHOOK_SECRET;
+
+    if (!secret) {
+      return NextResponse.json({
+        error: "Sentry webhook secret not configured",
+        message: "Please set SENTRY_WEBHOOK_SECRET to your Sentry integration's client secret.",
+      }, { status: 500 });
+    }
+
+    // Verify against the raw body - re-serializing the JSON could change the bytes
+    const rawBody = await request.text();
+    if (!verifySentrySignature(rawBody, request.headers.get("sentry-hook-signature"), secret)) {
+      console.warn("⚠️ Rejected Sentry webhook with an invalid signature");
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const resource = request.headers.get("sentry-hook-resource") || "";
+    const record = parseSentryWebhook(resource, payload, request.headers.get("request-id"));
+
+    if (!record) {
+      // Acknowledge so Sentry doesn't retry resources we don't use (installation, metric_alert, ...)
+      return NextResponse.json({ ok: true, ignored: true, resource });
+    }
+
+    const isNew = saveWebhookRecord(record);
+
+    if (isNew) {
+      // Drop cached Sentry reads so the next dashboard refresh sees the change
+      revalidateTag(SENTRY_ISSUES_TAG, { expire: 0 });
+      if (record.issueId) {
+        revalidateTag(sentryIssueTag(record.issueId), { expire: 0 });
+      }
+
+      if (
+        process.env.SENTRY_WEBHOOK_AUTO_EXPLAIN === "true" &&
+        isLLMConfigured() &&
+        record.resource === "issue" &&
+        record.action === "created"
+      ) {
+        // Respond to Sentry right away; the explanation is generated after the response is sent
+        after(() => autoExplain(record));
+      }
+    }
+
+    return NextResponse.json({ ok: true, id: record.id, duplicate: !isNew });
+  } catch (error) {
+    console.error("Error handling Sentry webhook:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to handle webhook",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { auth } from "@/auth";
+import { NextResponse } from "next/server";
+import { subscribeToWebhooks } from "@/lib/sentry/webhook-store";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering since we use auth headers
+
+const HEARTBEAT_MS = 25000; // Keep proxies from closing idle connections
+
+// Server-Sent Events stream of Sentry webhook deliveries received by this server process
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup(); // Stream already closed
+        }
+      };
+
+      const unsubscribe = subscribeToWebhooks((record) => {
+        write(`event: sentry\ndata: ${JSON.stringify(record)}\n\n`);
+      });
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      write(`event: ready\ndata: {}\n\n`);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
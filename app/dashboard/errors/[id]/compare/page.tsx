@@ -0,0 +1,253 @@
+"use client";
+
+import { useSession, signOut } from "next-auth/react";
+import { useEffect, useState } from "react";
+import { useRouter, useParams, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import type { SentryEvent } from "@/lib/sentry/types";
+import { diffEvents } from "@/lib/utils/event-diff";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering since this page calls auth-protected APIs
+
+function eventLabel(event: SentryEvent): string {
+    const id = (event.eventID || event.id).slice(0, 8);
+    return event.dateCreated ? `${new Date(event.dateCreated).toLocaleString()} (${id})` : id;
+}
+
+export default function CompareEventsPage() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+    const params = useParams();
+    const searchParams = useSearchParams();
+    const errorId = params?.id as string;
+    const project = searchParams.get("project");
+
+    const [events, setEvents] = useState<SentryEvent[]>([]);
+    const [leftId, setLeftId] = useState<string>(searchParams.get("a") || "");
+    const [rightId, setRightId] = useState<string>(searchParams.get("b") || "");
+    const [leftEvent, setLeftEvent] = useState<SentryEvent | null>(null);
+    const [rightEvent, setRightEvent] = useState<SentryEvent | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [comparing, setComparing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [onlyChanges, setOnlyChanges] = useState(true);
+
+    const projectQuery = project ? `?${new URLSearchParams({ project })}` : "";
+
+    useEffect(() => {
+        if (status === "unauthenticated") {
+            router.push("/login");
+        }
+    }, [status, router]);
+
+    // Load the issue's recent events; default to comparing the two most recent
+    useEffect(() => {
+        if (status !== "authenticated" || !errorId) return;
+
+        const fetchEvents = async () => {
+            try {
+                setLoading(true);
+                setError(null);
+                const response = await fetch(`/api/sentry/errors/${errorId}/events${projectQuery}`);
+                const data = await response.json();
+
+                if (!response.ok) {
+                    throw new Error(data.message || data.error || "Failed to fetch events");
+                }
+
+                const list: SentryEvent[] = data.events || [];
+                setEvents(list);
+                const ids = list.map((event) => event.eventID || event.id);
+                setRightId((current) => current || ids[0] || "");
+                setLeftId((current) => current || ids[1] || "");
+            } catch (err) {
+                setError(err instanceof Error ? err.message : "Failed to fetch events");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchEvents();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [status, errorId]);
+
+    // Load both full events whenever the selection changes
+    useEffect(() => {
+        if (status !== "authenticated" || !leftId || !rightId) return;
+
+        const fetchEvent = async (eventId: string): Promise<SentryEvent> => {
+            const response = await fetch(`/api/sentry/errors/${errorId}/events/${eventId}${projectQuery}`);
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.message || data.error || "Failed to fetch event");
+            }
+            return data.data.event;
+        };
+
+        const compare = async () => {
+            try {
+                setComparing(true);
+                setError(null);
+                const [left, right] = await Promise.all([fetchEvent(leftId), fetchEvent(rightId)]);
+                setLeftEvent(left);
+                setRightEvent(right);
+            } catch (err) {
+                setError(err instanceof Error ? err.message : "Failed to fetch events");
+            } finally {
+                setComparing(false);
+            }
+        };
+
+        compare();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [status, errorId, leftId, rightId]);
+
+    if (status === "loading" || loading) {
+        return (
+            <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+                <div className="text-center">
+                    <div className="mb-4 inline-block h-12 w-12 animate-spin rounded-full border-4 border-solid border-purple-500 border-r-transparent"></div>
+                    <div className="text-lg font-medium text-purple-300">Give me a moment...</div>
+                </div>
+            </div>
+        );
+    }
+
+    if (!session) {
+        return null;
+    }
+
+    const sections = leftEvent && rightEvent ? diffEvents(leftEvent, rightEvent) : [];
+    const totalChanges = sections.reduce((sum, section) => sum + section.changedCount, 0);
+    const selectClass = "w-full px-3 py-2 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 cursor-pointer";
+
+    return (
+        <div className="relative min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+            {/* Animated background orbs */}
+            <div className="fixed inset-0 pointer-events-none overflow-hidden">
+                <div className="absolute top-0 left-1/4 w-96 h-96 bg-purple-600/20 rounded-full blur-3xl animate-pulse"></div>
+                <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-pink-600/20 rounded-full blur-3xl animate-pulse delay-700"></div>
+            </div>
+
+            {/* Sticky Header */}
+            <div className="sticky top-0 z-50 mb-8 bg-slate-900/30 backdrop-blur-sm">
+                <div className="p-8 flex justify-between items-center">
+                    <div className="flex items-center gap-6">
+                        <Link
+                            href={`/dashboard/errors/${errorId}`}
+                            className="flex items-center gap-2 px-4 py-2 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg hover:bg-slate-700 transition-all duration-200 cursor-pointer"
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                            </svg>
+                            Back to Issue
+                        </Link>
+                        <div className="h-8 w-px bg-slate-700/50"></div>
+                        <div>
+                            <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-cyan-400 bg-clip-text text-transparent">
+                                Compare Events
+                            </h1>
+                            {leftEvent?.title && (
+                                <p className="text-gray-400 mt-1 text-sm truncate max-w-2xl">{leftEvent.title}</p>
+                            )}
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => signOut({ callbackUrl: "/login" })}
+                        className="px-4 py-2 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg hover:bg-slate-700 transition-all duration-200 cursor-pointer"
+                    >
+                        Sign Out
+                    </button>
+                </div>
+            </div>
+
+            <div className="relative p-8">
+                <div className="max-w-6xl mx-auto space-y-6">
+                    {/* Event pickers */}
+                    <div className="rounded-2xl bg-white/80 backdrop-blur-xl p-6 shadow-xl dark:bg-gray-800/80 border border-white/20 dark:border-gray-700/30">
+                        {events.length < 2 ? (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">This issue needs at least two events to compare.</p>
+                        ) : (
+                            <div className="grid gap-4 md:grid-cols-2">
+                                {[
+                                    { label: "Event A", value: leftId, onChange: setLeftId },
+                                    { label: "Event B", value: rightId, onChange: setRightId },
+                                ].map((picker) => (
+                                    <div key={picker.label}>
+                                        <label className="mb-1 block text-sm font-medium text-gray-600 dark:text-gray-400">{picker.label}</label>
+                                        <select value={picker.value} onChange={(e) => picker.onChange(e.target.value)} className={selectClass}>
+                                            {events.map((event) => (
+                                                <option key={event.eventID || event.id} value={event.eventID || event.id}>
+                                                    {eventLabel(event)}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <div className="mt-4 flex items-center justify-between">
+                            <span className="text-sm text-gray-500 dark:text-gray-400">
+                                {comparing ? "Loading events..." : leftEvent && rightEvent ? `${totalChanges} field${totalChanges === 1 ? "" : "s"} differ` : ""}
+                            </span>
+                            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+                                <input type="checkbox" checked={onlyChanges} onChange={(e) => setOnlyChanges(e.target.checked)} className="accent-purple-600" />
+                                Only show differences
+                            </label>
+                        </div>
+                    </div>
+
+                    {error && (
+                        <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-400">{error}</div>
+                    )}
+
+                    {/* Diff sections */}
+                    {!comparing && sections.map((section) => {
+                        const rows = onlyChanges ? section.rows.filter((row) => row.changed) : section.rows;
+                        return (
+                            <div key={section.title} className="rounded-2xl bg-white/80 backdrop-blur-xl p-6 shadow-xl dark:bg-gray-800/80 border border-white/20 dark:border-gray-700/30">
+                                <div className="mb-4 flex items-center justify-between">
+                                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">{section.title}</h2>
+                                    <span className={`px-3 py-1 text-xs font-semibold rounded-lg border ${section.changedCount > 0
+                                        ? "bg-yellow-500/20 text-yellow-600 border-yellow-500/30 dark:text-yellow-300"
+                                        : "bg-green-500/20 text-green-600 border-green-500/30 dark:text-green-400"
+                                        }`}>
+                                        {section.changedCount > 0 ? `${section.changedCount} changed` : "Identical"}
+                                    </span>
+                                </div>
+                                {rows.length === 0 ? (
+                                    <p className="text-sm text-gray-500 dark:text-gray-400">No differences</p>
+                                ) : (
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full text-xs">
+                                            <thead>
+                                                <tr className="text-left text-gray-500 dark:text-gray-400">
+                                                    <th className="w-40 py-1 pr-4 font-semibold">Field</th>
+                                                    <th className="py-1 pr-4 font-semibold">Event A</th>
+                                                    <th className="py-1 font-semibold">Event B</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {rows.map((row) => (
+                                                    <tr key={row.field} className={`align-top ${row.changed ? "bg-yellow-500/10" : ""}`}>
+                                                        <td className="py-1 pr-4 font-mono font-semibold text-gray-600 dark:text-gray-400 whitespace-nowrap">{row.field}</td>
+                                                        <td className={`py-1 pr-4 font-mono break-all ${row.changed ? "text-red-600 dark:text-red-300" : "text-gray-900 dark:text-gray-100"}`}>
+                                                            {row.left ?? <span className="italic text-gray-500">—</span>}
+                                                        </td>
+                                                        <td className={`py-1 font-mono break-all ${row.changed ? "text-green-600 dark:text-green-300" : "text-gray-900 dark:text-gray-100"}`}>
+                                                            {row.right ?? <span className="italic text-gray-500">—</span>}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
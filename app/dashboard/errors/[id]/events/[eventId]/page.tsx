@@ -0,0 +1,315 @@
+"use client";
+
+import { useSession, signOut } from "next-auth/react";
+import { useEffect, useState } from "react";
+import { useRouter, useParams, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import type { SentryEvent, SentryIssueMetadata } from "@/lib/sentry/types";
+import { describeEventUser, eventTag } from "@/lib/sentry/event-utils";
+import StackTraceViewer from "@/components/error-details/StackTraceViewer";
+import BreadcrumbTimeline from "@/components/error-details/BreadcrumbTimeline";
+import RequestContextCard from "@/components/error-details/RequestContextCard";
+import ExplanationSections, { type AIExplanation } from "@/components/error-details/ExplanationSections";
+import PersonaSelect from "@/components/error-details/PersonaSelect";
+import type { PersonaId } from "@/lib/prompts/personas";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering since this page calls auth-protected APIs
+
+interface EventIssueSummary {
+    id: string;
+    title: string;
+    level: string;
+    status?: string;
+    culprit: string;
+    metadata: SentryIssueMetadata;
+    type: string;
+    platform: string;
+    logger: string;
+    firstSeen: string;
+    lastSeen: string;
+    count: number;
+    userCount: number;
+    project?: string;
+    projectName?: string;
+}
+
+export default function EventDetailsPage() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+    const params = useParams();
+    const searchParams = useSearchParams();
+    const errorId = params?.id as string;
+    const eventId = params?.eventId as string;
+    const project = searchParams.get("project");
+
+    const [event, setEvent] = useState<SentryEvent | null>(null);
+    const [issue, setIssue] = useState<EventIssueSummary | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [aiExplanation, setAiExplanation] = useState<AIExplanation | null>(null);
+    const [aiLoading, setAiLoading] = useState(false);
+    const [aiError, setAiError] = useState<string | null>(null);
+    const [persona, setPersona] = useState<PersonaId | null>(null);
+
+    useEffect(() => {
+        if (status === "unauthenticated") {
+            router.push("/login");
+        }
+    }, [status, router]);
+
+    useEffect(() => {
+        if (status === "authenticated" && errorId && eventId) {
+            setAiExplanation(null);
+            setAiError(null);
+            fetchEvent();
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [status, errorId, eventId]);
+
+    const fetchEvent = async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            const query = project ? `?${new URLSearchParams({ project })}` : "";
+            const response = await fetch(`/api/sentry/errors/${errorId}/events/${eventId}${query}`);
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.message || data.error || "Failed to fetch event");
+            }
+
+            setEvent(data.data?.event || null);
+            setIssue(data.data?.issue || null);
+        } catch (err) {
+            console.error("Error fetching event:", err);
+            setError(err instanceof Error ? err.message : "An error occurred");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Explain this occurrence only; the server caches the result per event ID
+    const explainEvent = async (requestedPersona = persona) => {
+        if (!event) return;
+
+        try {
+            setAiLoading(true);
+            setAiError(null);
+
+            const response = await fetch("/api/ai/explain", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    errorDetails: {
+                        title: issue?.title || event.title || "",
+                        level: issue?.level || "error",
+                        culprit: issue?.culprit || event.culprit || "",
+                        metadata: issue?.metadata || event.metadata || {},
+                        project: issue?.project || project || undefined,
+                        logger: issue?.logger,
+                        type: issue?.type,
+                        platform: event.platform || issue?.platform,
+                        tags: (event.tags || []).map((tag) => ({ key: tag.key, value: tag.value || "" })),
+                        firstSeen: issue?.firstSeen,
+                        lastSeen: issue?.lastSeen,
+                        count: issue?.count,
+                        userCount: issue?.userCount,
+                        latestEvent: event,
+                        eventId: event.eventID || eventId,
+                    },
+                    persona: requestedPersona || undefined,
+                }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || data.message || "Failed to generate AI explanation");
+            }
+
+            setAiExplanation(data.explanation || null);
+            setPersona(data.persona || null);
+        } catch (err) {
+            console.error("Error fetching AI explanation:", err);
+            setAiError(err instanceof Error ? err.message : "Failed to generate explanation");
+        } finally {
+            setAiLoading(false);
+        }
+    };
+
+    if (status === "loading" || loading) {
+        return (
+            <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+                <div className="text-center">
+                    <div className="mb-4 inline-block h-12 w-12 animate-spin rounded-full border-4 border-solid border-purple-500 border-r-transparent"></div>
+                    <div className="text-lg font-medium text-purple-300">Give me a moment...</div>
+                </div>
+            </div>
+        );
+    }
+
+    if (!session) {
+        return null;
+    }
+
+    const projectQuery = project ? `?${new URLSearchParams({ project })}` : "";
+    const eventHref = (id: string) => `/dashboard/errors/${errorId}/events/${id}${projectQuery}`;
+    const details: Array<[string, string | null | undefined]> = event
+        ? [
+            ["Event ID", event.eventID || eventId],
+            ["Occurred", event.dateCreated ? new Date(event.dateCreated).toLocaleString() : null],
+            ["Environment", eventTag(event, "environment")],
+            ["Release", eventTag(event, "release")],
+            ["User", describeEventUser(event.user)],
+            ["Browser", eventTag(event, "browser")],
+            ["OS", eventTag(event, "os")],
+            ["URL", eventTag(event, "url")],
+        ]
+        : [];
+
+    return (
+        <div className="relative min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+            {/* Animated background orbs */}
+            <div className="fixed inset-0 pointer-events-none overflow-hidden">
+                <div className="absolute top-0 left-1/4 w-96 h-96 bg-purple-600/20 rounded-full blur-3xl animate-pulse"></div>
+                <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-pink-600/20 rounded-full blur-3xl animate-pulse delay-700"></div>
+            </div>
+
+            {/* Sticky Header */}
+            <div className="sticky top-0 z-50 mb-8 bg-slate-900/30 backdrop-blur-sm">
+                <div className="p-8 flex justify-between items-center">
+                    <div className="flex items-center gap-6">
+                        <Link
+                            href={`/dashboard/errors/${errorId}`}
+                            className="flex items-center gap-2 px-4 py-2 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg hover:bg-slate-700 transition-all duration-200 cursor-pointer"
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                            </svg>
+                            Back to Issue
+                        </Link>
+                        <div className="h-8 w-px bg-slate-700/50"></div>
+                        <div>
+                            <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-cyan-400 bg-clip-text text-transparent">
+                                Event Details
+                            </h1>
+                            {(issue?.title || event?.title) && (
+                                <p className="text-gray-400 mt-1 text-sm truncate max-w-2xl">
+                                    {issue?.title || event?.title}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => signOut({ callbackUrl: "/login" })}
+                            className="px-4 py-2 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg hover:bg-slate-700 transition-all duration-200 cursor-pointer"
+                        >
+                            Sign Out
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="relative p-8">
+                <div className="max-w-5xl mx-auto">
+                    {error ? (
+                        <div className="rounded-2xl bg-red-900/40 backdrop-blur-xl p-8 shadow-2xl border border-red-500/30 text-center">
+                            <h3 className="mb-2 text-xl font-semibold text-red-300">Error Loading Event</h3>
+                            <p className="mb-4 text-sm text-red-200 whitespace-pre-line">{error}</p>
+                            <button
+                                onClick={() => fetchEvent()}
+                                className="rounded-lg bg-gradient-to-r from-purple-600 via-pink-600 to-cyan-600 px-6 py-2 font-semibold text-white shadow-lg shadow-purple-500/30 transition-all hover:shadow-xl hover:shadow-purple-500/50 cursor-pointer"
+                            >
+                                Try Again
+                            </button>
+                        </div>
+                    ) : event ? (
+                        <div className="space-y-6">
+                            {/* Event Summary */}
+                            <div className="rounded-2xl bg-white/80 backdrop-blur-xl p-6 shadow-xl dark:bg-gray-800/80 border border-white/20 dark:border-gray-700/30">
+                                <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+                                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">{event.title || "Event"}</h2>
+                                    <div className="flex items-center gap-2">
+                                        {event.previousEventID && (
+                                            <Link
+                                                href={eventHref(event.previousEventID)}
+                                                className="px-3 py-1.5 bg-slate-800/80 border border-slate-700 text-gray-300 text-sm rounded-lg hover:bg-slate-700 transition-all duration-200"
+                                            >
+                                                ← Older
+                                            </Link>
+                                        )}
+                                        {event.nextEventID && (
+                                            <Link
+                                                href={eventHref(event.nextEventID)}
+                                                className="px-3 py-1.5 bg-slate-800/80 border border-slate-700 text-gray-300 text-sm rounded-lg hover:bg-slate-700 transition-all duration-200"
+                                            >
+                                                Newer →
+                                            </Link>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="grid gap-4 sm:grid-cols-2">
+                                    {details.filter(([, value]) => !!value).map(([label, value]) => (
+                                        <div key={label}>
+                                            <div className="text-sm font-medium text-gray-600 dark:text-gray-400">{label}</div>
+                                            <div className="mt-1 font-mono text-sm text-gray-900 dark:text-white break-all">{value}</div>
+                                        </div>
+                                    ))}
+                                </div>
+                                {!aiExplanation && (
+                                    <button
+                                        type="button"
+                                        onClick={() => explainEvent()}
+                                        disabled={aiLoading}
+                                        className="mt-6 flex items-center gap-2 rounded-lg bg-gradient-to-r from-purple-600 to-pink-600 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition-all hover:shadow-purple-500/50 disabled:cursor-not-allowed disabled:opacity-50"
+                                    >
+                                        {aiLoading && (
+                                            <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
+                                        )}
+                                        {aiLoading ? "Explaining..." : "✨ Explain this event"}
+                                    </button>
+                                )}
+                                {aiError && (
+                                    <div className="mt-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10 px-3 py-2 text-sm text-yellow-600 dark:text-yellow-300">
+                                        {aiError}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* AI Explanation for this event */}
+                            {aiExplanation && (
+                                <div className="rounded-2xl bg-gradient-to-br from-purple-500/20 via-pink-500/20 to-cyan-500/20 backdrop-blur-xl p-8 shadow-2xl border border-purple-500/30">
+                                    <div className="mb-6 flex items-center justify-between gap-3 flex-wrap">
+                                        <h2 className="text-2xl font-bold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Event Explanation</h2>
+                                        <PersonaSelect
+                                            value={persona}
+                                            disabled={aiLoading}
+                                            onChange={(selected) => {
+                                                setPersona(selected);
+                                                explainEvent(selected);
+                                            }}
+                                        />
+                                    </div>
+                                    <ExplanationSections explanation={aiExplanation} />
+                                </div>
+                            )}
+
+                            {/* Stack Trace */}
+                            <StackTraceViewer
+                                event={event}
+                                codeReferences={aiExplanation?.possibleCauses?.map((cause) => cause.codeReference).filter((ref): ref is string => !!ref)}
+                            />
+
+                            {/* Breadcrumbs & Request Context */}
+                            <BreadcrumbTimeline event={event} />
+                            <RequestContextCard event={event} />
+                        </div>
+                    ) : null}
+                </div>
+            </div>
+        </div>
+    );
+}
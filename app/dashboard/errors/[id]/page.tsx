@@ -4,14 +4,30 @@ import { useSession, signOut } from "next-auth/react";
 import { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
+import { formatCategory, getProjectColor, type ProjectColor } from "@/lib/utils/projects";
+import type { SentryEvent, SentryStatusDetails, SentryTag } from "@/lib/sentry/types";
+import type { ErrorSourceId } from "@/lib/sources/types";
+import StackTraceViewer from "@/components/error-details/StackTraceViewer";
+import BreadcrumbTimeline from "@/components/error-details/BreadcrumbTimeline";
+import RequestContextCard from "@/components/error-details/RequestContextCard";
+import IssueActions from "@/components/error-details/IssueActions";
+import TagFacets, { type TagFilter } from "@/components/error-details/TagFacets";
+import ExplanationSections, { type AIExplanation } from "@/components/error-details/ExplanationSections";
+import PersonaSelect from "@/components/error-details/PersonaSelect";
+import ExplanationChat from "@/components/error-details/ExplanationChat";
+import type { PersonaId } from "@/lib/prompts/personas";
+import { tagSearchQuery } from "@/lib/sentry/tag-utils";
+import { readServerSentEvents } from "@/lib/utils/sse";
 
 export const dynamic = 'force-dynamic'; // Force dynamic rendering since this page calls auth-protected APIs
 
 interface ErrorDetails {
     id: string;
+    source?: ErrorSourceId;
     title: string;
     level: string;
     status: string;
+    statusDetails?: SentryStatusDetails;
     count: number;
     userCount: number;
     firstSeen: string;
@@ -19,9 +35,12 @@ interface ErrorDetails {
     culprit: string;
     permalink: string;
     project: string;
-    projectType?: "frontend" | "backend";
+    projectName?: string;
+    projectType?: string;
+    projectColor?: ProjectColor;
     metadata: any;
     tags: Array<{ key: string; value: string }>;
+    tagDistributions?: SentryTag[];
     assignedTo: any;
     logger: string;
     type: string;
@@ -29,6 +48,8 @@ interface ErrorDetails {
     isPublic: boolean;
     platform: string;
     events: any[];
+    latestEvent?: SentryEvent | null;
+    recentEvents?: SentryEvent[];
     linearIssue?: {
         id: string;
         identifier: string;
@@ -37,39 +58,27 @@ interface ErrorDetails {
     };
 }
 
-interface AIExplanation {
-    overview: string;
-    aiErrorExplanation: string;
-    detailedBreakdown: {
-        whatHappened: string;
-        whereItHappened: string;
-        whyItHappened: string;
-        whenItHappened: string;
+// The part of the issue the AI routes need, for explanations and follow-up questions alike
+function toAIErrorDetails(details: ErrorDetails) {
+    return {
+        title: details.title,
+        level: details.level,
+        culprit: details.culprit,
+        metadata: details.metadata,
+        project: details.project,
+        logger: details.logger,
+        type: details.type,
+        platform: details.platform,
+        tags: details.tags,
+        tagDistributions: details.tagDistributions,
+        firstSeen: details.firstSeen,
+        lastSeen: details.lastSeen,
+        count: details.count,
+        userCount: details.userCount,
+        events: details.events,
+        latestEvent: details.latestEvent,
+        recentEvents: details.recentEvents,
     };
-    severity: "low" | "medium" | "high" | "critical";
-    impact: {
-        userImpact: string;
-        systemImpact: string;
-        businessImpact: string;
-    };
-    errorComponents: Array<{
-        component: string;
-        issue: string;
-        explanation: string;
-    }>;
-    possibleCauses: Array<{
-        cause: string;
-        likelihood: "low" | "medium" | "high";
-        codeReference?: string;
-        explanation: string;
-    }>;
-    suggestedFixes: Array<{
-        fix: string;
-        priority: "low" | "medium" | "high";
-        steps: string[];
-        difficulty: "easy" | "medium" | "hard";
-    }>;
-    preventionTips: string[];
 }
 
 export default function ErrorDetailsPage() {
@@ -83,6 +92,8 @@ export default function ErrorDetailsPage() {
     const [error, setError] = useState<string | null>(null);
     const [aiExplanation, setAiExplanation] = useState<AIExplanation | null>(null);
     const [aiLoading, setAiLoading] = useState(false);
+    const [streamingExplanation, setStreamingExplanation] = useState<Partial<AIExplanation> | null>(null);
+    const [persona, setPersona] = useState<PersonaId | null>(null); // null until the server reports the user's default
     const [aiError, setAiError] = useState<string | null>(null);
     const [lastFetchTime, setLastFetchTime] = useState<number>(0);
     const [lastAIFetchTime, setLastAIFetchTime] = useState<number>(0);
@@ -98,6 +109,10 @@ export default function ErrorDetailsPage() {
     const [selectedAssigneeId, setSelectedAssigneeId] = useState<string>("");
     const [loadingTeamMembers, setLoadingTeamMembers] = useState(false);
     const [showMemberDropdown, setShowMemberDropdown] = useState(false);
+    const [eventFilter, setEventFilter] = useState<TagFilter | null>(null);
+    const [filteredEvents, setFilteredEvents] = useState<SentryEvent[] | null>(null);
+    const [eventsLoading, setEventsLoading] = useState(false);
+    const [eventsError, setEventsError] = useState<string | null>(null);
     const CACHE_DURATION = 120 * 1000; // 2 minutes for error details
     const AI_CACHE_DURATION = 300 * 1000; // 5 minutes for AI explanations
 
@@ -183,10 +198,11 @@ export default function ErrorDetailsPage() {
         }
     };
 
-    const fetchAIExplanation = async (details: ErrorDetails, forceRefresh = false) => {
+    const fetchAIExplanation = async (details: ErrorDetails, forceRefresh = false, requestedPersona = persona) => {
         try {
             setAiLoading(true);
             setAiError(null);
+            setStreamingExplanation(null);
 
             // Check if we already have a cached explanation (client-side check)
             // The server-side cache in lib/openai.ts will also check, but this prevents unnecessary API calls
@@ -200,7 +216,8 @@ export default function ErrorDetailsPage() {
             }
 
             // API route will check server-side cache (lib/openai.ts)
-            // If cached, it returns immediately without calling OpenAI
+            // If cached, it returns immediately without calling the model
+            // Otherwise sections stream in as Server-Sent Events while the model writes them
             const response = await fetch("/api/ai/explain", {
                 method: "POST",
                 headers: {
@@ -208,42 +225,68 @@ export default function ErrorDetailsPage() {
                 },
                 cache: forceRefresh ? 'no-store' : 'default',
                 body: JSON.stringify({
-                    errorDetails: {
-                        title: details.title,
-                        level: details.level,
-                        culprit: details.culprit,
-                        metadata: details.metadata,
-                        logger: details.logger,
-                        type: details.type,
-                        platform: details.platform,
-                        tags: details.tags,
-                        firstSeen: details.firstSeen,
-                        lastSeen: details.lastSeen,
-                        count: details.count,
-                        userCount: details.userCount,
-                        events: details.events,
-                    },
+                    errorDetails: toAIErrorDetails(details),
+                    stream: true,
+                    persona: requestedPersona || undefined,
                 }),
             });
 
-            const data = await response.json();
-
-            if (!response.ok) {
+            // Errors before the stream starts (auth, configuration) come back as plain JSON
+            if (!response.ok || !response.body) {
+                const data = await response.json().catch(() => ({}));
                 throw new Error(data.error || data.message || "Failed to generate AI explanation");
             }
 
-            if (data.explanation) {
-                setAiExplanation(data.explanation);
-                setLastAIFetchTime(Date.now()); // Update AI cache timestamp
+            for await (const { event, data } of readServerSentEvents(response.body)) {
+                const payload = JSON.parse(data);
+
+                if (event === "section") {
+                    setStreamingExplanation((current) => ({ ...current, [payload.key]: payload.value }));
+                } else if (event === "done" && payload.explanation) {
+                    setAiExplanation(payload.explanation);
+                    setPersona(payload.persona || null);
+                    setLastAIFetchTime(Date.now()); // Update AI cache timestamp
+                } else if (event === "error") {
+                    throw new Error(payload.message || payload.error || "Failed to generate AI explanation");
+                }
             }
         } catch (err) {
             console.error("Error fetching AI explanation:", err);
             setAiError(err instanceof Error ? err.message : "Failed to generate explanation");
         } finally {
+            setStreamingExplanation(null);
             setAiLoading(false);
         }
     };
 
+    // Filter the event list by a tag value picked in the Tags facets
+    const selectEventFilter = async (filter: TagFilter | null) => {
+        setEventFilter(filter);
+        setFilteredEvents(null);
+        setEventsError(null);
+        if (!filter) return;
+
+        try {
+            setEventsLoading(true);
+            const params = new URLSearchParams({ query: tagSearchQuery(filter.key, filter.value) });
+            if (errorDetails?.project) {
+                params.set("project", errorDetails.project);
+            }
+            const response = await fetch(`/api/sentry/errors/${errorId}/events?${params}`);
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.message || data.error || "Failed to fetch events");
+            }
+
+            setFilteredEvents(data.events || []);
+        } catch (err) {
+            setEventsError(err instanceof Error ? err.message : "Failed to fetch events");
+        } finally {
+            setEventsLoading(false);
+        }
+    };
+
     const fetchTeamMembers = async () => {
         try {
             setLoadingTeamMembers(true);
@@ -407,6 +450,7 @@ export default function ErrorDetailsPage() {
             try {
                 requestBody = {
                     errorId: String(errorDetails.id),
+                    project: errorDetails.project,
                     aiExplanation: plainAIExplanation,
                     linearIssueId: String(linearIssueId),
                     assigneeId: assigneeId || errorDetails.assignedTo?.id ? String(assigneeId || errorDetails.assignedTo.id) : null,
@@ -638,7 +682,33 @@ export default function ErrorDetailsPage() {
                     ) : errorDetails ? (
                         <div className="space-y-6">
                             {/* AI Explanation Card - Prominently Displayed */}
-                            {aiLoading ? (
+                            {aiLoading && streamingExplanation ? (
+                                <div className="rounded-2xl bg-gradient-to-br from-purple-500/20 via-pink-500/20 to-cyan-500/20 backdrop-blur-xl p-8 shadow-2xl border border-purple-500/30 relative overflow-hidden">
+                                    <div className="absolute top-0 right-0 w-96 h-96 bg-purple-500/10 rounded-full blur-3xl"></div>
+                                    <div className="relative z-10">
+                                        <div className="mb-6 flex items-center gap-3 flex-wrap">
+                                            <div className="relative rounded-xl bg-gradient-to-br from-purple-500 via-pink-500 to-cyan-500 p-3 shadow-lg shadow-purple-500/50">
+                                                <div className="absolute inset-0 rounded-xl bg-gradient-to-br from-purple-500 via-pink-500 to-cyan-500 opacity-75 blur-sm"></div>
+                                                <div className="relative h-6 w-6 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
+                                            </div>
+                                            <div className="flex-1">
+                                                <h2 className="text-2xl font-bold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Error Explanation</h2>
+                                                <p className="text-sm text-purple-300/70">Writing the explanation as the AI generates it...</p>
+                                            </div>
+                                            {streamingExplanation.severity && (
+                                                <span className={`inline-flex rounded-full px-4 py-2 text-xs font-bold border ${streamingExplanation.severity === "critical" ? "bg-red-500/20 text-red-300 border-red-500/30" :
+                                                    streamingExplanation.severity === "high" ? "bg-orange-500/20 text-orange-300 border-orange-500/30" :
+                                                        streamingExplanation.severity === "medium" ? "bg-yellow-500/20 text-yellow-300 border-yellow-500/30" :
+                                                            "bg-green-500/20 text-green-300 border-green-500/30"
+                                                    }`}>
+                                                    {streamingExplanation.severity.toUpperCase()} SEVERITY
+                                                </span>
+                                            )}
+                                        </div>
+                                        <ExplanationSections explanation={streamingExplanation} streaming />
+                                    </div>
+                                </div>
+                            ) : aiLoading ? (
                                 <div className="rounded-2xl bg-gradient-to-br from-indigo-50 to-purple-50 p-8 shadow-xl dark:from-indigo-900/20 dark:to-purple-900/20 border border-indigo-200 dark:border-indigo-800">
                                     <div className="flex items-center gap-4">
                                         <div className="h-8 w-8 animate-spin rounded-full border-4 border-solid border-indigo-600 border-r-transparent"></div>
@@ -682,6 +752,14 @@ export default function ErrorDetailsPage() {
                                                 <p className="text-sm text-purple-300/70">Understanding this error in simple terms</p>
                                             </div>
                                             <div className="flex items-center gap-3 flex-wrap">
+                                                <PersonaSelect
+                                                    value={persona}
+                                                    onChange={(selected) => {
+                                                        // Each persona is cached separately, so switching back is instant
+                                                        setPersona(selected);
+                                                        fetchAIExplanation(errorDetails, true, selected);
+                                                    }}
+                                                />
                                                 <span className={`inline-flex rounded-full px-4 py-2 text-xs font-bold border ${aiExplanation.severity === "critical" ? "bg-red-500/20 text-red-300 border-red-500/30" :
                                                     aiExplanation.severity === "high" ? "bg-orange-500/20 text-orange-300 border-orange-500/30" :
                                                         aiExplanation.severity === "medium" ? "bg-yellow-500/20 text-yellow-300 border-yellow-500/30" :
@@ -762,208 +840,13 @@ export default function ErrorDetailsPage() {
                                             </div>
                                         )}
 
-                                        {/* Overview */}
-                                        <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
-                                            <h3 className="mb-3 text-lg font-semibold text-white">Overview</h3>
-                                            <div className="mb-4 rounded-lg bg-slate-900/50 p-4 border border-purple-500/20">
-                                                <p className="font-mono text-sm text-purple-200 break-all whitespace-pre-wrap">
-                                                    {aiExplanation.overview}
-                                                </p>
-                                            </div>
-                                        </div>
-
-                                        {/* AI Error Explanation */}
-                                        <div className="mb-6 rounded-xl bg-gradient-to-br from-purple-500/20 via-pink-500/20 to-cyan-500/20 backdrop-blur-xl p-6 border border-purple-500/30 relative overflow-hidden">
-                                            <div className="absolute top-0 right-0 w-48 h-48 bg-purple-500/10 rounded-full blur-3xl"></div>
-                                            <div className="relative z-10">
-                                                <div className="mb-3 flex items-center gap-2">
-                                                    <div className="rounded-lg bg-gradient-to-br from-purple-500 to-pink-500 p-2">
-                                                        <svg className="h-5 w-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
-                                                        </svg>
-                                                    </div>
-                                                    <h3 className="text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">AI Error Explanation</h3>
-                                                </div>
-                                                <p className="text-base leading-relaxed text-purple-100 break-all whitespace-pre-wrap">
-                                                    {aiExplanation.aiErrorExplanation}
-                                                </p>
-                                            </div>
-                                        </div>
-
-                                        {/* Detailed Breakdown */}
-                                        <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
-                                            <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Detailed Breakdown</h3>
-                                            <div className="space-y-4">
-                                                <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
-                                                    <h4 className="mb-2 font-semibold text-purple-300">What Happened?</h4>
-                                                    <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
-                                                        {aiExplanation.detailedBreakdown.whatHappened}
-                                                    </p>
-                                                </div>
-                                                <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
-                                                    <h4 className="mb-2 font-semibold text-purple-300">Where Did It Happen?</h4>
-                                                    <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
-                                                        {aiExplanation.detailedBreakdown.whereItHappened}
-                                                    </p>
-                                                </div>
-                                                <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
-                                                    <h4 className="mb-2 font-semibold text-purple-300">Why Did It Happen?</h4>
-                                                    <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
-                                                        {aiExplanation.detailedBreakdown.whyItHappened}
-                                                    </p>
-                                                </div>
-                                                <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
-                                                    <h4 className="mb-2 font-semibold text-purple-300">When Does It Happen?</h4>
-                                                    <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
-                                                        {aiExplanation.detailedBreakdown.whenItHappened}
-                                                    </p>
-                                                </div>
-                                            </div>
-                                        </div>
-
-                                        {/* Error Components */}
-                                        {aiExplanation.errorComponents && aiExplanation.errorComponents.length > 0 && (
-                                            <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
-                                                <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Problematic Components</h3>
-                                                <div className="space-y-4">
-                                                    {aiExplanation.errorComponents.map((component, index) => (
-                                                        <div key={index} className="rounded-lg border border-purple-500/20 bg-slate-900/50 p-4">
-                                                            <h4 className="mb-2 font-semibold text-white break-all">
-                                                                {component.component}
-                                                            </h4>
-                                                            <p className="mb-2 text-sm font-medium text-red-400 break-all whitespace-pre-wrap">
-                                                                Issue: {component.issue}
-                                                            </p>
-                                                            <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
-                                                                {component.explanation}
-                                                            </p>
-                                                        </div>
-                                                    ))}
-                                                </div>
-                                            </div>
-                                        )}
-
-                                        {/* Impact Analysis */}
-                                        <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
-                                            <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Impact Analysis</h3>
-                                            <div className="space-y-4">
-                                                <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
-                                                    <h4 className="mb-2 font-semibold text-purple-300">👥 User Impact</h4>
-                                                    <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
-                                                        {aiExplanation.impact.userImpact}
-                                                    </p>
-                                                </div>
-                                                <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
-                                                    <h4 className="mb-2 font-semibold text-purple-300">⚙️ System Impact</h4>
-                                                    <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
-                                                        {aiExplanation.impact.systemImpact}
-                                                    </p>
-                                                </div>
-                                                <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
-                                                    <h4 className="mb-2 font-semibold text-purple-300">💼 Business Impact</h4>
-                                                    <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
-                                                        {aiExplanation.impact.businessImpact}
-                                                    </p>
-                                                </div>
-                                            </div>
-                                        </div>
-
-                                        {/* Possible Causes */}
-                                        <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
-                                            <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Possible Causes</h3>
-                                            <div className="space-y-4">
-                                                {aiExplanation.possibleCauses.map((cause, index) => (
-                                                    <div key={index} className="rounded-lg border border-purple-500/20 bg-slate-900/50 p-4 border-l-4 border-l-purple-500">
-                                                        <div className="mb-2 flex items-center gap-2 flex-wrap">
-                                                            <span className="flex h-6 w-6 items-center justify-center rounded-full bg-gradient-to-br from-purple-500 to-pink-500 text-xs font-semibold text-white shadow-lg shadow-purple-500/30 flex-shrink-0">
-                                                                {index + 1}
-                                                            </span>
-                                                            <h4 className="font-semibold text-white break-all flex-1 min-w-0">{cause.cause}</h4>
-                                                            <span className={`ml-auto rounded-full px-2 py-1 text-xs font-semibold border flex-shrink-0 ${cause.likelihood === "high" ? "bg-red-500/20 text-red-300 border-red-500/30" :
-                                                                cause.likelihood === "medium" ? "bg-yellow-500/20 text-yellow-300 border-yellow-500/30" :
-                                                                    "bg-gray-500/20 text-gray-300 border-gray-500/30"
-                                                                }`}>
-                                                                {cause.likelihood.toUpperCase()} LIKELIHOOD
-                                                            </span>
-                                                        </div>
-                                                        {cause.codeReference && (
-                                                            <div className="mb-2 ml-8 flex items-start gap-2 rounded bg-purple-500/10 border border-purple-500/30 px-3 py-2">
-                                                                <svg className="mt-0.5 h-4 w-4 text-purple-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
-                                                                </svg>
-                                                                <div className="flex-1 min-w-0">
-                                                                    <div className="text-xs font-semibold text-purple-300 mb-1">📍 Code Location:</div>
-                                                                    <code className="text-xs font-mono text-purple-200 break-all whitespace-pre-wrap">
-                                                                        {cause.codeReference}
-                                                                    </code>
-                                                                </div>
-                                                            </div>
-                                                        )}
-                                                        <p className="ml-8 text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
-                                                            {cause.explanation}
-                                                        </p>
-                                                    </div>
-                                                ))}
-                                            </div>
-                                        </div>
-
-                                        {/* Suggested Fixes */}
-                                        <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
-                                            <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Concrete Solutions</h3>
-                                            <div className="space-y-4">
-                                                {aiExplanation.suggestedFixes.map((fix, index) => (
-                                                    <div key={index} className="rounded-lg border border-green-500/30 bg-green-900/20 p-4">
-                                                        <div className="mb-3 flex items-start justify-between gap-2 flex-wrap">
-                                                            <div className="flex items-center gap-2 flex-1 min-w-0">
-                                                                <span className="flex h-6 w-6 items-center justify-center rounded-full bg-gradient-to-br from-green-500 to-emerald-500 text-xs font-semibold text-white shadow-lg shadow-green-500/30 flex-shrink-0">
-                                                                    ✓
-                                                                </span>
-                                                                <h4 className="font-semibold text-white break-all">{fix.fix}</h4>
-                                                            </div>
-                                                            <div className="flex gap-2 flex-shrink-0 flex-wrap">
-                                                                <span className={`rounded-full px-2 py-1 text-xs font-semibold border ${fix.priority === "high" ? "bg-red-500/20 text-red-300 border-red-500/30" :
-                                                                    fix.priority === "medium" ? "bg-yellow-500/20 text-yellow-300 border-yellow-500/30" :
-                                                                        "bg-gray-500/20 text-gray-300 border-gray-500/30"
-                                                                    }`}>
-                                                                    {fix.priority.toUpperCase()} PRIORITY
-                                                                </span>
-                                                                <span className={`rounded-full px-2 py-1 text-xs font-semibold border ${fix.difficulty === "easy" ? "bg-green-500/20 text-green-300 border-green-500/30" :
-                                                                    fix.difficulty === "medium" ? "bg-yellow-500/20 text-yellow-300 border-yellow-500/30" :
-                                                                        "bg-red-500/20 text-red-300 border-red-500/30"
-                                                                    }`}>
-                                                                    {fix.difficulty.toUpperCase()}
-                                                                </span>
-                                                            </div>
-                                                        </div>
-                                                        <div className="ml-8">
-                                                            <p className="mb-2 text-xs font-semibold text-gray-300">Step-by-step instructions:</p>
-                                                            <ol className="list-decimal list-inside space-y-1 text-sm text-gray-300">
-                                                                {fix.steps.map((step, stepIndex) => (
-                                                                    <li key={stepIndex} className="break-all whitespace-pre-wrap">{step}</li>
-                                                                ))}
-                                                            </ol>
-                                                        </div>
-                                                    </div>
-                                                ))}
-                                            </div>
-                                        </div>
+                                        <ExplanationSections explanation={aiExplanation} />
 
-                                        {/* Prevention Tips */}
-                                        {aiExplanation.preventionTips && aiExplanation.preventionTips.length > 0 && (
-                                            <div className="rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
-                                                <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Prevention Tips</h3>
-                                                <ul className="space-y-2">
-                                                    {aiExplanation.preventionTips.map((tip, index) => (
-                                                        <li key={index} className="flex items-start gap-2 text-sm text-gray-300">
-                                                            <span className="mt-1 flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full bg-cyan-500/20 border border-cyan-500/30 text-xs font-semibold text-cyan-300">
-                                                                💡
-                                                            </span>
-                                                            <span className="break-all whitespace-pre-wrap flex-1">{tip}</span>
-                                                        </li>
-                                                    ))}
-                                                </ul>
-                                            </div>
-                                        )}
+                                        <ExplanationChat
+                                            errorId={errorId}
+                                            errorDetails={toAIErrorDetails(errorDetails)}
+                                            explanation={aiExplanation}
+                                        />
                                     </div>
                                 </div>
                             ) : null}
@@ -980,11 +863,9 @@ export default function ErrorDetailsPage() {
                                                 {errorDetails.status}
                                             </span>
                                             {errorDetails.projectType && (
-                                                <span className={`inline-flex items-center gap-1 rounded-full px-4 py-2 text-sm font-semibold ${errorDetails.projectType === "frontend"
-                                                    ? "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400"
-                                                    : "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400"
-                                                    }`}>
-                                                    {errorDetails.projectType === "frontend" ? "🖥️ Frontend" : "⚙️ Backend"}
+                                                <span className={`inline-flex items-center gap-1 rounded-full px-4 py-2 text-sm font-semibold ${getProjectColor(errorDetails.projectColor)}`}>
+                                                    {formatCategory(errorDetails.projectType)}
+                                                    {errorDetails.projectName && errorDetails.projectName !== errorDetails.project ? ` · ${errorDetails.projectName}` : ""}
                                                 </span>
                                             )}
                                         </div>
@@ -1012,6 +893,19 @@ export default function ErrorDetailsPage() {
                                     )}
                                 </div>
 
+                                {/* Resolve / Ignore / Assign (Sentry issues only) */}
+                                {(errorDetails.source || "sentry") === "sentry" && (
+                                    <IssueActions
+                                        issueId={String(errorDetails.id)}
+                                        project={errorDetails.project}
+                                        status={errorDetails.status}
+                                        statusDetails={errorDetails.statusDetails}
+                                        assignedTo={errorDetails.assignedTo}
+                                        currentUserEmail={session?.user?.email}
+                                        onUpdated={(changes) => setErrorDetails((prev) => (prev ? { ...prev, ...changes } : prev))}
+                                    />
+                                )}
+
                                 {/* Stats Grid */}
                                 <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
                                     <div className="rounded-xl bg-gradient-to-br from-red-50 to-pink-50 p-4 dark:from-red-900/20 dark:to-pink-900/20">
@@ -1078,50 +972,88 @@ export default function ErrorDetailsPage() {
                                     </div>
                                 </div>
 
-                                {/* Tags Card */}
-                                <div className="rounded-2xl bg-white/80 backdrop-blur-xl p-6 shadow-xl dark:bg-gray-800/80 border border-white/20 dark:border-gray-700/30">
-                                    <h2 className="mb-4 text-xl font-bold text-gray-900 dark:text-white">Tags</h2>
-                                    {errorDetails.tags && errorDetails.tags.length > 0 ? (
-                                        <div className="flex flex-wrap gap-2">
-                                            {errorDetails.tags.map((tag, index) => (
-                                                <span
-                                                    key={index}
-                                                    className="inline-flex items-center rounded-full bg-gradient-to-r from-indigo-100 to-purple-100 px-3 py-1 text-xs font-medium text-indigo-800 dark:from-indigo-900/30 dark:to-purple-900/30 dark:text-indigo-300"
-                                                >
-                                                    <span className="font-semibold">{tag.key}:</span>
-                                                    <span className="ml-1">{tag.value}</span>
-                                                </span>
-                                            ))}
-                                        </div>
-                                    ) : (
-                                        <p className="text-sm text-gray-500 dark:text-gray-400">No tags available</p>
-                                    )}
-                                </div>
+                                {/* Tags */}
+                                <TagFacets
+                                    distributions={errorDetails.tagDistributions}
+                                    tags={errorDetails.tags}
+                                    selected={eventFilter}
+                                    onSelect={selectEventFilter}
+                                />
                             </div>
 
+                            {/* Stack Trace */}
+                            {errorDetails.latestEvent && (
+                                <StackTraceViewer
+                                    event={errorDetails.latestEvent}
+                                    stack={errorDetails.metadata?.stack}
+                                    codeReferences={aiExplanation?.possibleCauses?.map((cause) => cause.codeReference).filter((ref): ref is string => !!ref)}
+                                />
+                            )}
+
+                            {/* Breadcrumbs & Request Context */}
+                            {errorDetails.latestEvent && (
+                                <>
+                                    <BreadcrumbTimeline event={errorDetails.latestEvent} />
+                                    <RequestContextCard event={errorDetails.latestEvent} />
+                                </>
+                            )}
+
                             {/* Recent Events */}
-                            {errorDetails.events && errorDetails.events.length > 0 && (
+                            {((errorDetails.events && errorDetails.events.length > 0) || eventFilter) && (
                                 <div className="rounded-2xl bg-white/80 backdrop-blur-xl p-6 shadow-xl dark:bg-gray-800/80 border border-white/20 dark:border-gray-700/30">
-                                    <h2 className="mb-4 text-xl font-bold text-gray-900 dark:text-white">Recent Events</h2>
-                                    <div className="space-y-3">
-                                        {errorDetails.events.map((event, index) => (
-                                            <div
-                                                key={index}
-                                                className="rounded-lg border border-gray-200 bg-gray-50 p-4 dark:border-gray-700 dark:bg-gray-900/50"
+                                    <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+                                        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Recent Events</h2>
+                                        {errorDetails.events.length >= 2 && (
+                                            <Link
+                                                href={`/dashboard/errors/${errorDetails.id}/compare?${new URLSearchParams({ project: errorDetails.project })}`}
+                                                className="ml-auto text-sm font-medium text-purple-600 hover:text-purple-500 dark:text-purple-400"
                                             >
-                                                <div className="flex items-center justify-between">
-                                                    <div className="font-mono text-sm text-gray-900 dark:text-white">
-                                                        {event.id || `Event ${index + 1}`}
-                                                    </div>
-                                                    {event.dateCreated && (
-                                                        <div className="text-xs text-gray-500 dark:text-gray-400">
-                                                            {new Date(event.dateCreated).toLocaleString()}
-                                                        </div>
-                                                    )}
-                                                </div>
-                                            </div>
-                                        ))}
+                                                Compare events
+                                            </Link>
+                                        )}
+                                        {eventFilter && (
+                                            <button
+                                                type="button"
+                                                onClick={() => selectEventFilter(null)}
+                                                className="inline-flex items-center gap-1 rounded-full border border-purple-500/30 bg-purple-500/10 px-3 py-1 text-xs font-medium text-purple-700 hover:bg-purple-500/20 dark:text-purple-300"
+                                                title="Clear filter"
+                                            >
+                                                <span className="font-semibold">{eventFilter.key}:</span>
+                                                <span className="font-mono">{eventFilter.value}</span>
+                                                <span className="ml-1">✕</span>
+                                            </button>
+                                        )}
                                     </div>
+                                    {eventsLoading ? (
+                                        <div className="flex justify-center py-6">
+                                            <div className="h-6 w-6 animate-spin rounded-full border-2 border-purple-400 border-t-transparent"></div>
+                                        </div>
+                                    ) : eventsError ? (
+                                        <p className="text-sm text-red-500 dark:text-red-400">{eventsError}</p>
+                                    ) : (eventFilter ? filteredEvents || [] : errorDetails.events).length === 0 ? (
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">No recent events match this tag value</p>
+                                    ) : (
+                                        <div className="space-y-3">
+                                            {(eventFilter ? filteredEvents || [] : errorDetails.events).map((event, index) => (
+                                                <Link
+                                                    key={event.id || index}
+                                                    href={`/dashboard/errors/${errorDetails.id}/events/${event.eventID || event.id}?${new URLSearchParams({ project: errorDetails.project })}`}
+                                                    className="block rounded-lg border border-gray-200 bg-gray-50 p-4 transition-colors hover:border-purple-500/50 dark:border-gray-700 dark:bg-gray-900/50"
+                                                >
+                                                    <div className="flex items-center justify-between">
+                                                        <div className="font-mono text-sm text-gray-900 dark:text-white">
+                                                            {event.id || `Event ${index + 1}`}
+                                                        </div>
+                                                        {event.dateCreated && (
+                                                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                                                                {new Date(event.dateCreated).toLocaleString()}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                </Link>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             )}
                         </div>
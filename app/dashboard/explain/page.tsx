@@ -0,0 +1,219 @@
+"use client";
+
+import { useSession, signOut } from "next-auth/react";
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import {
+    countFrames,
+    detectStackTraceLanguage,
+    getRaisedException,
+    parseStackTrace,
+    stackTraceToEvent,
+    STACK_TRACE_LANGUAGES,
+    type ParsedStackTrace,
+    type StackTraceLanguage,
+} from "@/lib/stacktrace/parser";
+import StackTraceViewer from "@/components/error-details/StackTraceViewer";
+import ExplanationSections, { type AIExplanation } from "@/components/error-details/ExplanationSections";
+import PersonaSelect from "@/components/error-details/PersonaSelect";
+import type { PersonaId } from "@/lib/prompts/personas";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering since this page calls auth-protected APIs
+
+const PLACEHOLDER = `TypeError: Cannot read properties of undefined (reading 'total')
+    at buildSummary (/app/src/checkout/summary.js:3:29)
+    at useCart (/app/src/checkout/useCart.js:41:18)`;
+
+export default function ExplainStackTracePage() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+
+    const [text, setText] = useState("");
+    const [language, setLanguage] = useState<StackTraceLanguage | "">("");
+    const [aiExplanation, setAiExplanation] = useState<AIExplanation | null>(null);
+    const [aiLoading, setAiLoading] = useState(false);
+    const [aiError, setAiError] = useState<string | null>(null);
+    const [persona, setPersona] = useState<PersonaId | null>(null); // null: the user's default
+    // Frames as the server resolved them through source maps, for the text they were explained from
+    const [mapped, setMapped] = useState<{ text: string; language: StackTraceLanguage | ""; parsed: ParsedStackTrace } | null>(null);
+
+    useEffect(() => {
+        if (status === "unauthenticated") {
+            router.push("/login");
+        }
+    }, [status, router]);
+
+    // Parse as the user types so they can check the detected exception before spending an AI call
+    const parsed = useMemo(() => (text.trim() ? parseStackTrace(text, language || undefined) : null), [text, language]);
+    const mappedParsed = mapped && mapped.text === text && mapped.language === language ? mapped.parsed : null;
+    const event = useMemo(() => {
+        const trace = mappedParsed || parsed;
+        return trace ? stackTraceToEvent(trace, text) : null;
+    }, [mappedParsed, parsed, text]);
+    const raised = parsed ? getRaisedException(parsed) : undefined;
+    const detected = text.trim() ? detectStackTraceLanguage(text) : null;
+
+    const explain = async () => {
+        try {
+            setAiLoading(true);
+            setAiError(null);
+            setAiExplanation(null);
+
+            const response = await fetch("/api/ai/explain-trace", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ text, language: language || undefined, persona: persona || undefined }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || data.message || "Failed to generate AI explanation");
+            }
+
+            setAiExplanation(data.explanation || null);
+            if (data.parsed) {
+                setMapped({ text, language, parsed: data.parsed });
+            }
+        } catch (err) {
+            console.error("Error explaining stack trace:", err);
+            setAiError(err instanceof Error ? err.message : "Failed to generate explanation");
+        } finally {
+            setAiLoading(false);
+        }
+    };
+
+    if (status === "loading") {
+        return (
+            <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+                <div className="text-center">
+                    <div className="mb-4 inline-block h-12 w-12 animate-spin rounded-full border-4 border-solid border-purple-500 border-r-transparent"></div>
+                    <div className="text-lg font-medium text-purple-300">Give me a moment...</div>
+                </div>
+            </div>
+        );
+    }
+
+    if (!session) {
+        return null;
+    }
+
+    const languageLabel = (value: StackTraceLanguage | null) => STACK_TRACE_LANGUAGES.find((option) => option.value === value)?.label || "Unknown";
+    const frameCount = parsed ? countFrames(parsed) : 0;
+
+    return (
+        <div className="relative min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+            {/* Animated background orbs */}
+            <div className="fixed inset-0 pointer-events-none overflow-hidden">
+                <div className="absolute top-0 left-1/4 w-96 h-96 bg-purple-600/20 rounded-full blur-3xl animate-pulse"></div>
+                <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-pink-600/20 rounded-full blur-3xl animate-pulse delay-700"></div>
+            </div>
+
+            {/* Sticky Header */}
+            <div className="sticky top-0 z-50 mb-8 bg-slate-900/30 backdrop-blur-sm">
+                <div className="p-8 flex justify-between items-center">
+                    <div className="flex items-center gap-6">
+                        <Link
+                            href="/dashboard"
+                            className="flex items-center gap-2 px-4 py-2 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg hover:bg-slate-700 transition-all duration-200 cursor-pointer"
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                            </svg>
+                            Back to Dashboard
+                        </Link>
+                        <div className="h-8 w-px bg-slate-700/50"></div>
+                        <div>
+                            <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-cyan-400 bg-clip-text text-transparent">
+                                Explain a Stack Trace
+                            </h1>
+                            <p className="text-gray-400 mt-1 text-sm">Local errors, CI logs and customer reports that never reached Sentry</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => signOut({ callbackUrl: "/login" })}
+                        className="px-4 py-2 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg hover:bg-slate-700 transition-all duration-200 cursor-pointer"
+                    >
+                        Sign Out
+                    </button>
+                </div>
+            </div>
+
+            <div className="relative p-8">
+                <div className="max-w-5xl mx-auto space-y-6">
+                    {/* Paste box */}
+                    <div className="rounded-2xl bg-white/80 backdrop-blur-xl p-6 shadow-xl dark:bg-gray-800/80 border border-white/20 dark:border-gray-700/30">
+                        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Stack trace or log excerpt</h2>
+                            <div className="flex flex-wrap items-center gap-3">
+                                <PersonaSelect value={persona} onChange={setPersona} disabled={aiLoading} />
+                                <select
+                                    value={language}
+                                    onChange={(e) => setLanguage(e.target.value as StackTraceLanguage | "")}
+                                    className="px-3 py-2 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 cursor-pointer"
+                                >
+                                    <option value="">Auto-detect{detected ? ` (${languageLabel(detected)})` : ""}</option>
+                                    {STACK_TRACE_LANGUAGES.map((option) => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                        <textarea
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            placeholder={PLACEHOLDER}
+                            rows={14}
+                            spellCheck={false}
+                            className="w-full rounded-lg border border-gray-200 bg-gray-50 p-4 font-mono text-xs text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500 dark:border-gray-700 dark:bg-gray-900/50 dark:text-gray-100"
+                        />
+                        <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+                            <span className="text-sm text-gray-500 dark:text-gray-400">
+                                {parsed
+                                    ? raised?.type
+                                        ? `${languageLabel(parsed.language)} · ${raised.type} · ${parsed.exceptions.length} exception${parsed.exceptions.length === 1 ? "" : "s"} · ${frameCount} frame${frameCount === 1 ? "" : "s"}`
+                                        : "No exception found - it will be explained as a log excerpt"
+                                    : "Nothing pasted yet"}
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() => explain()}
+                                disabled={!parsed || aiLoading}
+                                className="flex items-center gap-2 rounded-lg bg-gradient-to-r from-purple-600 to-pink-600 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition-all hover:shadow-purple-500/50 disabled:cursor-not-allowed disabled:opacity-50"
+                            >
+                                {aiLoading && (
+                                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
+                                )}
+                                {aiLoading ? "Explaining..." : "✨ Explain"}
+                            </button>
+                        </div>
+                        {aiError && (
+                            <div className="mt-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10 px-3 py-2 text-sm text-yellow-600 dark:text-yellow-300">
+                                {aiError}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* AI Explanation */}
+                    {aiExplanation && (
+                        <div className="rounded-2xl bg-gradient-to-br from-purple-500/20 via-pink-500/20 to-cyan-500/20 backdrop-blur-xl p-8 shadow-2xl border border-purple-500/30">
+                            <h2 className="mb-6 text-2xl font-bold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">AI Explanation</h2>
+                            <ExplanationSections explanation={aiExplanation} />
+                        </div>
+                    )}
+
+                    {/* Parsed frames */}
+                    {event && frameCount > 0 && (
+                        <StackTraceViewer
+                            event={event}
+                            codeReferences={aiExplanation?.possibleCauses?.map((cause) => cause.codeReference).filter((ref): ref is string => !!ref)}
+                        />
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
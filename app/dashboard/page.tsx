@@ -4,10 +4,13 @@ import { useSession, signOut } from "next-auth/react";
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { useSentryErrors } from "@/lib/hooks/useSentryErrors";
+import { useSentryErrors, type SentryIssueFilters } from "@/lib/hooks/useSentryErrors";
 import { useLinearIssues } from "@/lib/hooks/useLinearIssues";
 import { matchLinearIssue, type SentryError, type LinearIssue } from "@/lib/utils/linear-matcher";
 import { calculateErrorStats, getLevelColor } from "@/lib/utils/error-stats";
+import { SENTRY_ISSUE_SORTS, type SentryIssueSort } from "@/lib/utils/sort-errors";
+import { formatCategory, getCategories, getProjectColor, getProjectGradient, type ProjectInfo } from "@/lib/utils/projects";
+import IssueSparkline from "@/components/dashboard/IssueSparkline";
 
 export const dynamic = 'force-dynamic'; // Force dynamic rendering since this page calls auth-protected APIs
 
@@ -15,15 +18,22 @@ export default function DashboardPage() {
     const { data: session, status } = useSession();
     const router = useRouter();
     const [currentPage, setCurrentPage] = useState(1);
-    const [projectFilter, setProjectFilter] = useState<"all" | "frontend" | "backend">("all");
+    // "all", "category:<category>" or "project:<slug>"
+    const [projectFilter, setProjectFilter] = useState<string>("all");
     const [linearFilter, setLinearFilter] = useState<"all" | "yes" | "no">("all");
+    // Sentry search filters are applied server-side; text inputs apply on Enter
+    const [sentryFilters, setSentryFilters] = useState<SentryIssueFilters>({ query: "is:unresolved", sort: "date" });
+    const [queryInput, setQueryInput] = useState("is:unresolved");
+    const [environmentInput, setEnvironmentInput] = useState("");
     const ITEMS_PER_PAGE = 10;
 
     // Fetch Sentry errors and Linear issues using custom hooks
-    const { data, error: swrError, isLoading, mutate } = useSentryErrors(status === "authenticated");
+    const { data, error: swrError, isLoading, mutate, hasMore, loadMore, isLoadingMore } = useSentryErrors(status === "authenticated", sentryFilters);
     const { data: linearData } = useLinearIssues(status === "authenticated");
 
     const linearIssues: LinearIssue[] = linearData?.issues || [];
+    const projects: ProjectInfo[] = data?.projects || [];
+    const categories = getCategories(projects);
 
     // Debug: Log Linear issues
     useEffect(() => {
@@ -44,13 +54,14 @@ export default function DashboardPage() {
 
     // Apply filters
     const filteredErrors = errorsWithLinear.filter((error) => {
-        // Project type filter
-        if (projectFilter !== "all") {
-            const errorProjectType = error.projectType?.toLowerCase() || "";
-            if (projectFilter === "frontend" && errorProjectType !== "frontend") {
+        // Project / category filter
+        if (projectFilter.startsWith("category:")) {
+            const category = projectFilter.slice("category:".length);
+            if ((error.projectType?.toLowerCase() || "") !== category) {
                 return false;
             }
-            if (projectFilter === "backend" && errorProjectType !== "backend") {
+        } else if (projectFilter.startsWith("project:")) {
+            if (error.project !== projectFilter.slice("project:".length)) {
                 return false;
             }
         }
@@ -80,7 +91,10 @@ export default function DashboardPage() {
         }
     }, [errors]);
 
-    const error = swrError?.message || data?.message || null;
+    // If a refresh fails (e.g. Sentry rate limit) keep showing the last loaded issues with a notice
+    const hasLoadedErrors = !!data?.errors?.length;
+    const error = hasLoadedErrors ? null : swrError?.message || data?.message || null;
+    const staleWarning = hasLoadedErrors && swrError ? swrError.message : null;
     const loading = isLoading;
 
     // Calculate statistics from ALL errors (not filtered)
@@ -95,7 +109,7 @@ export default function DashboardPage() {
     // Reset to page 1 when errors or filters change
     useEffect(() => {
         setCurrentPage(1);
-    }, [projectFilter, linearFilter]);
+    }, [projectFilter, linearFilter, sentryFilters]);
 
     useEffect(() => {
         if (currentPage > totalPages && totalPages > 0) {
@@ -109,6 +123,14 @@ export default function DashboardPage() {
         }
     }, [status, router]);
 
+    const applySearchInputs = () => {
+        const query = queryInput.trim();
+        const environment = environmentInput.trim() || undefined;
+        setSentryFilters((prev) =>
+            prev.query === query && prev.environment === environment ? prev : { ...prev, query, environment }
+        );
+    };
+
     const handleRefresh = () => {
         mutate(undefined, { revalidate: true });
         setCurrentPage(1);
@@ -167,6 +189,15 @@ export default function DashboardPage() {
                         </div>
                     </div>
                     <div className="flex items-center gap-3">
+                        <Link
+                            href="/dashboard/explain"
+                            className="px-4 py-2 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg hover:bg-slate-700 transition-all duration-200 flex items-center gap-2 cursor-pointer"
+                        >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                            </svg>
+                            Paste a stack trace
+                        </Link>
                         <button
                             onClick={handleRefresh}
                             className="px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg hover:from-purple-700 hover:to-pink-700 transition-all duration-200 flex items-center gap-2 shadow-lg shadow-purple-500/30 cursor-pointer"
@@ -252,35 +283,23 @@ export default function DashboardPage() {
                 </div>
 
                 {/* Project Stats */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-                    <div className="bg-gradient-to-br from-slate-800/90 to-slate-900/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6">
-                        <div className="flex items-center gap-3 mb-2">
-                            <div className="p-2 bg-gradient-to-br from-cyan-600/20 to-blue-600/20 rounded-lg">
-                                <svg className="w-5 h-5 text-cyan-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-                                </svg>
-                            </div>
-                            <h3 className="text-sm font-medium text-gray-400">Frontend Errors</h3>
-                        </div>
-                        <p className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-blue-400 bg-clip-text text-transparent">
-                            {stats.frontendErrors.toLocaleString()}
-                        </p>
-                    </div>
-
-                    <div className="bg-gradient-to-br from-slate-800/90 to-slate-900/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6">
-                        <div className="flex items-center gap-3 mb-2">
-                            <div className="p-2 bg-gradient-to-br from-orange-600/20 to-red-600/20 rounded-lg">
-                                <svg className="w-5 h-5 text-orange-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2m-2-4h.01M17 16h.01" />
-                                </svg>
+                {categories.length > 0 && (
+                    <div className={`grid grid-cols-1 md:grid-cols-2 ${categories.length > 2 ? "lg:grid-cols-4" : ""} gap-6 mb-8`}>
+                        {categories.map(({ category, color }) => (
+                            <div key={category} className="bg-gradient-to-br from-slate-800/90 to-slate-900/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6">
+                                <div className="flex items-center gap-3 mb-2">
+                                    <span className={`px-2 py-1 text-xs font-semibold rounded-lg ${getProjectColor(color)}`}>
+                                        {projects.filter((project) => project.category === category).length} project(s)
+                                    </span>
+                                    <h3 className="text-sm font-medium text-gray-400">{formatCategory(category)} Errors</h3>
+                                </div>
+                                <p className={`text-3xl font-bold bg-gradient-to-r ${getProjectGradient(color)} bg-clip-text text-transparent`}>
+                                    {(stats.errorsByCategory[category] || 0).toLocaleString()}
+                                </p>
                             </div>
-                            <h3 className="text-sm font-medium text-gray-400">Backend Errors</h3>
-                        </div>
-                        <p className="text-3xl font-bold bg-gradient-to-r from-orange-400 to-red-400 bg-clip-text text-transparent">
-                            {stats.backendErrors.toLocaleString()}
-                        </p>
+                        ))}
                     </div>
-                </div>
+                )}
 
                 {/* Errors Table */}
                 <div className="bg-gradient-to-br from-slate-800/90 to-slate-900/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 overflow-hidden">
@@ -300,12 +319,22 @@ export default function DashboardPage() {
                                     <label className="text-sm font-medium text-gray-400">Project:</label>
                                     <select
                                         value={projectFilter}
-                                        onChange={(e) => setProjectFilter(e.target.value as "all" | "frontend" | "backend")}
+                                        onChange={(e) => setProjectFilter(e.target.value)}
                                         className="px-3 py-1.5 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg hover:bg-slate-700 transition-all duration-200 cursor-pointer text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
                                     >
                                         <option value="all">All</option>
-                                        <option value="frontend">Frontend</option>
-                                        <option value="backend">Backend</option>
+                                        {categories.length > 1 && (
+                                            <optgroup label="Categories">
+                                                {categories.map(({ category }) => (
+                                                    <option key={category} value={`category:${category}`}>{formatCategory(category)}</option>
+                                                ))}
+                                            </optgroup>
+                                        )}
+                                        <optgroup label="Projects">
+                                            {projects.map((project) => (
+                                                <option key={project.slug} value={`project:${project.slug}`}>{project.name}</option>
+                                            ))}
+                                        </optgroup>
                                     </select>
                                 </div>
                                 {/* Linear Status Filter */}
@@ -323,8 +352,74 @@ export default function DashboardPage() {
                                 </div>
                             </div>
                         </div>
+                        {/* Sentry Search Filters */}
+                        <div className="flex flex-wrap items-center gap-3">
+                            <div className="flex items-center gap-2 flex-1 min-w-64">
+                                <label className="text-sm font-medium text-gray-400">Search:</label>
+                                <input
+                                    type="text"
+                                    value={queryInput}
+                                    onChange={(e) => setQueryInput(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") applySearchInputs();
+                                    }}
+                                    onBlur={applySearchInputs}
+                                    placeholder="is:unresolved level:error"
+                                    className="flex-1 px-3 py-1.5 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 placeholder-gray-500 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <label className="text-sm font-medium text-gray-400">Environment:</label>
+                                <input
+                                    type="text"
+                                    value={environmentInput}
+                                    onChange={(e) => setEnvironmentInput(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") applySearchInputs();
+                                    }}
+                                    onBlur={applySearchInputs}
+                                    placeholder="All"
+                                    className="w-36 px-3 py-1.5 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 placeholder-gray-500 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <label className="text-sm font-medium text-gray-400">Time range:</label>
+                                <select
+                                    value={sentryFilters.statsPeriod || ""}
+                                    onChange={(e) => setSentryFilters((prev) => ({ ...prev, statsPeriod: e.target.value || undefined }))}
+                                    className="px-3 py-1.5 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg hover:bg-slate-700 transition-all duration-200 cursor-pointer text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                >
+                                    <option value="">Any time</option>
+                                    <option value="24h">Last 24 hours</option>
+                                    <option value="14d">Last 14 days</option>
+                                </select>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <label className="text-sm font-medium text-gray-400">Sort:</label>
+                                <select
+                                    value={sentryFilters.sort || "date"}
+                                    onChange={(e) => setSentryFilters((prev) => ({ ...prev, sort: e.target.value as SentryIssueSort }))}
+                                    className="px-3 py-1.5 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 rounded-lg hover:bg-slate-700 transition-all duration-200 cursor-pointer text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                >
+                                    {SENTRY_ISSUE_SORTS.map((sort) => (
+                                        <option key={sort.value} value={sort.value}>{sort.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
                     </div>
 
+                    {staleWarning && (
+                        <div className="px-6 pt-4">
+                            <div className="flex items-center gap-2 px-4 py-3 rounded-xl bg-yellow-500/10 border border-yellow-500/30 text-yellow-400 text-sm">
+                                <svg className="w-5 h-5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                                Showing the last loaded errors: {staleWarning}
+                            </div>
+                        </div>
+                    )}
+
                     {loading ? (
                         <div className="flex justify-center items-center py-20">
                             <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-solid border-purple-600 border-r-transparent shadow-lg shadow-purple-500/50"></div>
@@ -347,7 +442,7 @@ export default function DashboardPage() {
                             </div>
                             <h3 className="text-lg font-semibold text-gray-300 mb-2">No errors found</h3>
                             <p className="text-gray-500">
-                                {(projectFilter !== "all" || linearFilter !== "all")
+                                {(projectFilter !== "all" || linearFilter !== "all" || !!sentryFilters.environment || !!sentryFilters.statsPeriod || sentryFilters.query !== "is:unresolved")
                                     ? "No errors match the current filters. Try adjusting your filters."
                                     : "Your application is running smoothly!"}
                             </p>
@@ -362,6 +457,7 @@ export default function DashboardPage() {
                                             <th className="px-6 py-4 text-left text-xs font-semibold text-purple-300 uppercase tracking-wider">Level</th>
                                             <th className="px-6 py-4 text-left text-xs font-semibold text-purple-300 uppercase tracking-wider">Project</th>
                                             <th className="px-6 py-4 text-left text-xs font-semibold text-purple-300 uppercase tracking-wider">Count</th>
+                                            <th className="px-6 py-4 text-left text-xs font-semibold text-purple-300 uppercase tracking-wider">Trend</th>
                                             <th className="px-6 py-4 text-left text-xs font-semibold text-purple-300 uppercase tracking-wider">Exists in Linear</th>
                                             <th className="px-6 py-4 text-left text-xs font-semibold text-purple-300 uppercase tracking-wider">Actions</th>
                                         </tr>
@@ -385,14 +481,17 @@ export default function DashboardPage() {
                                                     </span>
                                                 </td>
                                                 <td className="px-6 py-4">
-                                                    <span className={`px-3 py-1 text-xs font-semibold rounded-lg ${err.projectType?.toLowerCase() === "frontend"
-                                                        ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/30"
-                                                        : "bg-orange-500/20 text-orange-400 border border-orange-500/30"
-                                                        }`}>
-                                                        {err.projectType ? (err.projectType.charAt(0).toUpperCase() + err.projectType.slice(1).toLowerCase()) : "Unknown"}
+                                                    <span
+                                                        className={`px-3 py-1 text-xs font-semibold rounded-lg whitespace-nowrap ${getProjectColor(err.projectColor)}`}
+                                                        title={formatCategory(err.projectType)}
+                                                    >
+                                                        {err.projectName || err.project || formatCategory(err.projectType)}
                                                     </span>
                                                 </td>
                                                 <td className="px-6 py-4 text-sm text-gray-300">{Number(err.count).toLocaleString()}</td>
+                                                <td className="px-6 py-4">
+                                                    <IssueSparkline stats={err.stats} period={err.statsPeriod} firstSeen={err.firstSeen} />
+                                                </td>
                                                 <td className="px-6 py-4">
                                                     {err.linearIssue ? (
                                                         <a
@@ -485,6 +584,25 @@ export default function DashboardPage() {
                                     </div>
                                 </div>
                             )}
+
+                            {/* Load more from Sentry (server-side cursor) */}
+                            {hasMore && (
+                                <div className="px-6 py-4 border-t border-slate-700/50 bg-slate-900/50 flex items-center justify-between">
+                                    <p className="text-sm text-gray-400">
+                                        <span className="font-medium text-purple-400">{errorsWithLinear.length}</span> issues loaded from Sentry — more are available
+                                    </p>
+                                    <button
+                                        onClick={() => loadMore()}
+                                        disabled={isLoadingMore}
+                                        className="px-4 py-2 bg-slate-800/80 backdrop-blur-sm border border-slate-700 text-gray-300 text-sm font-medium rounded-lg hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center gap-2 cursor-pointer"
+                                    >
+                                        {isLoadingMore && (
+                                            <div className="h-4 w-4 animate-spin rounded-full border-2 border-purple-400 border-t-transparent"></div>
+                                        )}
+                                        {isLoadingMore ? "Loading..." : "Load more from Sentry"}
+                                    </button>
+                                </div>
+                            )}
                         </>
                     )}
                 </div>
@@ -0,0 +1,59 @@
+"use client";
+
+import type { SentryStatsPoint } from "@/lib/sentry/types";
+import { calculateErrorTrend, type ErrorTrendDirection } from "@/lib/utils/error-trend";
+
+interface IssueSparklineProps {
+    stats?: SentryStatsPoint[];
+    period?: string;
+    firstSeen?: string;
+}
+
+const WIDTH = 96;
+const HEIGHT = 24;
+
+const TREND_STYLES: Record<ErrorTrendDirection, { label: string; className: string; stroke: string }> = {
+    new: { label: "New", className: "bg-purple-500/20 text-purple-300 border-purple-500/30", stroke: "#c084fc" },
+    rising: { label: "↑ Rising", className: "bg-red-500/20 text-red-400 border-red-500/30", stroke: "#f87171" },
+    falling: { label: "↓ Falling", className: "bg-green-500/20 text-green-400 border-green-500/30", stroke: "#4ade80" },
+    steady: { label: "→ Steady", className: "bg-slate-500/20 text-gray-400 border-slate-500/30", stroke: "#94a3b8" },
+};
+
+function formatChange(change: number | null): string {
+    if (change === null) return "";
+    const percent = Math.round(change * 100);
+    return ` (${percent > 0 ? "+" : ""}${percent}%)`;
+}
+
+/**
+ * Inline SVG sparkline of an issue's Sentry stats series with a trend badge.
+ */
+export default function IssueSparkline({ stats, period, firstSeen }: IssueSparklineProps) {
+    const trend = calculateErrorTrend(stats, firstSeen);
+
+    if (!stats || !trend) {
+        return <span className="text-xs text-gray-500">—</span>;
+    }
+
+    const max = Math.max(1, ...stats.map(([, count]) => count));
+    const step = WIDTH / Math.max(1, stats.length - 1);
+    const points = stats
+        .map(([, count], index) => `${(index * step).toFixed(1)},${(HEIGHT - 1 - (count / max) * (HEIGHT - 2)).toFixed(1)}`)
+        .join(" ");
+    const style = TREND_STYLES[trend.direction];
+    const total = trend.recent + trend.previous;
+
+    return (
+        <div
+            className="flex items-center gap-2"
+            title={`${total.toLocaleString()} events${period ? ` in the last ${period}` : ""}${formatChange(trend.change)}`}
+        >
+            <svg width={WIDTH} height={HEIGHT} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="flex-shrink-0" aria-hidden="true">
+                <polyline points={points} fill="none" stroke={style.stroke} strokeWidth={1.5} strokeLinejoin="round" strokeLinecap="round" />
+            </svg>
+            <span className={`px-2 py-0.5 text-xs font-semibold rounded-lg border whitespace-nowrap ${style.className}`}>
+                {style.label}
+            </span>
+        </div>
+    );
+}
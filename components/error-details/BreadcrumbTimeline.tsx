@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import type { SentryEvent } from "@/lib/sentry/types";
+import { formatOffset, getBreadcrumbOffset, getEventBreadcrumbs } from "@/lib/sentry/event-utils";
+
+interface BreadcrumbTimelineProps {
+    event: SentryEvent;
+}
+
+const LEVEL_STYLES: Record<string, { dot: string; badge: string }> = {
+    fatal: { dot: "bg-red-600 shadow-red-600/50", badge: "bg-red-500/20 text-red-300 border-red-500/30" },
+    error: { dot: "bg-red-500 shadow-red-500/50", badge: "bg-red-500/20 text-red-300 border-red-500/30" },
+    warning: { dot: "bg-yellow-500 shadow-yellow-500/50", badge: "bg-yellow-500/20 text-yellow-300 border-yellow-500/30" },
+    info: { dot: "bg-cyan-500 shadow-cyan-500/50", badge: "bg-cyan-500/20 text-cyan-300 border-cyan-500/30" },
+    debug: { dot: "bg-gray-500 shadow-gray-500/50", badge: "bg-gray-500/20 text-gray-300 border-gray-500/30" },
+};
+
+const COLLAPSED_COUNT = 10;
+
+/**
+ * Timeline of every breadcrumb leading up to the event, newest last,
+ * with the time before the crash so triagers can check the AI's account of user actions.
+ */
+export default function BreadcrumbTimeline({ event }: BreadcrumbTimelineProps) {
+    const [showAll, setShowAll] = useState(false);
+    const breadcrumbs = getEventBreadcrumbs(event);
+
+    if (breadcrumbs.length === 0) {
+        return null;
+    }
+
+    // Keep the crumbs closest to the crash visible when collapsed
+    const hidden = showAll ? 0 : Math.max(0, breadcrumbs.length - COLLAPSED_COUNT);
+    const visible = breadcrumbs.slice(hidden);
+
+    return (
+        <div className="rounded-2xl bg-white/80 backdrop-blur-xl p-6 shadow-xl dark:bg-gray-800/80 border border-white/20 dark:border-gray-700/30">
+            <div className="mb-4 flex items-center gap-3">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Breadcrumbs</h2>
+                <span className="text-sm text-gray-500 dark:text-gray-400">{breadcrumbs.length} before the error</span>
+            </div>
+
+            {hidden > 0 && (
+                <button
+                    type="button"
+                    onClick={() => setShowAll(true)}
+                    className="mb-3 w-full rounded-lg border border-dashed border-gray-300 px-3 py-1.5 text-left text-xs text-gray-500 transition-all hover:border-purple-500/40 hover:text-purple-400 dark:border-gray-600 dark:text-gray-400"
+                >
+                    Show {hidden} earlier breadcrumb{hidden === 1 ? "" : "s"}
+                </button>
+            )}
+
+            <ol className="relative space-y-3 border-l border-purple-500/30 pl-6">
+                {visible.map((crumb, index) => {
+                    const level = crumb.level || "info";
+                    const style = LEVEL_STYLES[level] || LEVEL_STYLES.info;
+                    const offset = getBreadcrumbOffset(crumb, event);
+                    const hasData = crumb.data && Object.keys(crumb.data).length > 0;
+
+                    return (
+                        <li key={hidden + index} className="relative">
+                            <span className={`absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full shadow-lg ${style.dot}`} />
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-mono text-xs font-semibold text-gray-900 dark:text-white">
+                                    {crumb.category || crumb.type || "default"}
+                                </span>
+                                <span className={`rounded-full border px-2 py-0.5 text-[10px] font-semibold uppercase ${style.badge}`}>
+                                    {level}
+                                </span>
+                                <span className="ml-auto text-xs text-gray-500 dark:text-gray-400" title={crumb.timestamp}>
+                                    {offset !== undefined ? `${formatOffset(offset)} before` : crumb.timestamp}
+                                </span>
+                            </div>
+                            {crumb.message && (
+                                <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 break-all whitespace-pre-wrap">{crumb.message}</p>
+                            )}
+                            {hasData && (
+                                <pre className="mt-1 overflow-x-auto rounded-lg bg-gray-50 p-2 text-xs text-gray-700 dark:bg-gray-900 dark:text-gray-300">
+                                    {JSON.stringify(crumb.data, null, 2)}
+                                </pre>
+                            )}
+                        </li>
+                    );
+                })}
+                <li className="relative">
+                    <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full bg-gradient-to-br from-pink-500 to-red-500 shadow-lg shadow-pink-500/50" />
+                    <span className="text-sm font-semibold text-pink-400">💥 Error captured</span>
+                </li>
+            </ol>
+        </div>
+    );
+}
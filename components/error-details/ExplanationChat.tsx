@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { readServerSentEvents } from "@/lib/utils/sse";
+import type { AIExplanation } from "./ExplanationSections";
+
+interface ChatMessage {
+    role: "user" | "assistant";
+    content: string;
+    createdAt: string;
+}
+
+interface ExplanationChatProps {
+    errorId: string;
+    errorDetails: Record<string, unknown>;  // The same details the explanation was requested with
+    explanation: AIExplanation;
+}
+
+// Plain text with fenced code blocks set apart
+function MessageContent({ content }: { content: string }) {
+    const parts = content.split(/```[\w+-]*\n?/);
+    return (
+        <>
+            {parts.map((part, index) =>
+                index % 2 === 1 ? (
+                    <pre key={index} className="my-2 overflow-x-auto rounded-lg bg-slate-950/80 p-3 font-mono text-xs text-cyan-200 border border-slate-700">
+                        {part.replace(/\n$/, "")}
+                    </pre>
+                ) : (
+                    part && <span key={index} className="whitespace-pre-wrap break-words">{part}</span>
+                )
+            )}
+        </>
+    );
+}
+
+/**
+ * Follow-up questions about an explained error. Answers are grounded in the error data and the explanation,
+ * stream in from /api/ai/chat, and the conversation is kept per error and user.
+ */
+export default function ExplanationChat({ errorId, errorDetails, explanation }: ExplanationChatProps) {
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [question, setQuestion] = useState("");
+    const [pending, setPending] = useState<{ question: string; reply: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const endRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        fetch(`/api/ai/chat?errorId=${encodeURIComponent(errorId)}`)
+            .then((response) => (response.ok ? response.json() : null))
+            .then((data) => setMessages(data?.data?.messages || []))
+            .catch((err) => console.error("Error loading chat history:", err));
+    }, [errorId]);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }, [messages, pending]);
+
+    const ask = async () => {
+        const text = question.trim();
+        if (!text || pending) return;
+
+        try {
+            setError(null);
+            setQuestion("");
+            setPending({ question: text, reply: "" });
+
+            const response = await fetch("/api/ai/chat", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ errorId, question: text, errorDetails, explanation }),
+            });
+
+            // Errors before the stream starts (auth, configuration, validation) come back as plain JSON
+            if (!response.ok || !response.body) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || data.message || "Failed to answer the question");
+            }
+
+            for await (const { event, data } of readServerSentEvents(response.body)) {
+                const payload = JSON.parse(data);
+
+                if (event === "token") {
+                    setPending((current) => current && { ...current, reply: current.reply + payload.text });
+                } else if (event === "done") {
+                    setMessages(payload.conversation?.messages || []);
+                } else if (event === "error") {
+                    throw new Error(payload.message || payload.error || "Failed to answer the question");
+                }
+            }
+        } catch (err) {
+            console.error("Error asking follow-up question:", err);
+            setError(err instanceof Error ? err.message : "Failed to answer the question");
+            setQuestion(text); // Let them retry without retyping
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const clear = async () => {
+        try {
+            const response = await fetch(`/api/ai/chat?errorId=${encodeURIComponent(errorId)}`, { method: "DELETE" });
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || "Failed to clear the conversation");
+            }
+            setMessages([]);
+            setError(null);
+        } catch (err) {
+            console.error("Error clearing chat history:", err);
+            setError(err instanceof Error ? err.message : "Failed to clear the conversation");
+        }
+    };
+
+    const shown = pending
+        ? [...messages, { role: "user" as const, content: pending.question, createdAt: "" }]
+        : messages;
+
+    return (
+        <div className="mt-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
+            <div className="mb-4 flex items-center justify-between gap-2">
+                <h3 className="text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
+                    Ask a Follow-up Question
+                </h3>
+                {messages.length > 0 && !pending && (
+                    <button
+                        type="button"
+                        onClick={clear}
+                        className="text-xs font-medium text-purple-300 underline hover:text-purple-200 cursor-pointer"
+                    >
+                        Clear conversation
+                    </button>
+                )}
+            </div>
+
+            {shown.length > 0 && (
+                <div className="mb-4 max-h-[32rem] space-y-3 overflow-y-auto pr-1">
+                    {shown.map((message, index) => (
+                        <div key={index} className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}>
+                            <div
+                                className={`max-w-[85%] rounded-xl px-4 py-3 text-sm ${message.role === "user"
+                                    ? "bg-purple-500/30 text-purple-50 border border-purple-500/40"
+                                    : "bg-slate-900/60 text-gray-200 border border-slate-700"
+                                    }`}
+                            >
+                                <MessageContent content={message.content} />
+                            </div>
+                        </div>
+                    ))}
+                    {pending && (
+                        <div className="flex justify-start">
+                            <div className="max-w-[85%] rounded-xl bg-slate-900/60 px-4 py-3 text-sm text-gray-200 border border-slate-700">
+                                {pending.reply ? (
+                                    <MessageContent content={pending.reply} />
+                                ) : (
+                                    <div className="flex items-center gap-2 text-purple-300">
+                                        <div className="h-4 w-4 animate-spin rounded-full border-2 border-purple-400 border-t-transparent"></div>
+                                        Thinking...
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                    <div ref={endRef} />
+                </div>
+            )}
+
+            {error && (
+                <div className="mb-3 rounded-lg bg-red-500/20 border border-red-500/30 p-3 text-sm text-red-300">
+                    {error}
+                </div>
+            )}
+
+            <div className="flex items-end gap-2">
+                <textarea
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    onKeyDown={(e) => {
+                        // Enter sends, Shift+Enter adds a line
+                        if (e.key === "Enter" && !e.shiftKey) {
+                            e.preventDefault();
+                            ask();
+                        }
+                    }}
+                    rows={2}
+                    placeholder='e.g. "Could this be the queue retry?" or "Show me a safer version of that query"'
+                    className="flex-1 resize-y rounded-lg border border-purple-500/30 bg-slate-900/60 px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <button
+                    type="button"
+                    onClick={ask}
+                    disabled={!question.trim() || !!pending}
+                    className="rounded-lg bg-gradient-to-r from-purple-500 to-pink-500 px-4 py-2 text-sm font-semibold text-white shadow-lg transition-all hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 cursor-pointer"
+                >
+                    {pending ? "Answering..." : "Ask"}
+                </button>
+            </div>
+        </div>
+    );
+}
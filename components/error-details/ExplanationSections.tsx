@@ -0,0 +1,292 @@
+"use client";
+
+export interface AIExplanation {
+    overview: string;
+    aiErrorExplanation: string;
+    detailedBreakdown: {
+        whatHappened: string;
+        whereItHappened: string;
+        whyItHappened: string;
+        whenItHappened: string;
+    };
+    severity: "low" | "medium" | "high" | "critical";
+    impact: {
+        userImpact: string;
+        systemImpact: string;
+        businessImpact: string;
+    };
+    errorComponents: Array<{
+        component: string;
+        issue: string;
+        explanation: string;
+    }>;
+    possibleCauses: Array<{
+        cause: string;
+        likelihood: "low" | "medium" | "high";
+        codeReference?: string;
+        explanation: string;
+    }>;
+    suggestedFixes: Array<{
+        fix: string;
+        priority: "low" | "medium" | "high";
+        steps: string[];
+        difficulty: "easy" | "medium" | "hard";
+    }>;
+    preventionTips: string[];
+    context?: {                             // What of the error data fit in the prompt (see lib/prompts/context.ts)
+        model: string;
+        budget: number;
+        tokens: number;
+        dropped: string[];
+        truncated: string[];
+    };
+}
+
+interface ExplanationSectionsProps {
+    explanation: Partial<AIExplanation>;   // Partial while an explanation is still streaming in
+    streaming?: boolean;                    // Show that more sections are on their way
+}
+
+/**
+ * The body of an AI explanation: overview, breakdown, components, impact, causes, fixes and prevention tips.
+ * Shared by the issue page and the single event page. Sections that have not arrived yet are skipped.
+ */
+export default function ExplanationSections({ explanation, streaming = false }: ExplanationSectionsProps) {
+    return (
+        <>
+            {/* Overview */}
+            {explanation.overview && (
+                <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
+                    <h3 className="mb-3 text-lg font-semibold text-white">Overview</h3>
+                    <div className="mb-4 rounded-lg bg-slate-900/50 p-4 border border-purple-500/20">
+                        <p className="font-mono text-sm text-purple-200 break-all whitespace-pre-wrap">
+                            {explanation.overview}
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {/* AI Error Explanation */}
+            {explanation.aiErrorExplanation && (
+                <div className="mb-6 rounded-xl bg-gradient-to-br from-purple-500/20 via-pink-500/20 to-cyan-500/20 backdrop-blur-xl p-6 border border-purple-500/30 relative overflow-hidden">
+                    <div className="absolute top-0 right-0 w-48 h-48 bg-purple-500/10 rounded-full blur-3xl"></div>
+                    <div className="relative z-10">
+                        <div className="mb-3 flex items-center gap-2">
+                            <div className="rounded-lg bg-gradient-to-br from-purple-500 to-pink-500 p-2">
+                                <svg className="h-5 w-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+                                </svg>
+                            </div>
+                            <h3 className="text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">AI Error Explanation</h3>
+                        </div>
+                        <p className="text-base leading-relaxed text-purple-100 break-all whitespace-pre-wrap">
+                            {explanation.aiErrorExplanation}
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {/* Detailed Breakdown */}
+            {explanation.detailedBreakdown && (
+                <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
+                    <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Detailed Breakdown</h3>
+                    <div className="space-y-4">
+                        <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
+                            <h4 className="mb-2 font-semibold text-purple-300">What Happened?</h4>
+                            <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
+                                {explanation.detailedBreakdown.whatHappened}
+                            </p>
+                        </div>
+                        <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
+                            <h4 className="mb-2 font-semibold text-purple-300">Where Did It Happen?</h4>
+                            <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
+                                {explanation.detailedBreakdown.whereItHappened}
+                            </p>
+                        </div>
+                        <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
+                            <h4 className="mb-2 font-semibold text-purple-300">Why Did It Happen?</h4>
+                            <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
+                                {explanation.detailedBreakdown.whyItHappened}
+                            </p>
+                        </div>
+                        <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
+                            <h4 className="mb-2 font-semibold text-purple-300">When Does It Happen?</h4>
+                            <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
+                                {explanation.detailedBreakdown.whenItHappened}
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Error Components */}
+            {explanation.errorComponents && explanation.errorComponents.length > 0 && (
+                <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
+                    <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Problematic Components</h3>
+                    <div className="space-y-4">
+                        {explanation.errorComponents.map((component, index) => (
+                            <div key={index} className="rounded-lg border border-purple-500/20 bg-slate-900/50 p-4">
+                                <h4 className="mb-2 font-semibold text-white break-all">
+                                    {component.component}
+                                </h4>
+                                <p className="mb-2 text-sm font-medium text-red-400 break-all whitespace-pre-wrap">
+                                    Issue: {component.issue}
+                                </p>
+                                <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
+                                    {component.explanation}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Impact Analysis */}
+            {explanation.impact && (
+                <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
+                    <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Impact Analysis</h3>
+                    <div className="space-y-4">
+                        <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
+                            <h4 className="mb-2 font-semibold text-purple-300">👥 User Impact</h4>
+                            <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
+                                {explanation.impact.userImpact}
+                            </p>
+                        </div>
+                        <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
+                            <h4 className="mb-2 font-semibold text-purple-300">⚙️ System Impact</h4>
+                            <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
+                                {explanation.impact.systemImpact}
+                            </p>
+                        </div>
+                        <div className="rounded-lg bg-slate-900/50 p-4 border border-purple-500/10">
+                            <h4 className="mb-2 font-semibold text-purple-300">💼 Business Impact</h4>
+                            <p className="text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
+                                {explanation.impact.businessImpact}
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Possible Causes */}
+            {explanation.possibleCauses && (
+                <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
+                    <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Possible Causes</h3>
+                    <div className="space-y-4">
+                        {explanation.possibleCauses.map((cause, index) => (
+                            <div key={index} className="rounded-lg border border-purple-500/20 bg-slate-900/50 p-4 border-l-4 border-l-purple-500">
+                                <div className="mb-2 flex items-center gap-2 flex-wrap">
+                                    <span className="flex h-6 w-6 items-center justify-center rounded-full bg-gradient-to-br from-purple-500 to-pink-500 text-xs font-semibold text-white shadow-lg shadow-purple-500/30 flex-shrink-0">
+                                        {index + 1}
+                                    </span>
+                                    <h4 className="font-semibold text-white break-all flex-1 min-w-0">{cause.cause}</h4>
+                                    <span className={`ml-auto rounded-full px-2 py-1 text-xs font-semibold border flex-shrink-0 ${cause.likelihood === "high" ? "bg-red-500/20 text-red-300 border-red-500/30" :
+                                        cause.likelihood === "medium" ? "bg-yellow-500/20 text-yellow-300 border-yellow-500/30" :
+                                            "bg-gray-500/20 text-gray-300 border-gray-500/30"
+                                        }`}>
+                                        {cause.likelihood.toUpperCase()} LIKELIHOOD
+                                    </span>
+                                </div>
+                                {cause.codeReference && (
+                                    <div className="mb-2 ml-8 flex items-start gap-2 rounded bg-purple-500/10 border border-purple-500/30 px-3 py-2">
+                                        <svg className="mt-0.5 h-4 w-4 text-purple-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+                                        </svg>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-xs font-semibold text-purple-300 mb-1">📍 Code Location:</div>
+                                            <code className="text-xs font-mono text-purple-200 break-all whitespace-pre-wrap">
+                                                {cause.codeReference}
+                                            </code>
+                                        </div>
+                                    </div>
+                                )}
+                                <p className="ml-8 text-sm leading-relaxed text-gray-300 break-all whitespace-pre-wrap">
+                                    {cause.explanation}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Suggested Fixes */}
+            {explanation.suggestedFixes && (
+                <div className="mb-6 rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
+                    <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Concrete Solutions</h3>
+                    <div className="space-y-4">
+                        {explanation.suggestedFixes.map((fix, index) => (
+                            <div key={index} className="rounded-lg border border-green-500/30 bg-green-900/20 p-4">
+                                <div className="mb-3 flex items-start justify-between gap-2 flex-wrap">
+                                    <div className="flex items-center gap-2 flex-1 min-w-0">
+                                        <span className="flex h-6 w-6 items-center justify-center rounded-full bg-gradient-to-br from-green-500 to-emerald-500 text-xs font-semibold text-white shadow-lg shadow-green-500/30 flex-shrink-0">
+                                            ✓
+                                        </span>
+                                        <h4 className="font-semibold text-white break-all">{fix.fix}</h4>
+                                    </div>
+                                    <div className="flex gap-2 flex-shrink-0 flex-wrap">
+                                        <span className={`rounded-full px-2 py-1 text-xs font-semibold border ${fix.priority === "high" ? "bg-red-500/20 text-red-300 border-red-500/30" :
+                                            fix.priority === "medium" ? "bg-yellow-500/20 text-yellow-300 border-yellow-500/30" :
+                                                "bg-gray-500/20 text-gray-300 border-gray-500/30"
+                                            }`}>
+                                            {fix.priority.toUpperCase()} PRIORITY
+                                        </span>
+                                        <span className={`rounded-full px-2 py-1 text-xs font-semibold border ${fix.difficulty === "easy" ? "bg-green-500/20 text-green-300 border-green-500/30" :
+                                            fix.difficulty === "medium" ? "bg-yellow-500/20 text-yellow-300 border-yellow-500/30" :
+                                                "bg-red-500/20 text-red-300 border-red-500/30"
+                                            }`}>
+                                            {fix.difficulty.toUpperCase()}
+                                        </span>
+                                    </div>
+                                </div>
+                                <div className="ml-8">
+                                    <p className="mb-2 text-xs font-semibold text-gray-300">Step-by-step instructions:</p>
+                                    <ol className="list-decimal list-inside space-y-1 text-sm text-gray-300">
+                                        {fix.steps.map((step, stepIndex) => (
+                                            <li key={stepIndex} className="break-all whitespace-pre-wrap">{step}</li>
+                                        ))}
+                                    </ol>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Prevention Tips */}
+            {explanation.preventionTips && explanation.preventionTips.length > 0 && (
+                <div className="rounded-xl bg-slate-800/60 backdrop-blur-xl p-6 shadow-xl border border-purple-500/20">
+                    <h3 className="mb-4 text-lg font-semibold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">Prevention Tips</h3>
+                    <ul className="space-y-2">
+                        {explanation.preventionTips.map((tip, index) => (
+                            <li key={index} className="flex items-start gap-2 text-sm text-gray-300">
+                                <span className="mt-1 flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full bg-cyan-500/20 border border-cyan-500/30 text-xs font-semibold text-cyan-300">
+                                    💡
+                                </span>
+                                <span className="break-all whitespace-pre-wrap flex-1">{tip}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Error data left out of the prompt */}
+            {explanation.context && (explanation.context.dropped.length > 0 || explanation.context.truncated.length > 0) && (
+                <p
+                    className="mt-4 text-xs text-gray-400"
+                    title={`~${explanation.context.tokens} of ${explanation.context.budget} tokens for ${explanation.context.model}`}
+                >
+                    ✂️ Some error data was left out to fit the prompt budget
+                    {explanation.context.dropped.length > 0 && <> · dropped: {explanation.context.dropped.join(", ")}</>}
+                    {explanation.context.truncated.length > 0 && <> · shortened: {explanation.context.truncated.join(", ")}</>}
+                </p>
+            )}
+
+            {streaming && (
+                <div className="flex items-center gap-3 rounded-xl bg-slate-800/40 p-4 border border-purple-500/20 text-sm text-purple-300">
+                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-purple-400 border-t-transparent"></div>
+                    Writing the next section...
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import type { SentryAssignee, SentryIssueAction, SentryStatusDetails } from "@/lib/sentry/types";
+import { useRevalidateSentryErrors } from "@/lib/hooks/useSentryErrors";
+
+export interface IssueChanges {
+    status?: string;
+    statusDetails?: SentryStatusDetails;
+    assignedTo?: SentryAssignee | null;
+}
+
+interface IssueActionsProps {
+    issueId: string;
+    project?: string;
+    status: string;
+    statusDetails?: SentryStatusDetails;
+    assignedTo?: SentryAssignee | null;
+    currentUserEmail?: string | null;
+    onUpdated: (changes: IssueChanges) => void;
+}
+
+// Ignore presets: durations/windows in minutes, counts in occurrences or users
+const IGNORE_OPTIONS: Array<{ label: string; params: Record<string, number> }> = [
+    { label: "Forever", params: {} },
+    { label: "For 30 minutes", params: { ignoreDuration: 30 } },
+    { label: "For 2 hours", params: { ignoreDuration: 120 } },
+    { label: "For 24 hours", params: { ignoreDuration: 1440 } },
+    { label: "For 1 week", params: { ignoreDuration: 10080 } },
+    { label: "Until it happens 10 more times", params: { ignoreCount: 10 } },
+    { label: "Until it happens 100 more times in 1 hour", params: { ignoreCount: 100, ignoreWindow: 60 } },
+    { label: "Until it affects 10 more users", params: { ignoreUserCount: 10 } },
+];
+
+function describeIgnore(details?: SentryStatusDetails): string {
+    if (!details) return "";
+    if (details.ignoreUntil) return ` until ${new Date(String(details.ignoreUntil)).toLocaleString()}`;
+    if (details.ignoreCount) return ` until ${details.ignoreCount} more events`;
+    if (details.ignoreUserCount) return ` until ${details.ignoreUserCount} more users`;
+    return "";
+}
+
+/**
+ * Resolve / ignore / unresolve and assign controls for a Sentry issue.
+ * Calls PUT /api/sentry/errors/[id] and revalidates the dashboard list afterwards.
+ */
+export default function IssueActions({ issueId, project, status, statusDetails, assignedTo, currentUserEmail, onUpdated }: IssueActionsProps) {
+    const revalidateSentryErrors = useRevalidateSentryErrors();
+    const [pendingAction, setPendingAction] = useState<SentryIssueAction | null>(null);
+    const [showIgnoreMenu, setShowIgnoreMenu] = useState(false);
+    const [assigneeInput, setAssigneeInput] = useState("");
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const isUnresolved = status === "unresolved";
+
+    const runAction = async (action: SentryIssueAction, extra: Record<string, unknown> = {}) => {
+        try {
+            setPendingAction(action);
+            setActionError(null);
+            setShowIgnoreMenu(false);
+
+            const response = await fetch(`/api/sentry/errors/${issueId}`, {
+                method: "PUT",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ action, project, ...extra }),
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.message || data.error || "Failed to update issue");
+            }
+
+            onUpdated(data.data || {});
+            revalidateSentryErrors();
+            if (action === "assign") {
+                setAssigneeInput("");
+            }
+        } catch (err) {
+            setActionError(err instanceof Error ? err.message : "Failed to update issue");
+        } finally {
+            setPendingAction(null);
+        }
+    };
+
+    const buttonClass = "flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-semibold transition-all disabled:cursor-not-allowed disabled:opacity-50";
+
+    return (
+        <div className="mb-6 rounded-xl border border-gray-200 bg-gray-50 p-4 dark:border-gray-700 dark:bg-gray-900/50">
+            <div className="flex flex-wrap items-center gap-2">
+                {isUnresolved ? (
+                    <>
+                        <button
+                            type="button"
+                            onClick={() => runAction("resolve")}
+                            disabled={!!pendingAction}
+                            className={`${buttonClass} bg-gradient-to-r from-green-600 to-emerald-600 text-white shadow-lg shadow-green-500/20 hover:shadow-green-500/40`}
+                        >
+                            {pendingAction === "resolve" ? "Resolving..." : "✓ Resolve"}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => runAction("resolveInNextRelease")}
+                            disabled={!!pendingAction}
+                            className={`${buttonClass} border border-green-500/30 bg-green-500/10 text-green-300 hover:bg-green-500/20`}
+                        >
+                            {pendingAction === "resolveInNextRelease" ? "Resolving..." : "Resolve in next release"}
+                        </button>
+                        <div className="relative">
+                            <button
+                                type="button"
+                                onClick={() => setShowIgnoreMenu(!showIgnoreMenu)}
+                                disabled={!!pendingAction}
+                                className={`${buttonClass} border border-gray-500/30 bg-gray-500/10 text-gray-300 hover:bg-gray-500/20`}
+                            >
+                                {pendingAction === "ignore" ? "Ignoring..." : "Ignore"}
+                                <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                </svg>
+                            </button>
+                            {showIgnoreMenu && (
+                                <div className="absolute left-0 z-20 mt-2 w-72 overflow-hidden rounded-xl border border-purple-500/30 bg-slate-800/95 shadow-2xl backdrop-blur-xl">
+                                    {IGNORE_OPTIONS.map((option) => (
+                                        <button
+                                            key={option.label}
+                                            type="button"
+                                            onClick={() => runAction("ignore", option.params)}
+                                            className="block w-full px-4 py-2 text-left text-sm text-gray-300 transition-colors hover:bg-purple-500/20 hover:text-white"
+                                        >
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <span className="text-sm text-gray-400">
+                            {status === "ignored" ? `Ignored${describeIgnore(statusDetails)}` : statusDetails?.inNextRelease ? "Resolved in next release" : "Resolved"}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={() => runAction("unresolve")}
+                            disabled={!!pendingAction}
+                            className={`${buttonClass} border border-yellow-500/30 bg-yellow-500/10 text-yellow-300 hover:bg-yellow-500/20`}
+                        >
+                            {pendingAction === "unresolve" ? "Reopening..." : "↺ Unresolve"}
+                        </button>
+                    </>
+                )}
+
+                {/* Assignee */}
+                <div className="ml-auto flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-gray-400">
+                        Assignee:{" "}
+                        <span className="font-semibold text-gray-900 dark:text-white">
+                            {assignedTo ? `${assignedTo.type === "team" ? "#" : ""}${assignedTo.name || assignedTo.email || assignedTo.id}` : "Unassigned"}
+                        </span>
+                    </span>
+                    {currentUserEmail && assignedTo?.email !== currentUserEmail && (
+                        <button
+                            type="button"
+                            onClick={() => runAction("assign", { assignedTo: currentUserEmail })}
+                            disabled={!!pendingAction}
+                            className={`${buttonClass} border border-purple-500/30 bg-purple-500/10 text-purple-300 hover:bg-purple-500/20`}
+                        >
+                            Assign to me
+                        </button>
+                    )}
+                    <input
+                        type="text"
+                        value={assigneeInput}
+                        onChange={(e) => setAssigneeInput(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter" && assigneeInput.trim()) {
+                                runAction("assign", { assignedTo: assigneeInput.trim() });
+                            }
+                        }}
+                        placeholder="email, user:id or team:id"
+                        disabled={!!pendingAction}
+                        className="w-52 rounded-lg border border-purple-500/30 bg-slate-800/50 px-3 py-2 text-sm text-white placeholder-gray-500 focus:border-purple-500 focus:outline-none"
+                    />
+                    <button
+                        type="button"
+                        onClick={() => runAction("assign", { assignedTo: assigneeInput.trim() })}
+                        disabled={!!pendingAction || !assigneeInput.trim()}
+                        className={`${buttonClass} bg-gradient-to-r from-purple-600 to-pink-600 text-white shadow-lg shadow-purple-500/20 hover:shadow-purple-500/40`}
+                    >
+                        {pendingAction === "assign" ? "Assigning..." : "Assign"}
+                    </button>
+                    {assignedTo && (
+                        <button
+                            type="button"
+                            onClick={() => runAction("assign", { assignedTo: "" })}
+                            disabled={!!pendingAction}
+                            className={`${buttonClass} text-gray-400 hover:text-red-400`}
+                        >
+                            Unassign
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {actionError && (
+                <div className="mt-3 rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-400">
+                    {actionError}
+                </div>
+            )}
+        </div>
+    );
+}
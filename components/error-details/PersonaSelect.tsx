@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PersonaId } from "@/lib/prompts/personas";
+
+interface PersonaOption {
+    id: PersonaId;
+    name: string;
+    description: string;
+}
+
+interface PersonaSelectProps {
+    value: PersonaId | null;                // Persona of the explanation on screen
+    onChange: (persona: PersonaId) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Picks the voice of an AI explanation (friendly, concise engineer, support agent).
+ * Loads the personas and the user's saved default from /api/preferences, and offers to save
+ * the current pick as the new default.
+ */
+export default function PersonaSelect({ value, onChange, disabled = false }: PersonaSelectProps) {
+    const [personas, setPersonas] = useState<PersonaOption[]>([]);
+    const [defaultPersona, setDefaultPersona] = useState<PersonaId | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetch("/api/preferences")
+            .then((response) => (response.ok ? response.json() : null))
+            .then((data) => {
+                if (!data) return;
+                setPersonas(data.personas || []);
+                setDefaultPersona(data.persona || null);
+            })
+            .catch((error) => console.error("Error loading preferences:", error));
+    }, []);
+
+    const saveDefault = async () => {
+        if (!value) return;
+        try {
+            setSaving(true);
+            const response = await fetch("/api/preferences", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ persona: value }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to save preferences");
+            }
+            setDefaultPersona(data.persona);
+        } catch (error) {
+            console.error("Error saving preferences:", error);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (personas.length === 0) {
+        return null;
+    }
+
+    const selected = personas.find((persona) => persona.id === value);
+
+    return (
+        <div className="flex items-center gap-2">
+            <select
+                value={value || defaultPersona || ""}
+                onChange={(event) => onChange(event.target.value as PersonaId)}
+                disabled={disabled}
+                title={selected?.description}
+                className="rounded-lg border border-purple-500/30 bg-slate-900/60 px-3 py-2 text-xs font-semibold text-purple-200 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 cursor-pointer"
+            >
+                {personas.map((persona) => (
+                    <option key={persona.id} value={persona.id}>
+                        {persona.name}
+                    </option>
+                ))}
+            </select>
+            {value && defaultPersona && value !== defaultPersona && (
+                <button
+                    type="button"
+                    onClick={saveDefault}
+                    disabled={saving}
+                    className="text-xs font-medium text-purple-300 underline hover:text-purple-200 disabled:opacity-50 cursor-pointer"
+                >
+                    {saving ? "Saving..." : "Make default"}
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import type { SentryEvent } from "@/lib/sentry/types";
+import { getEventRequest, getQueryPairs, maskSensitivePairs } from "@/lib/sentry/event-utils";
+
+interface RequestContextCardProps {
+    event: SentryEvent;
+}
+
+function PairsTable({ title, pairs }: { title: string; pairs: Array<[string, string]> }) {
+    if (pairs.length === 0) {
+        return null;
+    }
+
+    return (
+        <div>
+            <div className="text-sm font-medium text-gray-600 dark:text-gray-400">{title}</div>
+            <div className="mt-2 overflow-x-auto rounded-lg bg-gray-50 p-3 dark:bg-gray-900">
+                <table className="w-full text-xs">
+                    <tbody>
+                        {pairs.map(([key, value], index) => (
+                            <tr key={`${key}-${index}`} className="align-top">
+                                <td className="py-0.5 pr-4 font-mono font-semibold text-gray-600 dark:text-gray-400 whitespace-nowrap">{key}</td>
+                                <td className={`py-0.5 font-mono break-all ${value === "[Filtered]" ? "italic text-yellow-600 dark:text-yellow-400" : "text-gray-900 dark:text-gray-100"}`}>
+                                    {value}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * The HTTP request captured with the event: URL, method, query string and headers.
+ * Secret-looking headers and parameters (auth, cookies, tokens, keys) are masked.
+ */
+export default function RequestContextCard({ event }: RequestContextCardProps) {
+    const request = getEventRequest(event);
+
+    if (!request?.url) {
+        return null;
+    }
+
+    const query = maskSensitivePairs(getQueryPairs(request.query));
+    const headers = maskSensitivePairs(request.headers || []);
+
+    return (
+        <div className="rounded-2xl bg-white/80 backdrop-blur-xl p-6 shadow-xl dark:bg-gray-800/80 border border-white/20 dark:border-gray-700/30">
+            <h2 className="mb-4 text-xl font-bold text-gray-900 dark:text-white">Request</h2>
+            <div className="space-y-4">
+                <div className="flex items-start gap-2">
+                    {request.method && (
+                        <span className="rounded-md border border-cyan-500/30 bg-cyan-500/20 px-2 py-0.5 font-mono text-xs font-semibold text-cyan-700 dark:text-cyan-300 flex-shrink-0">
+                            {request.method}
+                        </span>
+                    )}
+                    <code className="font-mono text-sm text-gray-900 dark:text-white break-all">{request.url}</code>
+                </div>
+                <PairsTable title="Query String" pairs={query} />
+                <PairsTable title="Headers" pairs={headers} />
+            </div>
+        </div>
+    );
+}
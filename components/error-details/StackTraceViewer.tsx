@@ -0,0 +1,262 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { SentryEvent, SentryStackFrame } from "@/lib/sentry/types";
+import {
+    frameMatchesCodeReference,
+    getFrameContext,
+    getFrameLineNo,
+    isInAppFrame,
+    parseCodeReference,
+    type CodeReference,
+} from "@/lib/sentry/event-utils";
+import { resolveEventExceptions } from "@/lib/stacktrace/parser";
+
+interface StackTraceViewerProps {
+    event: SentryEvent;
+    codeReferences?: string[]; // possibleCauses[].codeReference from the AI explanation
+    stack?: unknown; // String-only stack (e.g. the issue's metadata.stack), parsed when the event has no frames
+}
+
+interface IndexedFrame {
+    frame: SentryStackFrame;
+    key: string;
+    highlighted: boolean;
+}
+
+// In-app and highlighted frames are shown one by one; runs of library frames collapse into a group
+type FrameGroup =
+    | { type: "frame"; item: IndexedFrame }
+    | { type: "library"; key: string; items: IndexedFrame[] };
+
+function groupFrames(items: IndexedFrame[], collapseLibrary: boolean): FrameGroup[] {
+    const groups: FrameGroup[] = [];
+    items.forEach((item) => {
+        if (!collapseLibrary || item.highlighted || isInAppFrame(item.frame)) {
+            groups.push({ type: "frame", item });
+            return;
+        }
+        const last = groups[groups.length - 1];
+        if (last?.type === "library") {
+            last.items.push(item);
+        } else {
+            groups.push({ type: "library", key: `lib-${item.key}`, items: [item] });
+        }
+    });
+    return groups;
+}
+
+function FrameRow({ frame, highlighted, defaultOpen }: { frame: SentryStackFrame; highlighted: boolean; defaultOpen: boolean }) {
+    const [open, setOpen] = useState(defaultOpen);
+    const context = getFrameContext(frame);
+    const lineNo = getFrameLineNo(frame);
+    const inApp = isInAppFrame(frame);
+    const minified = frame.data?.minified;
+
+    return (
+        <div className={`rounded-lg border ${highlighted
+            ? "border-pink-500/60 bg-pink-500/10 shadow-lg shadow-pink-500/10"
+            : inApp
+                ? "border-purple-500/30 bg-gray-50 dark:bg-gray-900/50"
+                : "border-gray-200 bg-gray-50/60 dark:border-gray-700 dark:bg-gray-900/30"
+            }`}>
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                disabled={context.length === 0}
+                className="flex w-full items-center gap-2 px-3 py-2 text-left disabled:cursor-default"
+            >
+                {context.length > 0 && (
+                    <svg className={`h-3 w-3 flex-shrink-0 text-gray-400 transition-transform ${open ? "rotate-90" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                )}
+                <span className={`font-mono text-xs break-all ${inApp ? "text-gray-900 dark:text-white" : "text-gray-500 dark:text-gray-400"}`}>
+                    {frame.filename || frame.absPath || frame.module || "<unknown>"}
+                    {lineNo !== undefined && <span className="text-gray-500 dark:text-gray-400">:{lineNo}</span>}
+                    {frame.function && (
+                        <>
+                            <span className="text-gray-500 dark:text-gray-400"> in </span>
+                            <span className="text-cyan-600 dark:text-cyan-300">{frame.function}</span>
+                        </>
+                    )}
+                </span>
+                <span className="ml-auto flex flex-shrink-0 items-center gap-1">
+                    {highlighted && (
+                        <span className="rounded-full border border-pink-500/40 bg-pink-500/20 px-2 py-0.5 text-[10px] font-semibold text-pink-300">
+                            📍 AI reference
+                        </span>
+                    )}
+                    {frame.data?.sourcemap && (
+                        <span
+                            title={minified
+                                ? `Minified: ${minified.filename || "<unknown>"}:${minified.lineNo ?? "?"}:${minified.colNo ?? "?"}${minified.function ? ` in ${minified.function}` : ""} (${frame.data.sourcemap})`
+                                : frame.data.sourcemap}
+                            className="rounded-full border border-cyan-500/30 bg-cyan-500/20 px-2 py-0.5 text-[10px] font-semibold text-cyan-300"
+                        >
+                            Source mapped
+                        </span>
+                    )}
+                    {inApp && (
+                        <span className="rounded-full border border-purple-500/30 bg-purple-500/20 px-2 py-0.5 text-[10px] font-semibold text-purple-300">
+                            In App
+                        </span>
+                    )}
+                </span>
+            </button>
+            {open && context.length > 0 && (
+                <pre className="overflow-x-auto border-t border-gray-200 py-2 text-xs dark:border-gray-700">
+                    {context.map((line) => (
+                        <div
+                            key={line.lineNo}
+                            className={`flex px-3 ${line.isErrorLine ? "bg-red-500/20 text-red-700 dark:text-red-200" : "text-gray-700 dark:text-gray-300"}`}
+                        >
+                            <span className="mr-4 w-10 flex-shrink-0 select-none text-right text-gray-400 dark:text-gray-500">{line.lineNo}</span>
+                            <code className="whitespace-pre">{line.code}</code>
+                        </div>
+                    ))}
+                </pre>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Stack trace panel for a full Sentry event.
+ * Shows the exception chain (most recent first), frames with source context,
+ * collapses library frames and highlights frames the AI's code references point at.
+ * Events with only a text stack trace are parsed into frames first.
+ */
+export default function StackTraceViewer({ event, codeReferences = [], stack }: StackTraceViewerProps) {
+    const [showAllFrames, setShowAllFrames] = useState(false);
+    const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+
+    const references = useMemo(
+        () => codeReferences.map(parseCodeReference).filter((ref): ref is CodeReference => ref !== null),
+        [codeReferences]
+    );
+
+    // Sentry lists the cause first and the raised exception last; show the raised one first
+    const resolved = useMemo(() => resolveEventExceptions(event, stack), [event, stack]);
+    const exceptions = useMemo(() => [...resolved.exceptions].reverse(), [resolved]);
+
+    if (exceptions.length === 0) {
+        return null;
+    }
+
+    const toggleGroup = (key: string) => {
+        setExpandedGroups((prev) => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const highlightedCount = exceptions.reduce(
+        (count, exc) => count + (exc.stacktrace?.frames || []).filter((frame) => references.some((ref) => frameMatchesCodeReference(frame, ref))).length,
+        0
+    );
+
+    return (
+        <div className="rounded-2xl bg-white/80 backdrop-blur-xl p-6 shadow-xl dark:bg-gray-800/80 border border-white/20 dark:border-gray-700/30">
+            <div className="mb-4 flex flex-wrap items-center gap-3">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Stack Trace</h2>
+                {resolved.fromText && (
+                    <span className="rounded-full border border-cyan-500/40 bg-cyan-500/20 px-2 py-1 text-xs font-semibold text-cyan-300" title="Parsed from the text stack trace on this event">
+                        Parsed from text
+                    </span>
+                )}
+                {highlightedCount > 0 && (
+                    <span className="rounded-full border border-pink-500/40 bg-pink-500/20 px-2 py-1 text-xs font-semibold text-pink-300">
+                        {highlightedCount} frame{highlightedCount === 1 ? "" : "s"} referenced by AI
+                    </span>
+                )}
+                <button
+                    type="button"
+                    onClick={() => setShowAllFrames(!showAllFrames)}
+                    className="ml-auto rounded-lg border border-purple-500/30 bg-purple-500/10 px-3 py-1 text-xs font-semibold text-purple-300 transition-all hover:bg-purple-500/20"
+                >
+                    {showAllFrames ? "App frames only" : "Full stack trace"}
+                </button>
+            </div>
+
+            <div className="space-y-6">
+                {exceptions.map((exc, excIndex) => {
+                    // Most recent call first
+                    const frames = [...(exc.stacktrace?.frames || [])].reverse();
+                    const items: IndexedFrame[] = frames.map((frame, index) => ({
+                        frame,
+                        key: `${excIndex}-${index}`,
+                        highlighted: references.some((ref) => frameMatchesCodeReference(frame, ref)),
+                    }));
+                    // If Sentry didn't mark any frame as in-app there is nothing to collapse around
+                    const collapseLibrary = !showAllFrames && items.some((item) => isInAppFrame(item.frame));
+                    const groups = groupFrames(items, collapseLibrary);
+                    const firstOpen = items.find((item) => item.highlighted) || items.find((item) => isInAppFrame(item.frame)) || items[0];
+
+                    return (
+                        <div key={excIndex}>
+                            {excIndex > 0 && (
+                                <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Caused by</div>
+                            )}
+                            <div className="mb-3">
+                                <div className="font-mono text-sm font-semibold text-red-600 dark:text-red-400 break-all">{exc.type || "Error"}</div>
+                                {exc.value && (
+                                    <div className="mt-1 text-sm text-gray-700 dark:text-gray-300 break-all whitespace-pre-wrap">{exc.value}</div>
+                                )}
+                                {exc.mechanism && exc.mechanism.handled === false && (
+                                    <span className="mt-2 inline-block rounded-full border border-red-500/30 bg-red-500/20 px-2 py-0.5 text-[10px] font-semibold text-red-300">
+                                        Unhandled{exc.mechanism.type ? ` (${exc.mechanism.type})` : ""}
+                                    </span>
+                                )}
+                            </div>
+                            {items.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">No stack frames captured</p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {groups.map((group) =>
+                                        group.type === "frame" ? (
+                                            <FrameRow
+                                                // Remount when the AI explanation arrives so referenced frames open
+                                                key={`${group.item.key}-${group.item.highlighted}`}
+                                                frame={group.item.frame}
+                                                highlighted={group.item.highlighted}
+                                                defaultOpen={group.item.highlighted || group.item === firstOpen}
+                                            />
+                                        ) : expandedGroups.has(group.key) ? (
+                                            <div key={group.key} className="space-y-2 border-l-2 border-gray-300 pl-3 dark:border-gray-600">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => toggleGroup(group.key)}
+                                                    className="text-xs text-gray-500 hover:text-purple-400 dark:text-gray-400"
+                                                >
+                                                    Hide {group.items.length} library frame{group.items.length === 1 ? "" : "s"}
+                                                </button>
+                                                {group.items.map((item) => (
+                                                    <FrameRow key={item.key} frame={item.frame} highlighted={false} defaultOpen={false} />
+                                                ))}
+                                            </div>
+                                        ) : (
+                                            <button
+                                                key={group.key}
+                                                type="button"
+                                                onClick={() => toggleGroup(group.key)}
+                                                className="w-full rounded-lg border border-dashed border-gray-300 px-3 py-1.5 text-left text-xs text-gray-500 transition-all hover:border-purple-500/40 hover:text-purple-400 dark:border-gray-600 dark:text-gray-400"
+                                            >
+                                                Show {group.items.length} library frame{group.items.length === 1 ? "" : "s"}
+                                            </button>
+                                        )
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
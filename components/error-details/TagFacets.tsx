@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import type { SentryTag } from "@/lib/sentry/types";
+import { getTagFacets } from "@/lib/sentry/tag-utils";
+
+export interface TagFilter {
+    key: string;
+    value: string;
+}
+
+interface TagFacetsProps {
+    distributions?: SentryTag[];
+    tags?: Array<{ key: string; value?: string }>;
+    selected?: TagFilter | null;
+    onSelect: (filter: TagFilter | null) => void;
+}
+
+const COLLAPSED_FACETS = 6;
+
+/**
+ * Top values and their share of events for each tag key (browser, OS, release, ...).
+ * Clicking a value filters the event list to events with that tag value.
+ * Falls back to the issue's flat tag list when Sentry returned no distributions.
+ */
+export default function TagFacets({ distributions, tags, selected, onSelect }: TagFacetsProps) {
+    const [showAll, setShowAll] = useState(false);
+    const facets = getTagFacets(distributions);
+    const visibleFacets = showAll ? facets : facets.slice(0, COLLAPSED_FACETS);
+
+    return (
+        <div className="rounded-2xl bg-white/80 backdrop-blur-xl p-6 shadow-xl dark:bg-gray-800/80 border border-white/20 dark:border-gray-700/30">
+            <h2 className="mb-4 text-xl font-bold text-gray-900 dark:text-white">Tags</h2>
+            {facets.length > 0 ? (
+                <div className="space-y-4">
+                    {visibleFacets.map((facet) => (
+                        <div key={facet.key}>
+                            <div className="mb-1 flex items-baseline justify-between">
+                                <span className="text-sm font-semibold text-gray-600 dark:text-gray-400">{facet.label}</span>
+                                <span className="text-xs text-gray-500">{facet.total.toLocaleString()} events</span>
+                            </div>
+                            <div className="space-y-1">
+                                {facet.values.map((value) => {
+                                    const isSelected = selected?.key === facet.key && selected.value === value.value;
+                                    return (
+                                        <button
+                                            key={value.value}
+                                            type="button"
+                                            onClick={() => onSelect(isSelected ? null : { key: facet.key, value: value.value })}
+                                            title={`${value.count.toLocaleString()} events - click to ${isSelected ? "clear the filter" : "show only these events"}`}
+                                            className={`relative block w-full overflow-hidden rounded-md px-2 py-1 text-left text-xs transition-colors ${isSelected
+                                                ? "ring-2 ring-purple-500"
+                                                : "hover:bg-purple-500/10"
+                                                }`}
+                                        >
+                                            <span
+                                                className="absolute inset-y-0 left-0 bg-gradient-to-r from-indigo-500/20 to-purple-500/20"
+                                                style={{ width: `${Math.max(1, value.percent)}%` }}
+                                            />
+                                            <span className="relative flex justify-between gap-2">
+                                                <span className="truncate font-mono text-gray-900 dark:text-gray-100">{value.label}</span>
+                                                <span className="font-semibold text-purple-700 dark:text-purple-300">{value.percent < 1 ? "<1" : Math.round(value.percent)}%</span>
+                                            </span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                    {facets.length > COLLAPSED_FACETS && (
+                        <button
+                            type="button"
+                            onClick={() => setShowAll(!showAll)}
+                            className="text-sm font-medium text-purple-600 hover:text-purple-500 dark:text-purple-400"
+                        >
+                            {showAll ? "Show fewer tags" : `Show all ${facets.length} tags`}
+                        </button>
+                    )}
+                </div>
+            ) : tags && tags.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                    {tags.map((tag, index) => (
+                        <span
+                            key={index}
+                            className="inline-flex items-center rounded-full bg-gradient-to-r from-indigo-100 to-purple-100 px-3 py-1 text-xs font-medium text-indigo-800 dark:from-indigo-900/30 dark:to-purple-900/30 dark:text-indigo-300"
+                        >
+                            <span className="font-semibold">{tag.key}:</span>
+                            <span className="ml-1">{tag.value}</span>
+                        </span>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No tags available</p>
+            )}
+        </div>
+    );
+}
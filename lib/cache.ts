@@ -35,33 +35,49 @@ function writeCache(cache: Record<string, any>) {
     }
 }
 
-// Generate cache key from error details
-export function generateCacheKey(errorDetails: {
+// What an explanation is cached under
+export interface CacheKeyInput {
     title: string;
     culprit: string;
-    metadata: any;
-}): string {
+    metadata: Record<string, unknown>;
+    eventId?: string;   // A single event, cached apart from its issue
+    traceHash?: string; // Pasted traces: hash of the normalized text, cached apart from tracker issues
+    persona?: string;   // Persona and prompt version, e.g. "concise-engineer@v1"; each gets its own entry
+    model?: string;     // Provider and model, e.g. "openai:gpt-4o-mini"; switching either regenerates explanations
+}
+
+// Generate cache key from error details
+export function generateCacheKey(errorDetails: CacheKeyInput): string {
+    // Kept in front of the (truncated) base64 key so they are never cut off
+    const prefix = [errorDetails.model, errorDetails.persona].filter(Boolean).map((part) => `${part}:`).join('');
+
+    // Explanations of a single event are cached per event, not shared with the issue
+    if (errorDetails.eventId) {
+        return `${prefix}event:${errorDetails.eventId}`;
+    }
+
+    // Pasted traces share nothing with issues or with other traces that happen to have the same message
+    if (errorDetails.traceHash) {
+        return `${prefix}trace:${errorDetails.traceHash}`;
+    }
+
     // Create a unique key based on error characteristics
     // Use more specific data to ensure cache hits for same errors
     const keyData = {
         title: errorDetails.title?.trim() || '',
         culprit: errorDetails.culprit?.trim() || '',
         // Include metadata to ensure uniqueness
-        type: errorDetails.metadata?.type || '',
+        type: String(errorDetails.metadata?.type || ''),
         value: String(errorDetails.metadata?.value || '').substring(0, 100), // Limit length
     };
 
     // Create a more stable hash-like key
     const keyString = JSON.stringify(keyData);
-    return Buffer.from(keyString).toString('base64').substring(0, 64);
+    return prefix + Buffer.from(keyString).toString('base64').substring(0, 64);
 }
 
 // Get cached AI explanation
-export function getCachedExplanation(errorDetails: {
-    title: string;
-    culprit: string;
-    metadata: any;
-}): any | null {
+export function getCachedExplanation(errorDetails: CacheKeyInput): any | null {
     try {
         const cache = readCache();
         const key = generateCacheKey(errorDetails);
@@ -94,14 +110,7 @@ export function getCachedExplanation(errorDetails: {
 }
 
 // Save AI explanation to cache
-export function saveCachedExplanation(
-    errorDetails: {
-        title: string;
-        culprit: string;
-        metadata: any;
-    },
-    explanation: any
-): void {
+export function saveCachedExplanation(errorDetails: CacheKeyInput, explanation: any): void {
     try {
         const cache = readCache();
         const key = generateCacheKey(errorDetails);
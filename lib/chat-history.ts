@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+
+const CACHE_DIR = path.join(process.cwd(), '.cache');
+const CHAT_HISTORY_FILE = path.join(CACHE_DIR, 'chat-history.json');
+const MAX_MESSAGES = 100;           // Per conversation; the oldest are forgotten first
+
+/**
+ * One turn of a follow-up conversation about an error
+ */
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+    createdAt: string;
+}
+
+/**
+ * Follow-up questions of one user about one error
+ */
+export interface ChatConversation {
+    errorId: string;
+    messages: ChatMessage[];
+    updatedAt: string;
+}
+
+// Conversations keyed by "<user ID>:<error ID>"
+type ChatHistoryStore = Record<string, ChatConversation>;
+
+const conversationKey = (userId: string, errorId: string) => `${userId}:${errorId}`;
+
+// Read chat history file
+function readChatHistory(): ChatHistoryStore {
+    try {
+        if (fs.existsSync(CHAT_HISTORY_FILE)) {
+            return JSON.parse(fs.readFileSync(CHAT_HISTORY_FILE, 'utf-8'));
+        }
+    } catch (error) {
+        console.error('Error reading chat history:', error);
+    }
+    return {};
+}
+
+// Write chat history file
+function writeChatHistory(store: ChatHistoryStore) {
+    try {
+        if (!fs.existsSync(CACHE_DIR)) {
+            fs.mkdirSync(CACHE_DIR, { recursive: true });
+        }
+        fs.writeFileSync(CHAT_HISTORY_FILE, JSON.stringify(store, null, 2));
+    } catch (error) {
+        console.error('Error writing chat history:', error);
+    }
+}
+
+/**
+ * A user's conversation about an error, oldest message first (empty when they have not asked anything)
+ */
+export function getChatConversation(userId: string, errorId: string): ChatConversation {
+    return readChatHistory()[conversationKey(userId, errorId)] || { errorId, messages: [], updatedAt: '' };
+}
+
+/**
+ * Add messages to a user's conversation about an error
+ * @returns The stored conversation
+ */
+export function appendChatMessages(userId: string, errorId: string, messages: Array<Omit<ChatMessage, 'createdAt'>>): ChatConversation {
+    const store = readChatHistory();
+    const key = conversationKey(userId, errorId);
+    const now = new Date().toISOString();
+    const conversation: ChatConversation = {
+        errorId,
+        messages: [
+            ...(store[key]?.messages || []),
+            ...messages.map((message) => ({ ...message, createdAt: now })),
+        ].slice(-MAX_MESSAGES),
+        updatedAt: now,
+    };
+    store[key] = conversation;
+    writeChatHistory(store);
+    return conversation;
+}
+
+/**
+ * Forget a user's conversation about an error
+ */
+export function clearChatConversation(userId: string, errorId: string): void {
+    const store = readChatHistory();
+    const key = conversationKey(userId, errorId);
+    if (store[key]) {
+        delete store[key];
+        writeChatHistory(store);
+    }
+}
@@ -0,0 +1,90 @@
+import { buildErrorContext, type ErrorExplanation, type ExplainErrorDetails } from "./openai";
+import { estimateTokens, getLLMConfig, getLLMProvider, type LLMMessage } from "./llm";
+import { renderChatPrompt } from "./prompts";
+import type { ChatMessage } from "./chat-history";
+
+const MAX_HISTORY_TOKENS = 4000;  // Earlier turns sent with each question; the oldest go first
+const CHAT_TEMPERATURE = 0.4;     // Answers should stick to the data rather than be creative
+
+// The explanation the user has read, as compact text for the system prompt
+function formatExplanation(explanation: ErrorExplanation | null): string {
+  if (!explanation) {
+    return "(No explanation has been generated yet.)";
+  }
+
+  const { detailedBreakdown: breakdown, impact } = explanation;
+  return [
+    `Overview: ${explanation.overview}`,
+    `Explanation: ${explanation.aiErrorExplanation}`,
+    `What happened: ${breakdown.whatHappened}`,
+    `Where: ${breakdown.whereItHappened}`,
+    `Why: ${breakdown.whyItHappened}`,
+    `When: ${breakdown.whenItHappened}`,
+    `Severity: ${explanation.severity}`,
+    `Impact: users - ${impact.userImpact}; system - ${impact.systemImpact}; business - ${impact.businessImpact}`,
+    "Components:",
+    ...explanation.errorComponents.map((item) => `- ${item.component}: ${item.issue}. ${item.explanation}`),
+    "Possible causes:",
+    ...explanation.possibleCauses.map((cause) => `- [${cause.likelihood}] ${cause.cause}${cause.codeReference ? ` (${cause.codeReference})` : ""}: ${cause.explanation}`),
+    "Suggested fixes:",
+    ...explanation.suggestedFixes.flatMap((fix) => [
+      `- [${fix.priority} priority, ${fix.difficulty}] ${fix.fix}`,
+      ...fix.steps.map((step, index) => `    ${index + 1}. ${step}`),
+    ]),
+    "Prevention tips:",
+    ...explanation.preventionTips.map((tip) => `- ${tip}`),
+  ].join("\n");
+}
+
+// The most recent turns that fit the history budget, starting with a question
+function recentHistory(history: ChatMessage[], model: string): LLMMessage[] {
+  const kept: LLMMessage[] = [];
+  let tokens = 0;
+  for (let index = history.length - 1; index >= 0; index--) {
+    const { role, content } = history[index];
+    tokens += estimateTokens(content, model);
+    if (tokens > MAX_HISTORY_TOKENS) break;
+    kept.unshift({ role, content });
+  }
+  // Anthropic requires the conversation to open with a user turn
+  while (kept.length > 0 && kept[0].role !== "user") {
+    kept.shift();
+  }
+  return kept;
+}
+
+/**
+ * Answer a follow-up question about an explained error, grounded in the error data and the explanation
+ * @param errorDetails The same details the explanation was generated from
+ * @param explanation The explanation the user has read, if any
+ * @param history Earlier turns of the user's conversation about this error
+ * @param question The new question
+ * @returns The reply text in chunks as the model writes it
+ */
+export async function* streamChatReply(
+  errorDetails: ExplainErrorDetails,
+  explanation: ErrorExplanation | null,
+  history: ChatMessage[],
+  question: string
+): AsyncGenerator<string> {
+  const llmConfig = getLLMConfig();
+  const llm = getLLMProvider(llmConfig);
+  const turns = recentHistory(history, llmConfig.model);
+
+  // The error data gets whatever the rest of the prompt leaves of the budget
+  const template = renderChatPrompt("", formatExplanation(explanation), question);
+  const reserved = estimateTokens(template.system + template.user, llmConfig.model)
+    + turns.reduce((sum, turn) => sum + estimateTokens(turn.content, llmConfig.model), 0);
+  const context = buildErrorContext(errorDetails, llmConfig, reserved);
+  const prompt = renderChatPrompt(context.text, formatExplanation(explanation), question);
+
+  console.log(`💬 Follow-up question with ${turns.length} earlier turn(s) to ${llm.name} (${llm.model})`);
+  yield* llm.stream({
+    messages: [
+      { role: "system", content: prompt.system },
+      ...turns,
+      { role: "user", content: prompt.user },
+    ],
+    temperature: CHAT_TEMPERATURE,
+  });
+}
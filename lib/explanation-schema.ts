@@ -0,0 +1,247 @@
+import type { ErrorExplanation } from "./openai";
+
+/**
+ * Runtime schema for ErrorExplanation.
+ * Models drift from the requested JSON (a missing section, "severe" instead of "high", a string where
+ * a list was asked for). Recoverable deviations are coerced and listed in `repairs`; anything the
+ * pages cannot render is listed in `errors` so the model can be asked again.
+ */
+
+export interface ExplanationValidation {
+  explanation: ErrorExplanation | null; // Coerced explanation, or null when `errors` is not empty
+  errors: string[];                     // Problems that need a new answer, as "path: problem"
+  repairs: string[];                    // Deviations that were fixed in place
+}
+
+type JsonObject = Record<string, unknown>;
+
+const SEVERITIES = ["low", "medium", "high", "critical"] as const;
+const LEVELS = ["low", "medium", "high"] as const;
+const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+// Words models use instead of the allowed values
+const SYNONYMS: Record<string, string> = {
+  minor: "low",
+  trivial: "low",
+  moderate: "medium",
+  normal: "medium",
+  med: "medium",
+  major: "high",
+  severe: "high",
+  serious: "high",
+  urgent: "high",
+  blocker: "critical",
+  fatal: "critical",
+  simple: "easy",
+  straightforward: "easy",
+  complex: "hard",
+  difficult: "hard",
+  unlikely: "low",
+  possible: "medium",
+  likely: "high",
+  "very likely": "high",
+};
+
+const isObject = (value: unknown): value is JsonObject => typeof value === "object" && value !== null && !Array.isArray(value);
+
+class Validator {
+  errors: string[] = [];
+  repairs: string[] = [];
+  private missingObjects: string[] = []; // Their fields are not reported one by one
+
+  // A string field; numbers and booleans are converted, anything else is an error when required
+  string(source: JsonObject, key: string, path: string, required = true): string {
+    const value = source[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+    if (typeof value === "number" || typeof value === "boolean") {
+      this.repairs.push(`${path}: converted ${typeof value} to string`);
+      return String(value);
+    }
+    if (Array.isArray(value) && value.every((item) => typeof item === "string") && value.length > 0) {
+      this.repairs.push(`${path}: joined list into one string`);
+      return value.join(" ");
+    }
+    if (required && !this.missingObjects.some((parent) => path.startsWith(`${parent}.`))) {
+      this.errors.push(`${path}: ${value === undefined ? "missing" : "must be a non-empty string"}`);
+    } else if (value !== undefined && value !== "") {
+      this.repairs.push(`${path}: dropped non-string value`);
+    }
+    return "";
+  }
+
+  // One of a fixed set of values, case-insensitive and with common synonyms mapped
+  choice<T extends string>(source: JsonObject, key: string, path: string, allowed: readonly T[], fallback?: T): T {
+    const raw = typeof source[key] === "string" ? (source[key] as string).trim().toLowerCase() : "";
+    const value = (allowed as readonly string[]).includes(raw) ? raw : SYNONYMS[raw];
+    if (value && (allowed as readonly string[]).includes(value)) {
+      if (value !== source[key]) this.repairs.push(`${path}: "${source[key]}" → "${value}"`);
+      return value as T;
+    }
+    if (fallback) {
+      this.repairs.push(`${path}: ${source[key] === undefined ? "missing" : `"${String(source[key])}"`} → "${fallback}"`);
+      return fallback;
+    }
+    this.errors.push(`${path}: must be one of ${allowed.join(", ")}${source[key] === undefined ? " (missing)" : ` (got "${String(source[key])}")`}`);
+    return allowed[0];
+  }
+
+  // A list; a single item is wrapped and a missing optional list becomes empty
+  list(source: JsonObject, key: string, path: string, required: boolean): unknown[] {
+    const value = source[key];
+    if (Array.isArray(value)) return value;
+    if (value === undefined || value === null) {
+      if (required) {
+        this.errors.push(`${path}: missing`);
+      } else {
+        this.repairs.push(`${path}: missing, using []`);
+      }
+      return [];
+    }
+    this.repairs.push(`${path}: wrapped single value in a list`);
+    return [value];
+  }
+
+  object(source: JsonObject, key: string, path: string): JsonObject {
+    const value = source[key];
+    if (isObject(value)) return value;
+    this.missingObjects.push(path);
+    this.errors.push(`${path}: ${value === undefined ? "missing" : "must be an object"}`);
+    return {};
+  }
+
+  // Items of a list of objects; items without their main field are dropped
+  items<T>(list: unknown[], path: string, mainKey: string, read: (item: JsonObject, itemPath: string) => T): T[] {
+    const result: T[] = [];
+    list.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`;
+      const source = isObject(item) ? item : typeof item === "string" ? { [mainKey]: item } : null;
+      if (!source || typeof source[mainKey] !== "string" || !(source[mainKey] as string).trim()) {
+        this.repairs.push(`${itemPath}: dropped, no "${mainKey}"`);
+        return;
+      }
+      if (!isObject(item)) this.repairs.push(`${itemPath}: expanded string into an object`);
+      result.push(read(source, itemPath));
+    });
+    return result;
+  }
+
+  strings(list: unknown[], path: string): string[] {
+    const result = list
+      .map((item) => (typeof item === "string" ? item.trim() : typeof item === "number" ? String(item) : ""))
+      .filter(Boolean);
+    if (result.length !== list.length) this.repairs.push(`${path}: dropped ${list.length - result.length} non-string item(s)`);
+    return result;
+  }
+}
+
+// Properties the model writes; `context` is added by explainError
+type SectionKey = Exclude<keyof ErrorExplanation, "context">;
+
+type SectionReader<K extends SectionKey> = (v: Validator, root: JsonObject) => ErrorExplanation[K];
+
+// One reader per top-level property, in the order the prompt asks for them
+const SECTIONS: { [K in SectionKey]: SectionReader<K> } = {
+  overview: (v, root) => v.string(root, "overview", "overview"),
+  aiErrorExplanation: (v, root) => v.string(root, "aiErrorExplanation", "aiErrorExplanation"),
+  detailedBreakdown: (v, root) => {
+    const breakdown = v.object(root, "detailedBreakdown", "detailedBreakdown");
+    return {
+      whatHappened: v.string(breakdown, "whatHappened", "detailedBreakdown.whatHappened"),
+      whereItHappened: v.string(breakdown, "whereItHappened", "detailedBreakdown.whereItHappened"),
+      whyItHappened: v.string(breakdown, "whyItHappened", "detailedBreakdown.whyItHappened"),
+      whenItHappened: v.string(breakdown, "whenItHappened", "detailedBreakdown.whenItHappened", false),
+    };
+  },
+  severity: (v, root) => v.choice(root, "severity", "severity", SEVERITIES),
+  impact: (v, root) => {
+    const impact = v.object(root, "impact", "impact");
+    return {
+      userImpact: v.string(impact, "userImpact", "impact.userImpact"),
+      systemImpact: v.string(impact, "systemImpact", "impact.systemImpact"),
+      businessImpact: v.string(impact, "businessImpact", "impact.businessImpact", false),
+    };
+  },
+  errorComponents: (v, root) => v.items(v.list(root, "errorComponents", "errorComponents", false), "errorComponents", "component", (item, path) => ({
+    component: v.string(item, "component", `${path}.component`),
+    issue: v.string(item, "issue", `${path}.issue`, false),
+    explanation: v.string(item, "explanation", `${path}.explanation`, false),
+  })),
+  possibleCauses: (v, root) => v.items(v.list(root, "possibleCauses", "possibleCauses", true), "possibleCauses", "cause", (item, path) => ({
+    cause: v.string(item, "cause", `${path}.cause`),
+    likelihood: v.choice(item, "likelihood", `${path}.likelihood`, LEVELS, "medium"),
+    codeReference: v.string(item, "codeReference", `${path}.codeReference`, false),
+    explanation: v.string(item, "explanation", `${path}.explanation`, false),
+  })),
+  suggestedFixes: (v, root) => v.items(v.list(root, "suggestedFixes", "suggestedFixes", true), "suggestedFixes", "fix", (item, path) => ({
+    fix: v.string(item, "fix", `${path}.fix`),
+    priority: v.choice(item, "priority", `${path}.priority`, LEVELS, "medium"),
+    steps: v.strings(v.list(item, "steps", `${path}.steps`, false), `${path}.steps`),
+    difficulty: v.choice(item, "difficulty", `${path}.difficulty`, DIFFICULTIES, "medium"),
+  })),
+  preventionTips: (v, root) => v.strings(v.list(root, "preventionTips", "preventionTips", false), "preventionTips"),
+};
+
+function isSection(key: string): key is SectionKey {
+  return key in SECTIONS;
+}
+
+/**
+ * Validate a parsed model reply against the ErrorExplanation schema
+ * @param value Parsed JSON from the model (or a cache entry)
+ * @returns The coerced explanation when usable, plus the errors and repairs found
+ */
+export function validateExplanation(value: unknown): ExplanationValidation {
+  const v = new Validator();
+
+  if (!isObject(value)) {
+    return { explanation: null, errors: ["(root): must be a JSON object"], repairs: [] };
+  }
+
+  // Some models wrap the answer, e.g. { "explanation": { ... } }
+  let root = value;
+  const keys = Object.keys(value);
+  if (keys.length === 1 && isObject(value[keys[0]]) && "overview" in (value[keys[0]] as JsonObject)) {
+    root = value[keys[0]] as JsonObject;
+    v.repairs.push(`(root): unwrapped "${keys[0]}"`);
+  }
+
+  const explanation = Object.fromEntries(
+    (Object.keys(SECTIONS) as SectionKey[]).map((key) => [key, SECTIONS[key](v, root)])
+  ) as unknown as ErrorExplanation;
+
+  if (explanation.possibleCauses.length === 0 && !v.errors.some((error) => error.startsWith("possibleCauses:"))) {
+    v.errors.push("possibleCauses: needs at least one cause");
+  }
+  if (explanation.suggestedFixes.length === 0 && !v.errors.some((error) => error.startsWith("suggestedFixes:"))) {
+    v.errors.push("suggestedFixes: needs at least one fix");
+  }
+
+  return { explanation: v.errors.length === 0 ? explanation : null, errors: v.errors, repairs: v.repairs };
+}
+
+/**
+ * Coerce one top-level property of a reply that is still streaming
+ * @param key Property name, e.g. "overview" or "possibleCauses"
+ * @param value Its parsed value
+ * @returns The coerced value, or undefined for unknown keys and values that cannot be shown yet
+ */
+export function validateExplanationSection(key: string, value: unknown): ErrorExplanation[SectionKey] | undefined {
+  if (!isSection(key)) return undefined;
+  const v = new Validator();
+  const result = SECTIONS[key](v, { [key]: value });
+  return v.errors.length === 0 ? result : undefined;
+}
+
+/**
+ * Parse and validate a raw model reply
+ * @param content Reply text, expected to be one JSON object (surrounding code fences are ignored)
+ */
+export function parseExplanation(content: string): ExplanationValidation {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  try {
+    return validateExplanation(JSON.parse(start >= 0 && end > start ? content.slice(start, end + 1) : content));
+  } catch (error) {
+    return { explanation: null, errors: [`(root): not valid JSON (${error instanceof Error ? error.message : String(error)})`], repairs: [] };
+  }
+}
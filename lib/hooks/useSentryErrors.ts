@@ -1,4 +1,28 @@
-import useSWR from "swr";
+import { useCallback, useEffect } from "react";
+import { useSWRConfig } from "swr";
+import useSWRInfinite from "swr/infinite";
+import type { SentryError } from "@/lib/utils/linear-matcher";
+import type { ProjectInfo } from "@/lib/utils/projects";
+import { sortErrors, type SentryIssueSort } from "@/lib/utils/sort-errors";
+
+/**
+ * Sentry search filters forwarded by /api/sentry/errors
+ */
+export interface SentryIssueFilters {
+  query?: string;        // Sentry search syntax, e.g. "is:unresolved level:error"
+  environment?: string;  // Comma-separated environments, e.g. "production"
+  statsPeriod?: string;  // e.g. "24h" or "14d"
+  sort?: SentryIssueSort;
+}
+
+export interface SentryErrorsPage {
+  errors: SentryError[];
+  projects?: ProjectInfo[];
+  nextCursor?: string | null;
+  hasMore?: boolean;
+  warnings?: string[];
+  message?: string;
+}
 
 const fetcher = async (url: string) => {
   const response = await fetch(url);
@@ -10,16 +34,34 @@ const fetcher = async (url: string) => {
 };
 
 /**
- * Custom hook to fetch Sentry errors with automatic caching and revalidation
+ * Custom hook to fetch Sentry errors with automatic caching and revalidation.
+ * Pages are fetched with the server-side cursor; call `loadMore()` to fetch the next page.
+ * Filters are part of the SWR key, so each combination is cached separately.
  * @param isAuthenticated Whether the user is authenticated
- * @returns SWR response with errors data
+ * @param filters Sentry search filters (query, environment, statsPeriod, sort)
+ * @param limit Issues per project per page
+ * @returns SWR response with errors from all loaded pages merged into `data`
  */
-export function useSentryErrors(isAuthenticated: boolean) {
+export function useSentryErrors(isAuthenticated: boolean, filters: SentryIssueFilters = {}, limit = 100) {
   // Only fetch on client-side to prevent SSR/build-time API calls
   const shouldFetch = typeof window !== 'undefined' && isAuthenticated;
-  
-  return useSWR(
-    shouldFetch ? "/api/sentry/errors" : null,
+
+  const getKey = (pageIndex: number, previousPage: SentryErrorsPage | null) => {
+    if (!shouldFetch) return null;
+    if (previousPage && !previousPage.nextCursor) return null; // Reached the end
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (filters.query !== undefined) params.set("query", filters.query);
+    if (filters.environment) params.set("environment", filters.environment);
+    if (filters.statsPeriod) params.set("statsPeriod", filters.statsPeriod);
+    if (filters.sort) params.set("sort", filters.sort);
+    if (pageIndex > 0 && previousPage?.nextCursor) {
+      params.set("cursor", previousPage.nextCursor);
+    }
+    return `/api/sentry/errors?${params}`;
+  };
+
+  const { data: pages, error, isLoading, isValidating, mutate, size, setSize } = useSWRInfinite<SentryErrorsPage>(
+    getKey,
     fetcher,
     {
       refreshInterval: 60000, // Refresh every 60 seconds
@@ -28,4 +70,76 @@ export function useSentryErrors(isAuthenticated: boolean) {
       dedupingInterval: 60000,
     }
   );
+
+  // Refetch as soon as a Sentry webhook arrives instead of waiting for the next poll
+  useEffect(() => {
+    if (!shouldFetch || typeof EventSource === "undefined") return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const source = new EventSource("/api/webhooks/sentry/stream");
+    source.addEventListener("sentry", () => {
+      // Debounce bursts (e.g. an alert rule firing for many events)
+      clearTimeout(timer);
+      timer = setTimeout(() => mutate(), 1000);
+    });
+
+    return () => {
+      clearTimeout(timer);
+      source.close();
+    };
+  }, [shouldFetch, mutate]);
+
+  // Merge loaded pages, de-duplicating issues that moved between pages
+  let data: SentryErrorsPage | undefined;
+  if (pages && pages.length > 0) {
+    const seen = new Set<string>();
+    const errors: SentryError[] = [];
+    pages.forEach((page) => {
+      (page?.errors || []).forEach((err) => {
+        if (!seen.has(err.id)) {
+          seen.add(err.id);
+          errors.push(err);
+        }
+      });
+    });
+    sortErrors(errors, filters.sort);
+
+    const lastPage = pages[pages.length - 1];
+    const warnings = pages.flatMap((page) => page?.warnings || []);
+    data = {
+      errors,
+      projects: pages[0]?.projects,
+      nextCursor: lastPage?.nextCursor ?? null,
+      hasMore: !!lastPage?.nextCursor,
+      warnings: warnings.length > 0 ? Array.from(new Set(warnings)) : undefined,
+      message: pages[0]?.message,
+    };
+  }
+
+  const isLoadingMore = isValidating && !!pages && size > pages.length;
+
+  return {
+    data,
+    error,
+    isLoading,
+    isLoadingMore,
+    hasMore: !!data?.hasMore,
+    loadMore: () => setSize(size + 1),
+    mutate,
+  };
+}
+
+/**
+ * Returns a callback that revalidates every cached /api/sentry/errors list,
+ * e.g. after resolving or assigning an issue on the detail page.
+ * Matches both the useSWRInfinite key and its page keys, so lists that aren't
+ * mounted are refetched (not deduped) the next time the dashboard opens.
+ */
+export function useRevalidateSentryErrors() {
+  const { cache, mutate } = useSWRConfig();
+
+  return useCallback(() => {
+    const keys = Array.from(cache.keys()).filter((key) => key.includes("/api/sentry/errors?"));
+    return Promise.all(keys.map((key) => mutate(key)));
+  }, [cache, mutate]);
 }
@@ -0,0 +1,117 @@
+import { readServerSentEvents } from '@/lib/utils/sse';
+import { getLLMProviderName } from './config';
+import type { LLMCompletionRequest, LLMConfig, LLMProvider } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Failed Anthropic Messages API call.
+ * `status` is 0 when the request never got a response (network error, DNS, timeout).
+ */
+export class AnthropicApiError extends Error {
+    status: number;
+    details: string;
+
+    constructor(status: number, details: string) {
+        super(`Anthropic API error: ${status || 'network error'}`);
+        this.name = 'AnthropicApiError';
+        this.status = status;
+        this.details = details;
+    }
+}
+
+interface AnthropicResponse {
+    model?: string;
+    content?: Array<{ type: string; text?: string }>;
+}
+
+// Claude has no JSON response mode; drop code fences or chatter around the object
+function extractJsonObject(content: string): string {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    return start >= 0 && end > start ? content.slice(start, end + 1) : content;
+}
+
+interface AnthropicStreamEvent {
+    type: string;
+    delta?: { type?: string; text?: string };
+    error?: { type?: string; message?: string };
+}
+
+// POST /v1/messages; system prompts go in a separate field
+async function send(config: LLMConfig, request: LLMCompletionRequest, stream: boolean): Promise<Response> {
+    const system = request.messages.filter((message) => message.role === 'system').map((message) => message.content).join('\n\n');
+    const messages = request.messages
+        .filter((message) => message.role !== 'system')
+        .map(({ role, content }) => ({ role, content }));
+
+    let response: Response;
+    try {
+        response = await fetch(`${config.baseUrl}/v1/messages`, {
+            method: 'POST',
+            headers: {
+                'x-api-key': config.apiKey || '',
+                'anthropic-version': ANTHROPIC_VERSION,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                model: config.model,
+                system: system || undefined,
+                messages,
+                temperature: Math.min(1, request.temperature ?? config.temperature), // Anthropic accepts 0-1
+                max_tokens: request.maxTokens ?? config.maxTokens,
+                stream: stream || undefined,
+            }),
+            cache: 'no-store',
+        });
+    } catch (error) {
+        throw new AnthropicApiError(0, error instanceof Error ? error.message : String(error));
+    }
+
+    if (!response.ok) {
+        throw new AnthropicApiError(response.status, await response.text().catch(() => ''));
+    }
+    return response;
+}
+
+/**
+ * Anthropic's Messages API, called with fetch
+ * @param config Resolved settings with provider `anthropic`
+ */
+export function createAnthropicProvider(config: LLMConfig): LLMProvider {
+    return {
+        id: 'anthropic',
+        name: getLLMProviderName('anthropic'),
+        model: config.model,
+
+        async complete(request) {
+            const response = await send(config, request, false);
+            const body = (await response.json()) as AnthropicResponse;
+            const content = (body.content || [])
+                .filter((block) => block.type === 'text')
+                .map((block) => block.text || '')
+                .join('');
+
+            return {
+                content: request.json ? extractJsonObject(content) : content,
+                model: body.model || config.model,
+            };
+        },
+
+        // Text arrives in `content_block_delta` events; fences around streamed JSON are left to the reader
+        async *stream(request) {
+            const response = await send(config, request, true);
+            if (!response.body) return;
+
+            for await (const { data } of readServerSentEvents(response.body)) {
+                const event = JSON.parse(data) as AnthropicStreamEvent;
+                if (event.type === 'error') {
+                    throw new AnthropicApiError(response.status, event.error?.message || data);
+                }
+                if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+                    yield event.delta.text;
+                }
+            }
+        },
+    };
+}
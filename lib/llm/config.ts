@@ -0,0 +1,91 @@
+import { getModelContextWindow } from './tokens';
+import type { LLMConfig, LLMProviderId } from './types';
+
+const PROVIDERS: Record<LLMProviderId, { name: string; model: string; apiKeyEnv?: string; baseUrl?: string }> = {
+    openai: { name: 'OpenAI', model: 'gpt-4o-mini', apiKeyEnv: 'OPENAI_API_KEY' },
+    anthropic: { name: 'Anthropic', model: 'claude-3-5-haiku-latest', apiKeyEnv: 'ANTHROPIC_API_KEY', baseUrl: 'https://api.anthropic.com' },
+    local: { name: 'Local model', model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' },
+};
+
+const DEFAULT_TEMPERATURE = 0.9; // Higher temperature for more creative, unique responses
+const DEFAULT_MAX_TOKENS = 4096;
+
+const text = (value: string | undefined) => (value || '').trim();
+
+function isProviderId(value: string): value is LLMProviderId {
+    return value in PROVIDERS;
+}
+
+function numberEnv(name: string, fallback: number): number {
+    const raw = text(process.env[name]);
+    if (!raw) return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+        console.warn(`⚠️ Ignoring ${name}="${raw}": not a number`);
+        return fallback;
+    }
+    return value;
+}
+
+/**
+ * Display name of a provider, e.g. "Anthropic"
+ */
+export function getLLMProviderName(provider: LLMProviderId): string {
+    return PROVIDERS[provider].name;
+}
+
+/**
+ * Resolve the language model settings for this environment.
+ *
+ * - `LLM_PROVIDER` - `openai` (default), `anthropic` or `local` (any OpenAI-compatible server)
+ * - `LLM_MODEL` - defaults to gpt-4o-mini, claude-3-5-haiku-latest or llama3.1
+ * - `LLM_TEMPERATURE` - defaults to 0.9
+ * - `LLM_MAX_TOKENS` - reply limit, defaults to 4096
+ * - `LLM_CONTEXT_WINDOW` - prompt plus reply tokens the model accepts; known for OpenAI and Anthropic models, 8192 otherwise
+ * - `LLM_BASE_URL` - API root; defaults to Ollama's http://localhost:11434/v1 for `local`
+ * - `LLM_API_KEY` - falls back to `OPENAI_API_KEY` / `ANTHROPIC_API_KEY`
+ */
+export function getLLMConfig(): LLMConfig {
+    const requested = text(process.env.LLM_PROVIDER).toLowerCase() || 'openai';
+    let provider: LLMProviderId = 'openai';
+    if (isProviderId(requested)) {
+        provider = requested;
+    } else {
+        console.warn(`⚠️ Unknown LLM_PROVIDER "${requested}", using openai`);
+    }
+
+    const defaults = PROVIDERS[provider];
+    const apiKeyEnv = defaults.apiKeyEnv;
+    const model = text(process.env.LLM_MODEL) || defaults.model;
+    return {
+        provider,
+        model,
+        temperature: numberEnv('LLM_TEMPERATURE', DEFAULT_TEMPERATURE),
+        maxTokens: numberEnv('LLM_MAX_TOKENS', DEFAULT_MAX_TOKENS),
+        contextWindow: numberEnv('LLM_CONTEXT_WINDOW', getModelContextWindow(model)),
+        baseUrl: (text(process.env.LLM_BASE_URL) || defaults.baseUrl)?.replace(/\/+$/, ''),
+        apiKey: text(process.env.LLM_API_KEY) || (apiKeyEnv ? text(process.env[apiKeyEnv]) : '') || undefined,
+    };
+}
+
+/**
+ * Check that the configured provider can be called
+ * @returns Error and setup message for API routes, or null when the provider is ready
+ */
+export function getLLMConfigError(config: LLMConfig = getLLMConfig()): { error: string; message: string } | null {
+    const defaults = PROVIDERS[config.provider];
+    if (defaults.apiKeyEnv && !config.apiKey) {
+        return {
+            error: `${defaults.name} API key not configured`,
+            message: `Please set ${defaults.apiKeyEnv} (or LLM_API_KEY) in your environment variables.`,
+        };
+    }
+    return null;
+}
+
+/**
+ * Whether AI explanations can be generated in this environment
+ */
+export function isLLMConfigured(): boolean {
+    return getLLMConfigError() === null;
+}
@@ -0,0 +1,24 @@
+import { createAnthropicProvider } from './anthropic';
+import { getLLMConfig } from './config';
+import { createOpenAIProvider } from './openai';
+import type { LLMConfig, LLMProvider } from './types';
+
+export { getLLMConfig, getLLMConfigError, getLLMProviderName, isLLMConfigured } from './config';
+export { AnthropicApiError } from './anthropic';
+export { estimateTokens, getModelContextWindow } from './tokens';
+export type { LLMCompletion, LLMCompletionRequest, LLMConfig, LLMMessage, LLMProvider, LLMProviderId } from './types';
+
+/**
+ * The language model backend selected for this environment (see getLLMConfig)
+ * @param config Settings to use instead of the environment, e.g. in scripts
+ */
+export function getLLMProvider(config: LLMConfig = getLLMConfig()): LLMProvider {
+    switch (config.provider) {
+        case 'anthropic':
+            return createAnthropicProvider(config);
+        case 'local':
+        case 'openai':
+        default:
+            return createOpenAIProvider(config);
+    }
+}
@@ -0,0 +1,62 @@
+import OpenAI from 'openai';
+import { getLLMProviderName } from './config';
+import type { LLMCompletionRequest, LLMConfig, LLMProvider } from './types';
+
+// o-series and gpt-5 reasoning models (not gpt-5-chat) take `max_completion_tokens` and only the default temperature
+const REASONING_MODEL = /^(?:o\d|gpt-5(?!-chat))/i;
+
+/**
+ * OpenAI, or any server that speaks its chat completions API (Ollama, llama.cpp, vLLM).
+ * Local servers usually ignore the API key, but the SDK insists on one.
+ * @param config Resolved settings with provider `openai` or `local`
+ */
+export function createOpenAIProvider(config: LLMConfig): LLMProvider {
+    const client = new OpenAI({
+        apiKey: config.apiKey || 'not-needed',
+        baseURL: config.baseUrl,
+    });
+
+    // Reply limit and temperature in the form the model accepts
+    const sampling = (request: LLMCompletionRequest) => {
+        const maxTokens = request.maxTokens ?? config.maxTokens;
+        if (config.provider === 'openai' && REASONING_MODEL.test(config.model)) {
+            return { max_completion_tokens: maxTokens };
+        }
+        return { temperature: request.temperature ?? config.temperature, max_tokens: maxTokens };
+    };
+
+    return {
+        id: config.provider,
+        name: getLLMProviderName(config.provider),
+        model: config.model,
+
+        async complete(request) {
+            const completion = await client.chat.completions.create({
+                model: config.model,
+                messages: request.messages,
+                response_format: request.json ? { type: 'json_object' } : undefined,
+                ...sampling(request),
+            });
+
+            return {
+                content: completion.choices[0]?.message?.content || '',
+                model: completion.model || config.model,
+            };
+        },
+
+        async *stream(request) {
+            const chunks = await client.chat.completions.create({
+                model: config.model,
+                messages: request.messages,
+                response_format: request.json ? { type: 'json_object' } : undefined,
+                ...sampling(request),
+                stream: true,
+            });
+
+            for await (const chunk of chunks) {
+                const delta = chunk.choices[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+        },
+    };
+}
@@ -0,0 +1,78 @@
+/**
+ * Token estimates for prompt budgeting.
+ *
+ * No tokenizer is bundled, so text is split the way BPE pre-tokenizers do (words with their leading
+ * space, digit groups, punctuation runs, whitespace) and each piece is costed with the average piece
+ * length of the model's tokenizer family. Estimates run a few percent high for English and code,
+ * which is the safe side for a budget.
+ */
+
+interface TokenizerProfile {
+    charsPerToken: number;          // Average letters per token within a word
+    digitsPerToken: number;         // Digit group size (cl100k and o200k split numbers into groups of 3)
+    punctuationPerToken: number;
+}
+
+const PROFILES: Array<{ pattern: RegExp; profile: TokenizerProfile }> = [
+    // o200k_base: gpt-4o, gpt-4.1, gpt-5 and the o-series
+    { pattern: /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/i, profile: { charsPerToken: 6, digitsPerToken: 3, punctuationPerToken: 2 } },
+    // cl100k_base: gpt-4, gpt-3.5
+    { pattern: /^gpt-/i, profile: { charsPerToken: 5, digitsPerToken: 3, punctuationPerToken: 2 } },
+    // Claude's tokenizer produces noticeably more tokens for the same text
+    { pattern: /^claude/i, profile: { charsPerToken: 4, digitsPerToken: 1, punctuationPerToken: 1.5 } },
+];
+
+// Llama, Mistral, Qwen and other local models
+const DEFAULT_PROFILE: TokenizerProfile = { charsPerToken: 4.5, digitsPerToken: 1, punctuationPerToken: 1.5 };
+
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+    [/^gpt-4\.1/i, 1_047_576],
+    [/^gpt-5/i, 400_000],
+    [/^o\d/i, 200_000],
+    [/^(gpt-4o|gpt-4-turbo)/i, 128_000],
+    [/^gpt-4/i, 8_192],
+    [/^gpt-3\.5/i, 16_385],
+    [/^claude/i, 200_000],
+];
+
+// Ollama serves most models with a small context unless num_ctx is raised
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+const PIECES = /'(?:s|t|re|ve|m|ll|d)\b| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+function getProfile(model: string): TokenizerProfile {
+    return PROFILES.find(({ pattern }) => pattern.test(model))?.profile || DEFAULT_PROFILE;
+}
+
+/**
+ * Estimated number of tokens the model's tokenizer turns the text into
+ * @param text Prompt text
+ * @param model Model name, e.g. "gpt-4o-mini" or "claude-3-5-haiku-latest"
+ */
+export function estimateTokens(text: string, model: string): number {
+    if (!text) return 0;
+    const profile = getProfile(model);
+
+    let tokens = 0;
+    for (const [piece] of text.matchAll(PIECES)) {
+        const word = piece.trimStart();
+        if (!word) {
+            tokens += 1;            // A run of whitespace (indentation, blank lines) is usually one token
+        } else if (/^\p{L}/u.test(word)) {
+            tokens += Math.ceil(word.length / profile.charsPerToken);
+        } else if (/^\p{N}/u.test(word)) {
+            tokens += Math.ceil(word.length / profile.digitsPerToken);
+        } else {
+            tokens += Math.ceil(word.length / profile.punctuationPerToken);
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Context window of a model in tokens (prompt and reply together)
+ * @param model Model name
+ */
+export function getModelContextWindow(model: string): number {
+    return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] || DEFAULT_CONTEXT_WINDOW;
+}
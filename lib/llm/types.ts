@@ -0,0 +1,52 @@
+/**
+ * Language model backends the explainer can talk to.
+ *
+ * `local` is any OpenAI-compatible server (Ollama, llama.cpp, vLLM, or a stand-in used for offline
+ * testing), so explanations can run fully on-prem for sensitive projects.
+ */
+export type LLMProviderId = 'openai' | 'anthropic' | 'local';
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LLMCompletionRequest {
+    messages: LLMMessage[];
+    json?: boolean;                 // Ask for a single JSON object as the reply
+    temperature?: number;           // Overrides the configured temperature
+    maxTokens?: number;             // Overrides the configured reply limit
+}
+
+export interface LLMCompletion {
+    content: string;
+    model: string;                  // Model that actually answered, as reported by the backend
+}
+
+/**
+ * Resolved settings for the configured backend
+ */
+export interface LLMConfig {
+    provider: LLMProviderId;
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    contextWindow: number;          // Prompt and reply tokens the model accepts
+    baseUrl?: string;               // API root; required for `local`, optional override for the others
+    apiKey?: string;                // Not needed for most local servers
+}
+
+/**
+ * A chat completion backend
+ */
+export interface LLMProvider {
+    id: LLMProviderId;
+    name: string;                   // Display name, e.g. "OpenAI"
+    model: string;
+
+    /** Send the conversation and return the reply text */
+    complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+
+    /** Send the conversation and yield the reply text in chunks as it is generated */
+    stream(request: LLMCompletionRequest): AsyncIterable<string>;
+}
@@ -1,9 +1,26 @@
-import OpenAI from "openai";
-import { getCachedExplanation, saveCachedExplanation } from "./cache";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getCachedExplanation, saveCachedExplanation, type CacheKeyInput } from "./cache";
+import { eventTag, getEventBreadcrumbs, getEventExceptions, getEventRequest, getFrameContext, getFrameLineNo, isInAppFrame } from "./sentry/event-utils";
+import { formatTagDistributions } from "./sentry/tag-utils";
+import { parseStackFrames, resolveEventExceptions } from "./stacktrace/parser";
+import { formatSourceSnippets, getSourceContext, getSourceRoot } from "./stacktrace/source-context";
+import { getSourceMapDirs, resolveExceptionFrames, resolveFrames } from "./sourcemaps";
+import { estimateTokens, getLLMConfig, getLLMProvider, type LLMConfig, type LLMMessage, type LLMProvider } from "./llm";
+import { parseExplanation, validateExplanation, validateExplanationSection } from "./explanation-schema";
+import { JsonObjectStream } from "./utils/json-stream";
+import {
+  buildPromptContext,
+  CONTEXT_PRIORITY,
+  getDefaultPersonaId,
+  getPersona,
+  getPersonaCacheTag,
+  getPromptTokenBudget,
+  renderExplanationPrompt,
+  type ContextSection,
+  type PersonaId,
+  type PromptContext,
+  type PromptContextReport,
+} from "./prompts";
+import type { SentryEvent, SentryStackFrame, SentryTag } from "./sentry/types";
 
 export interface ErrorExplanation {
   overview: string;
@@ -38,355 +55,462 @@ export interface ErrorExplanation {
     difficulty: "easy" | "medium" | "hard";
   }>;
   preventionTips: string[];
+  context?: PromptContextReport;  // What of the error data fit in the prompt; set by explainError, not the model
+}
+
+const MAX_ATTEMPTS = 3; // First answer plus two repair requests
+// Generous caps; the prompt token budget decides how much of them is actually sent
+const MAX_FRAMES = 10;
+const MAX_BREADCRUMBS = 20;
+const MAX_HEADER_FIELD_CHARS = 300; // Header fields are sent whatever the budget, so each is clipped
+
+const clip = (value: string, max = MAX_HEADER_FIELD_CHARS) => (value.length > max ? `${value.slice(0, max)}…` : value);
+
+// Receives each top-level section of a streamed explanation as soon as it is complete
+export type ExplanationSectionHandler = (key: keyof ErrorExplanation, value: ErrorExplanation[keyof ErrorExplanation]) => void;
+
+// Stream a reply, passing on every section that validates on its own; returns the full reply text
+async function streamReply(llm: LLMProvider, messages: LLMMessage[], onSection: ExplanationSectionHandler): Promise<string> {
+  const reader = new JsonObjectStream();
+  let content = "";
+  for await (const chunk of llm.stream({ messages, json: true })) {
+    content += chunk;
+    reader.push(chunk).forEach(([key, value]) => {
+      const section = validateExplanationSection(key, value);
+      if (section !== undefined) {
+        onSection(key as keyof ErrorExplanation, section);
+      }
+    });
+  }
+  return content;
+}
+
+// Format a stack frame with two lines of code around the error line
+function formatFrame(frame: SentryStackFrame): string {
+  const lineNo = getFrameLineNo(frame);
+  let text = `  File: ${frame.filename || frame.absPath || "unknown"}:${lineNo ?? "?"} in ${frame.function || "anonymous"}\n`;
+
+  const context = getFrameContext(frame, 2);
+  if (context.length > 0) {
+    text += `  Code:\n`;
+    context.forEach(({ lineNo: line, code, isErrorLine }) => {
+      text += isErrorLine ? `  → ${line}| ${code} ← ERROR HERE\n` : `    ${line}| ${code}\n`;
+    });
+  }
+
+  return text;
 }
 
-export async function explainError(errorDetails: {
+export interface ExplainErrorDetails {
   title: string;
   level: string;
   culprit: string;
   metadata: any;
+  project?: string;  // Project slug; picks the local checkout for source context
   logger?: string;
   type?: string;
   platform?: string;
   tags?: Array<{ key: string; value: string }>;
+  tagDistributions?: SentryTag[];
   firstSeen?: string;
   lastSeen?: string;
   count?: number;
   userCount?: number;
   events?: any[];
-}): Promise<ErrorExplanation> {
-  try {
-    // Normalize data for cache key generation
-    const normalizedMetadata = {
-      type: errorDetails.metadata?.type || '',
-      value: String(errorDetails.metadata?.value || '').substring(0, 200), // Limit length for consistency
-    };
-    
-    // Check cache first
-    const cached = getCachedExplanation({
-      title: String(errorDetails.title || '').trim(),
-      culprit: String(errorDetails.culprit || '').trim(),
-      metadata: normalizedMetadata,
-    });
-    
-    if (cached) {
-      console.log('✅ Using cached AI explanation - no OpenAI API call needed!');
-      return cached;
+  latestEvent?: SentryEvent | null;
+  recentEvents?: SentryEvent[];
+  eventId?: string;  // Explain this one event (passed as latestEvent) instead of the issue; cached per event
+  traceHash?: string;  // Pasted trace: hash of its normalized text, used as its cache key
+}
+
+// Error context sections for a prompt, in prompt order, each with its priority for the token budget
+function buildContextSections(errorDetails: ExplainErrorDetails): ContextSection[] {
+  // Extract comprehensive error information from Sentry data
+  let errorMessage = "";
+  let stackTrace = "";
+  let codeContext = "";       // Frames of the latest event's exceptions, in-app ones when marked
+  let exceptionDetails = "";  // Their types and values
+  let breadcrumbs = "";
+  let sourceFrames: SentryStackFrame[] = [];  // Frames to read real source for, oldest call first
+  // Minified frontend frames are mapped back to original files; already mapped frames are left alone
+  const sourceMapDirs = getSourceMapDirs(errorDetails.project);
+  
+  if (errorDetails.metadata) {
+    if (errorDetails.metadata.value) {
+      errorMessage = String(errorDetails.metadata.value);
+    }
+    if (errorDetails.metadata.function) {
+      errorMessage += ` in function: ${errorDetails.metadata.function}`;
+    }
+    if (errorDetails.metadata.filename) {
+      errorMessage += ` at file: ${errorDetails.metadata.filename}`;
+    }
+    if (errorDetails.metadata.type) {
+      errorMessage += ` (Type: ${errorDetails.metadata.type})`;
     }
     
-    console.log('🔄 Cache miss - generating new AI explanation...');
-    
-    // Extract comprehensive error information from Sentry data
-    let errorMessage = "";
-    let stackTrace = "";
-    let codeContext = "";
-    let exceptionDetails = "";
-    let breadcrumbs = "";
-    
-    if (errorDetails.metadata) {
-      if (errorDetails.metadata.value) {
-        errorMessage = String(errorDetails.metadata.value);
-      }
-      if (errorDetails.metadata.function) {
-        errorMessage += ` in function: ${errorDetails.metadata.function}`;
-      }
-      if (errorDetails.metadata.filename) {
-        errorMessage += ` at file: ${errorDetails.metadata.filename}`;
-      }
-      if (errorDetails.metadata.type) {
-        errorMessage += ` (Type: ${errorDetails.metadata.type})`;
+    // Extract stack trace with line numbers
+    if (errorDetails.metadata.stacktrace) {
+      const stack = errorDetails.metadata.stacktrace;
+      if (Array.isArray(stack.frames)) {
+        const frames = resolveFrames(stack.frames, sourceMapDirs);
+        sourceFrames = frames;
+        stackTrace += "Stack Trace (most relevant frames):\n";
+        frames.slice(-MAX_FRAMES).reverse().forEach((frame: any, idx: number) => {
+          const lineNo = getFrameLineNo(frame);
+          const contextLine = getFrameContext(frame, 0)[0]?.code;
+          stackTrace += `  ${idx + 1}. ${frame.filename || 'unknown'}:${lineNo || '?'} in ${frame.function || 'anonymous'}\n`;
+          if (contextLine) {
+            stackTrace += `     Line ${lineNo}: ${contextLine}\n`;
+          }
+        });
+      } else {
+        stackTrace = JSON.stringify(errorDetails.metadata.stacktrace, null, 2);
       }
-      
-      // Extract stack trace with line numbers
-      if (errorDetails.metadata.stacktrace) {
-        const stack = errorDetails.metadata.stacktrace;
-        if (Array.isArray(stack.frames)) {
-          stackTrace += "Stack Trace (most relevant frames):\n";
-          stack.frames.slice(-5).reverse().forEach((frame: any, idx: number) => {
-            stackTrace += `  ${idx + 1}. ${frame.filename || 'unknown'}:${frame.lineno || '?'} in ${frame.function || 'anonymous'}\n`;
-            if (frame.context_line) {
-              stackTrace += `     Line ${frame.lineno}: ${frame.context_line}\n`;
-            }
-          });
-        } else {
-          stackTrace = JSON.stringify(errorDetails.metadata.stacktrace).substring(0, 1000);
-        }
-      } else if (errorDetails.metadata.stack) {
-        stackTrace = String(errorDetails.metadata.stack).substring(0, 1000);
+    } else if (errorDetails.metadata.stack) {
+      // String-only stacks are parsed so they get the same frame formatting as structured ones
+      const frames = resolveFrames(parseStackFrames(String(errorDetails.metadata.stack)), sourceMapDirs);
+      sourceFrames = frames;
+      if (frames.length > 0) {
+        const inAppFrames = frames.filter(isInAppFrame);
+        stackTrace += "Stack Trace (most relevant frames):\n";
+        (inAppFrames.length > 0 ? inAppFrames : frames).slice(-MAX_FRAMES).reverse().forEach((frame) => {
+          stackTrace += formatFrame(frame);
+        });
+      } else {
+        stackTrace = String(errorDetails.metadata.stack);
       }
     }
+  }
 
-    // Extract detailed event information
-    let latestEventInfo = "";
-    if (errorDetails.events && errorDetails.events.length > 0) {
-      const latestEvent = errorDetails.events[0];
-      latestEventInfo += "=== LATEST EVENT DETAILS ===\n";
-      
-      if (latestEvent.message) {
-        latestEventInfo += `Message: ${latestEvent.message}\n`;
-      }
-      if (latestEvent.platform) {
-        latestEventInfo += `Platform: ${latestEvent.platform}\n`;
+  // Extract detailed event information
+  // Prefer the full latest event (with entries); the events list only has summaries
+  let latestEventInfo = "";
+  let recentEventsInfo = "";
+  const latestEvent = errorDetails.latestEvent || errorDetails.events?.[0];
+  if (latestEvent) {
+    if (latestEvent.message) {
+      latestEventInfo += `Message: ${latestEvent.message}\n`;
+    }
+    if (latestEvent.platform) {
+      latestEventInfo += `Platform: ${latestEvent.platform}\n`;
+    }
+    if (latestEvent.dateCreated || latestEvent.timestamp) {
+      latestEventInfo += `Timestamp: ${latestEvent.dateCreated || latestEvent.timestamp}\n`;
+    }
+    const environment = eventTag(latestEvent, "environment");
+    const release = eventTag(latestEvent, "release");
+    if (environment) {
+      latestEventInfo += `Environment: ${environment}\n`;
+    }
+    if (release) {
+      latestEventInfo += `Release: ${release}\n`;
+    }
+    if (latestEvent.user) {
+      latestEventInfo += `User: ${JSON.stringify(latestEvent.user)}\n`;
+    }
+    
+    // Extract exception details (parsed from the message when the event has no structured frames)
+    const exceptions = resolveExceptionFrames(resolveEventExceptions(latestEvent).exceptions, sourceMapDirs);
+    const raisedFrames = exceptions[exceptions.length - 1]?.stacktrace?.frames || [];
+    if (raisedFrames.length > 0) {
+      sourceFrames = raisedFrames;
+    }
+    exceptions.forEach((exc) => {
+      exceptionDetails += `Type: ${exc.type}\n`;
+      exceptionDetails += `Value: ${exc.value}\n`;
+      const frames = exc.stacktrace?.frames || [];
+      if (frames.length > 0) {
+        // Focus on the application's own frames when Sentry marks them
+        const inAppFrames = frames.filter(isInAppFrame);
+        codeContext += `${exc.type}:\n`;
+        (inAppFrames.length > 0 ? inAppFrames : frames).slice(-MAX_FRAMES).reverse().forEach((frame) => {
+          codeContext += formatFrame(frame);
+        });
       }
-      if (latestEvent.timestamp) {
-        latestEventInfo += `Timestamp: ${latestEvent.timestamp}\n`;
+    });
+
+    // Extract breadcrumbs
+    const crumbs = getEventBreadcrumbs(latestEvent);
+    if (crumbs.length > 0) {
+      crumbs.slice(-MAX_BREADCRUMBS).forEach((crumb) => {
+        breadcrumbs += `  [${crumb.timestamp}] ${crumb.category}: ${crumb.message || JSON.stringify(crumb.data)}\n`;
+      });
+    }
+    
+    // Extract request context (a "request" entry in full events)
+    const request = getEventRequest(latestEvent);
+    if (request) {
+      latestEventInfo += `\nRequest Context:\n`;
+      latestEventInfo += `  URL: ${request.url}\n`;
+      latestEventInfo += `  Method: ${request.method}\n`;
+      const query = Array.isArray(request.query)
+        ? request.query.map(([key, value]) => `${key}=${value}`).join("&")
+        : request.query;
+      if (query) {
+        latestEventInfo += `  Query: ${query}\n`;
       }
-      if (latestEvent.user) {
-        latestEventInfo += `User: ${JSON.stringify(latestEvent.user)}\n`;
+    }
+    
+    // Extract context/environment data
+    const contexts = latestEvent.contexts;
+    if (contexts) {
+      latestEventInfo += `\nEnvironment:\n`;
+      if (contexts.runtime) {
+        latestEventInfo += `  Runtime: ${contexts.runtime.name} ${contexts.runtime.version}\n`;
       }
-      
-      // Extract exception details
-      if (latestEvent.entries) {
-        latestEvent.entries.forEach((entry: any) => {
-          if (entry.type === 'exception' && entry.data?.values) {
-            exceptionDetails += "=== EXCEPTION DETAILS ===\n";
-            entry.data.values.forEach((exc: any) => {
-              exceptionDetails += `Type: ${exc.type}\n`;
-              exceptionDetails += `Value: ${exc.value}\n`;
-              if (exc.stacktrace?.frames) {
-                exceptionDetails += "Code Context:\n";
-                exc.stacktrace.frames.slice(-3).reverse().forEach((frame: any) => {
-                  exceptionDetails += `  File: ${frame.filename}:${frame.lineno} in ${frame.function}\n`;
-                  if (frame.pre_context && frame.context_line && frame.post_context) {
-                    exceptionDetails += `  Code:\n`;
-                    frame.pre_context?.slice(-2).forEach((line: string, i: number) => {
-                      exceptionDetails += `    ${frame.lineno - 2 + i}| ${line}\n`;
-                    });
-                    exceptionDetails += `  → ${frame.lineno}| ${frame.context_line} ← ERROR HERE\n`;
-                    frame.post_context?.slice(0, 2).forEach((line: string, i: number) => {
-                      exceptionDetails += `    ${frame.lineno + 1 + i}| ${line}\n`;
-                    });
-                  }
-                });
-              }
-            });
-          }
-          
-          // Extract breadcrumbs
-          if (entry.type === 'breadcrumbs' && entry.data?.values) {
-            breadcrumbs += "=== USER ACTIONS BEFORE ERROR ===\n";
-            entry.data.values.slice(-5).forEach((crumb: any) => {
-              breadcrumbs += `  [${crumb.timestamp}] ${crumb.category}: ${crumb.message || JSON.stringify(crumb.data)}\n`;
-            });
-          }
-        });
+      if (contexts.os) {
+        latestEventInfo += `  OS: ${contexts.os.name} ${contexts.os.version}\n`;
       }
-      
-      // Extract request context
-      if (latestEvent.request) {
-        latestEventInfo += `\nRequest Context:\n`;
-        latestEventInfo += `  URL: ${latestEvent.request.url}\n`;
-        latestEventInfo += `  Method: ${latestEvent.request.method}\n`;
-        if (latestEvent.request.query_string) {
-          latestEventInfo += `  Query: ${latestEvent.request.query_string}\n`;
-        }
+      if (contexts.browser) {
+        latestEventInfo += `  Browser: ${contexts.browser.name} ${contexts.browser.version}\n`;
       }
-      
-      // Extract context/environment data
-      if (latestEvent.contexts) {
-        latestEventInfo += `\nEnvironment:\n`;
-        if (latestEvent.contexts.runtime) {
-          latestEventInfo += `  Runtime: ${latestEvent.contexts.runtime.name} ${latestEvent.contexts.runtime.version}\n`;
-        }
-        if (latestEvent.contexts.os) {
-          latestEventInfo += `  OS: ${latestEvent.contexts.os.name} ${latestEvent.contexts.os.version}\n`;
-        }
-        if (latestEvent.contexts.browser) {
-          latestEventInfo += `  Browser: ${latestEvent.contexts.browser.name} ${latestEvent.contexts.browser.version}\n`;
-        }
+      if (contexts.device?.model) {
+        latestEventInfo += `  Device: ${contexts.device.model}\n`;
       }
     }
+  }
 
-    // Build comprehensive context from error details - USE ALL SENTRY DATA
-    const errorContext = `
-=== ERROR INFORMATION ===
-Error Title: ${errorDetails.title}
-Error Level: ${errorDetails.level}
-Error Type: ${errorDetails.type || "Not specified"}
-Platform: ${errorDetails.platform || "Not specified"}
-
-=== WHERE IT HAPPENED ===
-Location/File: ${errorDetails.culprit || "Unknown"}
-Logger: ${errorDetails.logger || "Not specified"}
-
-=== ERROR MESSAGE ===
-${errorMessage || errorDetails.title}
-
-${stackTrace ? `\n=== STACK TRACE WITH LINE NUMBERS ===\n${stackTrace}\n` : ""}
-
-${exceptionDetails ? `\n${exceptionDetails}\n` : ""}
-
-${breadcrumbs ? `\n${breadcrumbs}\n` : ""}
-
-${latestEventInfo ? `\n${latestEventInfo}\n` : ""}
+  // Summarize other full events so the AI can spot what varies between occurrences
+  if (errorDetails.recentEvents && errorDetails.recentEvents.length > 0) {
+    errorDetails.recentEvents.forEach((event) => {
+      const exception = getEventExceptions(event)[0];
+      const request = getEventRequest(event);
+      recentEventsInfo += `  [${event.dateCreated || event.timestamp || "unknown time"}]`;
+      recentEventsInfo += ` ${exception ? `${exception.type}: ${exception.value}` : event.message || event.title || ""}`;
+      if (request?.url) {
+        recentEventsInfo += ` (${request.method || "GET"} ${request.url})`;
+      }
+      const environment = eventTag(event, "environment");
+      if (environment) {
+        recentEventsInfo += ` env=${environment}`;
+      }
+      recentEventsInfo += "\n";
+    });
+  }
 
-=== COMPLETE METADATA ===
-${JSON.stringify(errorDetails.metadata, null, 2).substring(0, 2000)}
+  // Real source of the innermost in-app frames, when a local checkout is configured for the project
+  let sourceCode = "";
+  const sourceRoot = getSourceRoot(errorDetails.project);
+  if (sourceRoot && sourceFrames.length > 0) {
+    const snippets = getSourceContext(sourceRoot, sourceFrames);
+    sourceCode = formatSourceSnippets(snippets);
+    console.log(`📂 Read ${snippets.length} source snippet(s) from ${sourceRoot}`);
+  }
 
-=== TAGS & ENVIRONMENT ===
-${errorDetails.tags ? `Tags: ${errorDetails.tags.map(t => `${t.key}=${t.value}`).join(", ")}\n` : ""}
+  // Share of events per tag value, so the AI can tell whether one browser/OS/release dominates
+  const tagDistribution = formatTagDistributions(errorDetails.tagDistributions);
 
-=== OCCURRENCE PATTERN ===
-First Seen: ${errorDetails.firstSeen || "Unknown"}
-Last Seen: ${errorDetails.lastSeen || "Unknown"}
-Occurrence Count: ${errorDetails.count || 0} times
-Affected Users: ${errorDetails.userCount || 0} users
-${errorDetails.count && errorDetails.count > 1 ? 'This is a recurring issue!' : 'First occurrence'}
-`;
+  // Build comprehensive context from error details - USE ALL SENTRY DATA.
+  // Sections are sent by priority (in-app frames first, raw metadata last) until the token budget runs out
+  const sections: ContextSection[] = [
+    {
+      id: "error",
+      label: "Error information",
+      priority: CONTEXT_PRIORITY.required,
+      fixed: true,
+      body: `=== ERROR INFORMATION ===
+Error Title: ${clip(String(errorDetails.title || ""))}
+Error Level: ${clip(String(errorDetails.level || ""), 20)}
+Error Type: ${clip(String(errorDetails.type || "Not specified"))}
+Platform: ${clip(String(errorDetails.platform || "Not specified"))}
 
-    const prompt = `You are a friendly, empathetic AI Error Detective 🔍 - like having a super smart friend who's great at explaining complex technical stuff in a fun, relatable way. Your explanations should feel PERSONAL, ENGAGING, and UNIQUE - never generic or robotic!
+=== WHERE IT HAPPENED ===
+Location/File: ${clip(String(errorDetails.culprit || "Unknown"))}
+Logger: ${clip(String(errorDetails.logger || "Not specified"))}`,
+    },
+    // Messages can be arbitrarily long (dumped payloads, SQL), so this one is cut to the budget
+    { id: "message", label: "Error message", priority: CONTEXT_PRIORITY.required, heading: "ERROR MESSAGE", body: errorMessage || String(errorDetails.title || "") },
+    { id: "stack", label: "Stack trace", priority: CONTEXT_PRIORITY.frames, heading: "STACK TRACE WITH LINE NUMBERS", body: stackTrace },
+    { id: "exception", label: "Exception details", priority: CONTEXT_PRIORITY.exception, heading: "EXCEPTION DETAILS", body: exceptionDetails },
+    { id: "frames", label: "In-app frames", priority: CONTEXT_PRIORITY.frames, heading: "CODE CONTEXT (innermost frame first)", body: codeContext },
+    {
+      id: "source",
+      label: "Source code",
+      priority: CONTEXT_PRIORITY.source,
+      heading: "SOURCE CODE (enclosing functions, read from the project's repository)",
+      body: sourceCode,
+      note: `Base "codeReference" and the fix "steps" on this code: cite its real file paths and line numbers, and name the actual variables, calls and conditions involved.`,
+    },
+    // The most recent actions matter most, so a cut keeps the end
+    { id: "breadcrumbs", label: "Breadcrumbs", priority: CONTEXT_PRIORITY.breadcrumbs, heading: "USER ACTIONS BEFORE ERROR", body: breadcrumbs, trim: "start" },
+    {
+      id: "event",
+      label: "Event details",
+      // When one event is being explained, its details are the point of the request
+      priority: errorDetails.eventId ? CONTEXT_PRIORITY.required : CONTEXT_PRIORITY.event,
+      heading: errorDetails.eventId ? `EVENT DETAILS (explain this specific occurrence: ${errorDetails.eventId})` : "LATEST EVENT DETAILS",
+      body: latestEventInfo,
+    },
+    { id: "recent-events", label: "Other recent occurrences", priority: CONTEXT_PRIORITY.recentEvents, heading: "OTHER RECENT OCCURRENCES", body: recentEventsInfo },
+    { id: "metadata", label: "Raw metadata", priority: CONTEXT_PRIORITY.metadata, heading: "COMPLETE METADATA", body: JSON.stringify(errorDetails.metadata, null, 2) || "" },
+    {
+      id: "tags",
+      label: "Tags",
+      priority: CONTEXT_PRIORITY.tags,
+      heading: "TAGS & ENVIRONMENT",
+      body: errorDetails.tags ? `Tags: ${errorDetails.tags.map(t => `${t.key}=${t.value}`).join(", ")}` : "",
+    },
+    {
+      id: "tag-distribution",
+      label: "Tag distribution",
+      priority: CONTEXT_PRIORITY.tags,
+      heading: "TAG DISTRIBUTION (share of all events)",
+      body: tagDistribution,
+      note: "If one value dominates (e.g. 92% Safari 17 on iOS), call it out in the explanation and the likely causes.",
+    },
+    {
+      id: "occurrences",
+      label: "Occurrence pattern",
+      priority: CONTEXT_PRIORITY.required,
+      fixed: true,
+      heading: "OCCURRENCE PATTERN",
+      body: `First Seen: ${clip(String(errorDetails.firstSeen || "Unknown"), 40)}
+Last Seen: ${clip(String(errorDetails.lastSeen || "Unknown"), 40)}
+Occurrence Count: ${clip(String(errorDetails.count || 0), 20)} times
+Affected Users: ${clip(String(errorDetails.userCount || 0), 20)} users
+${errorDetails.count && errorDetails.count > 1 ? 'This is a recurring issue!' : 'First occurrence'}`,
+    },
+  ];
 
-Given the following error information, provide an EXCEPTIONAL, conversational explanation that makes the person feel understood and confident they can fix this:
+  return sections;
+}
 
-${errorContext}
+/**
+ * The error context of a prompt, fitted to the model's token budget
+ * @param errorDetails Issue or event to describe
+ * @param llmConfig Model the tokens are measured for
+ * @param reservedTokens Tokens of the rest of the prompt (template, explanation, chat history)
+ */
+export function buildErrorContext(errorDetails: ExplainErrorDetails, llmConfig: LLMConfig, reservedTokens: number): PromptContext {
+  const budget = getPromptTokenBudget(llmConfig, reservedTokens);
+  const context = buildPromptContext(buildContextSections(errorDetails), { budget, model: llmConfig.model });
+  const { dropped, truncated } = context.report;
+  console.log(`🧮 Error context: ~${context.report.tokens}/${budget} tokens for ${llmConfig.model}`);
+  if (dropped.length > 0 || truncated.length > 0) {
+    console.log(`✂️ Left out to fit the budget - dropped: ${dropped.join(", ") || "none"}; truncated: ${truncated.join(", ") || "none"}`);
+  }
+  return context;
+}
 
-YOUR UNIQUE STYLE:
-✨ Be conversational and warm - write like you're explaining to a friend over coffee
-🎯 Use CLEAR, DIRECT analogies only when they genuinely help understanding (e.g., "Think of your database like a library with strict rules...")
-💡 Show empathy - acknowledge frustration ("I know errors can be frustrating, but here's the good news...")
-🔥 Be specific and clear - use concrete, real-world examples, NOT abstract metaphors
-🚀 Be optimistic and encouraging - focus on solutions, not just problems
-⚡ Avoid confusing metaphors - NO abstract phrases like "where the music stopped" or "the stage where drama unfolded"
-✅ Use REAL paraphrases - explain what actually happened in plain, direct language
+export async function explainError(errorDetails: ExplainErrorDetails, options: {
+  onSection?: ExplanationSectionHandler;
+  persona?: PersonaId;  // Voice of the explanation; defaults to EXPLANATION_PERSONA
+} = {}): Promise<ErrorExplanation> {
+  const persona = getPersona(options.persona || getDefaultPersonaId());
 
-CRITICAL REQUIREMENTS:
-1. Start with empathy - acknowledge the frustration
-2. Use unique, creative language - NO generic phrases like "there was an issue" or "something went wrong"
-3. Paint a picture with analogies - make technical concepts visual and relatable
-4. Be specific about EXACTLY what broke and where
-5. Explain in a way that makes the person feel "Ah-ha! Now I get it!"
-6. Give actionable steps that build confidence
+  try {
+    // Normalize data for cache key generation
+    const normalizedMetadata = {
+      type: errorDetails.metadata?.type || '',
+      value: String(errorDetails.metadata?.value || '').substring(0, 200), // Limit length for consistency
+    };
+    
+    // OpenAI, Anthropic or a local model, depending on LLM_PROVIDER; tokens are measured for its model
+    const llmConfig = getLLMConfig();
 
-Please provide your response in the following JSON format:
-{
-  "overview": "The exact error title/message as it appears (e.g., 'Illuminate\\Database\\QueryException: SQLSTATE[23000]: Integrity constraint violation...')",
-  "aiErrorExplanation": "A clear, warm, conversational explanation that:
-    - Starts with empathy or acknowledgment (e.g., 'Ah, this is a classic case of...' or 'Here's what's happening...')
-    - Uses DIRECT, CLEAR language - explain what actually happened, NOT abstract metaphors
-    - Specifically names the table/field/component/file involved
-    - Explains WHY it happened in simple, concrete terms
-    - Uses real-world examples ONLY when they genuinely clarify (e.g., 'like trying to add a book to a library shelf that doesn't exist')
-    - Ends with an encouraging note
-    Keep it 4-5 sentences. Be SPECIFIC and CLEAR - avoid confusing metaphors like 'music stopped playing' or 'stage where drama unfolded'. Use REAL paraphrases!",
-  "detailedBreakdown": {
-    "whatHappened": "Explain clearly what exactly happened - be specific about the action that failed. Use concrete, direct language. NO abstract metaphors. (3-4 sentences)",
-    "whereItHappened": "Pinpoint the EXACT location - mention specific file names, functions, or components with line numbers if available. Be direct and clear. (2-3 sentences)",
-    "whyItHappened": "Explain the root cause clearly. Use simple, direct language. Only use analogies if they genuinely help understanding (e.g., 'like trying to reference something that doesn't exist'). (3-4 sentences)",
-    "whenItHappened": "Explain the trigger conditions in clear, everyday language. When does this error occur? Be specific. (2-3 sentences)"
-  },
-  "severity": "low" | "medium" | "high" | "critical",
-  "impact": {
-    "userImpact": "Explain what users actually experience - be specific and empathetic. (e.g., 'Users will see a blank screen when trying to checkout' not 'users may experience issues') (2-3 sentences)",
-    "systemImpact": "Describe the system impact in visual, relatable terms. (e.g., 'Your database is refusing new orders like a bouncer at a full club') (2-3 sentences)",
-    "businessImpact": "Connect it to real business outcomes in plain language. Be direct and clear. (1-2 sentences)"
-  },
-  "errorComponents": [
-    {
-      "component": "Specific component/file/function name",
-      "issue": "What's broken - be specific and clear",
-      "explanation": "Explain clearly what's wrong with this component. Use direct language, avoid abstract metaphors. (2-3 clear sentences)"
-    }
-  ],
-  "possibleCauses": [
-    {
-      "cause": "A specific, relatable cause (not generic)",
-      "likelihood": "low" | "medium" | "high",
-      "codeReference": "EXACT file path, line number, and function where this cause originates (e.g., 'app/Http/Controllers/TransactionController.php:45 in createTransaction()' or 'src/components/Header.tsx:120'). If multiple locations, list the most relevant one. ALWAYS include this based on stack trace!",
-      "explanation": "Tell the detective story - why this could be the culprit. Reference the SPECIFIC code location and what's happening there. Use analogies. (3-4 sentences with personality and code context)"
+    // Check cache first; each model has its own entries, so switching models regenerates explanations
+    const cacheDetails: CacheKeyInput = {
+      title: String(errorDetails.title || '').trim(),
+      culprit: String(errorDetails.culprit || '').trim(),
+      metadata: normalizedMetadata,
+      eventId: errorDetails.eventId,
+      traceHash: errorDetails.traceHash,
+      persona: getPersonaCacheTag(persona),
+      model: `${llmConfig.provider}:${llmConfig.model}`,
+    };
+    const cached = getCachedExplanation(cacheDetails);
+    
+    // Entries written before validation existed may be malformed; those are regenerated
+    const cachedExplanation = cached ? validateExplanation(cached).explanation : null;
+    if (cachedExplanation) {
+      console.log('✅ Using cached AI explanation - no model call needed!');
+      return cached.context ? { ...cachedExplanation, context: cached.context } : cachedExplanation;
     }
-  ],
-  "suggestedFixes": [
-    {
-      "fix": "A specific, actionable solution (not 'check the logs' or 'verify settings' unless truly specific)",
-      "priority": "low" | "medium" | "high",
-      "steps": [
-        "Step 1: Open [specific file] and look for [specific thing]...",
-        "Step 2: Change [specific value] from X to Y because...",
-        "Step 3: Test by [specific action]...",
-        "Make each step feel like a mini-tutorial with confidence-building language"
-      ],
-      "difficulty": "easy" | "medium" | "hard"
+    if (cached) {
+      console.log('⚠️ Cached AI explanation is malformed - regenerating...');
     }
-  ],
-  "preventionTips": [
-    "Specific, actionable tip with personality (e.g., 'Always double-check that merchant exists before creating transactions - think of it like verifying an address before shipping a package')",
-    "Another unique tip with context",
-    "One more memorable tip that shows real understanding"
-  ]
-}
+    
+    console.log('🔄 Cache miss - generating new AI explanation...');
+    
+    const llm = getLLMProvider(llmConfig);
+    const template = renderExplanationPrompt(persona, "");
+    const context = buildErrorContext(errorDetails, llmConfig, estimateTokens(template.system + template.user, llmConfig.model));
 
-GOLDEN RULES FOR EXCEPTIONAL EXPLANATIONS:
-🎯 BE SPECIFIC - Name exact files, tables, fields, functions, LINE NUMBERS
-📍 USE CODE REFERENCES - Always point to specific file:line locations from the stack trace
-✅ BE CLEAR AND DIRECT - Use real paraphrases, NOT abstract metaphors like "music stopped" or "stage where drama unfolded"
-💡 USE CONCRETE LANGUAGE - Explain what actually happened in plain terms
-🎨 USE ANALOGIES SPARINGLY - Only when they genuinely clarify (e.g., "like a library rule" is clear, "where music stopped" is confusing)
-❤️ BE EMPATHETIC - Show you understand frustration
-🔥 BE MEMORABLE - Make them say "Wow, that makes so much sense!" through clarity, not confusion
-⚡ BE ACTIONABLE - Give concrete next steps with exact locations
-📊 USE ALL DATA - Reference breadcrumbs, request context, environment info
-🚫 NEVER BE GENERIC - Avoid phrases like "something went wrong", "there was an issue", "the system encountered an error"
-🚫 NO CONFUSING METAPHORS - Avoid abstract phrases that don't directly relate to the error
+    // System and user prompts come from the persona's template in prompts/explain/
+    const prompt = renderExplanationPrompt(persona, context.text);
 
-CRITICAL: 
-- In "possibleCauses", ALWAYS include the exact file path and line number from the stack trace
-- Use REAL paraphrases - explain what actually happened, not abstract concepts
-- If you use an analogy, make sure it directly relates to the technical issue (e.g., "like trying to add a book to a shelf that doesn't exist" for database foreign key errors)
+    console.log(`🎭 Explaining with the ${persona.name} persona (${prompt.template})`);
+    const messages: LLMMessage[] = [
+      {
+        role: "system",
+        content: prompt.system,
+      },
+      {
+        role: "user",
+        content: prompt.user,
+      },
+    ];
 
-Think: If you were explaining this to your non-technical friend at a coffee shop, what would you say to make them go "Ohhh, I get it now!" with clarity and understanding, not confusion!`;
+    // Validate every reply; on failure, show the model its mistakes and ask again.
+    // With onSection, the first reply is streamed; repair attempts are not (the page keeps what it has)
+    let parsed: ErrorExplanation | null = null;
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS && !parsed; attempt++) {
+      const content = attempt === 1 && options.onSection
+        ? await streamReply(llm, messages, options.onSection)
+        : (await llm.complete({ messages, json: true })).content;
+      const result = content
+        ? parseExplanation(content)
+        : { explanation: null, errors: ["(root): empty reply"], repairs: [] };
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: "You are an exceptionally creative and empathetic AI Error Detective. You explain technical errors with personality, warmth, and memorable analogies - like a brilliant friend who makes complex things crystal clear. Your explanations are NEVER generic or corporate - they're engaging, specific, and make people feel understood. Always respond with valid JSON only.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.9, // Higher temperature for more creative, unique responses
-    });
+      if (result.repairs.length > 0) {
+        console.log(`🔧 Repaired AI explanation from ${llm.name}:`, result.repairs);
+      }
+      parsed = result.explanation;
+      if (!parsed) {
+        console.warn(`⚠️ Invalid AI explanation from ${llm.name} (${llm.model}), attempt ${attempt}/${MAX_ATTEMPTS}:`, result.errors);
+        messages.push(
+          { role: "assistant", content: content || "" },
+          {
+            role: "user",
+            content: `That reply does not match the required JSON format:\n${result.errors.map((error) => `- ${error}`).join("\n")}\n\nReply again with the complete JSON object in the format described above, fixing these problems. JSON only.`,
+          }
+        );
+      }
+    }
 
-    const responseContent = completion.choices[0]?.message?.content;
-    if (!responseContent) {
-      throw new Error("No response from OpenAI");
+    // Invalid output is never cached; the fallback below is returned instead
+    if (!parsed) {
+      throw new Error(`No valid explanation from ${llm.name} (${llm.model}) after ${MAX_ATTEMPTS} attempts`);
     }
 
-    const parsed = JSON.parse(responseContent) as ErrorExplanation;
-    
-    // Save to cache with normalized data (reuse normalizedMetadata from above)
-    saveCachedExplanation(
-      {
-        title: String(errorDetails.title || '').trim(),
-        culprit: String(errorDetails.culprit || '').trim(),
-        metadata: normalizedMetadata,
-      },
-      parsed
-    );
+    // The context report is cached with the explanation, so it is known for cache hits too
+    const explanation: ErrorExplanation = { ...parsed, context: context.report };
+
+    // Save to cache with the same normalized key data
+    saveCachedExplanation(cacheDetails, explanation);
     
-    return parsed;
+    return explanation;
   } catch (error) {
-    console.error("Error explaining error with OpenAI:", error);
+    console.error("Error explaining error with the language model:", error);
     
-    // Fallback explanation if OpenAI fails
+    // Fallback explanation if the model call fails. Kept neutral, since it stands in for every persona
+    const location = errorDetails.culprit || "the error location";
+    const shortTitle = `${errorDetails.title.substring(0, 100)}${errorDetails.title.length > 100 ? '...' : ''}`;
     return {
       overview: errorDetails.title,
-      aiErrorExplanation: `Heads up! Your ${errorDetails.platform || 'application'} just hit a snag. Think of it like a traffic jam in your code - ${errorDetails.title.substring(0, 100)}${errorDetails.title.length > 100 ? '...' : ''}. The good news? We can work through this together. This happened ${errorDetails.count && errorDetails.count > 1 ? `${errorDetails.count} times` : 'recently'}, affecting ${errorDetails.userCount || 'some'} users. Let's dig into what's causing this roadblock.`,
+      aiErrorExplanation: `The ${errorDetails.platform || 'application'} raised an error: ${shortTitle}. It has occurred ${errorDetails.count && errorDetails.count > 1 ? `${errorDetails.count} times` : 'recently'}, affecting ${errorDetails.userCount || 'an unknown number of'} users. No AI analysis is available right now, so this is a generic outline of where to start.`,
       detailedBreakdown: {
-        whatHappened: `Here's the situation: ${errorDetails.title}. Imagine your code tried to do something but hit an unexpected obstacle - like trying to open a door that's suddenly locked. The ${errorDetails.level} level tells us this needs attention${errorDetails.count && errorDetails.count > 10 ? ', especially since it\'s happening frequently' : ''}.`,
-        whereItHappened: errorDetails.culprit ? `The trouble is brewing in ${errorDetails.culprit}. That's your starting point for investigation - think of it as the crime scene where everything went sideways.` : "The exact location is playing hide and seek with us, but we'll track it down through the error details.",
-        whyItHappened: `Root causes can vary, but typically this kind of ${errorDetails.level} error happens when there's a mismatch between what your code expects and what it actually receives. It's like ordering pizza and getting sushi - both are food, but not what you asked for! We'll need to investigate the specific circumstances.`,
-        whenItHappened: `This has been showing up ${errorDetails.firstSeen ? `since ${new Date(errorDetails.firstSeen).toLocaleDateString()}` : 'recently'}, with the most recent occurrence ${errorDetails.lastSeen ? `on ${new Date(errorDetails.lastSeen).toLocaleDateString()}` : 'just now'}. ${errorDetails.count && errorDetails.count > 5 ? 'The frequency suggests this isn\'t a one-off - there\'s a pattern here worth investigating.' : 'Keep an eye on whether this becomes a repeat visitor.'}`,
+        whatHappened: `${errorDetails.title}. The error was reported at ${errorDetails.level} level${errorDetails.count && errorDetails.count > 10 ? ' and occurs frequently' : ''}.`,
+        whereItHappened: errorDetails.culprit ? `Reported in ${errorDetails.culprit}. Start the investigation there.` : "The error report does not include a location; check the stack trace in the error details.",
+        whyItHappened: `The cause cannot be determined without an analysis of the error data. Errors at ${errorDetails.level} level commonly come from unexpected input, configuration problems or failing dependencies.`,
+        whenItHappened: `First seen ${errorDetails.firstSeen ? new Date(errorDetails.firstSeen).toLocaleDateString() : 'recently'}, last seen ${errorDetails.lastSeen ? new Date(errorDetails.lastSeen).toLocaleDateString() : 'recently'}. ${errorDetails.count && errorDetails.count > 5 ? 'It recurs, so it is likely triggered by a specific input or condition.' : 'Monitor whether it recurs.'}`,
       },
       severity: errorDetails.level === "error" || errorDetails.level === "fatal" ? "high" : "medium",
       impact: {
-        userImpact: errorDetails.userCount && errorDetails.userCount > 0 ? `${errorDetails.userCount} user${errorDetails.userCount > 1 ? 's have' : ' has'} bumped into this. They're likely seeing error messages, failed actions, or features that won't cooperate - definitely not the experience you want them to have.` : "Users encountering this will hit a wall trying to use this feature. It's the digital equivalent of a 'Sorry, we're closed' sign when they expect to walk right in.",
-        systemImpact: `Your ${errorDetails.platform || 'application'} is throwing up red flags in ${errorDetails.culprit || 'a key area'}. Think of it like a cog in a machine that's stopped turning - it might affect just this feature, or it could have ripple effects depending on how central this component is to your app.`,
-        businessImpact: errorDetails.count && errorDetails.count > 10 ? "With this many occurrences, it's affecting your user experience and potentially your reputation. Time to roll up those sleeves!" : "While one error won't sink the ship, addressing it quickly shows users you care about quality.",
+        userImpact: errorDetails.userCount && errorDetails.userCount > 0 ? `${errorDetails.userCount} user${errorDetails.userCount > 1 ? 's were' : ' was'} affected. They may have seen an error message or a failed action.` : "Users who reach this code path may see an error message or a failed action.",
+        systemImpact: `The failure is in ${errorDetails.culprit || 'an unidentified component'} of the ${errorDetails.platform || 'application'}. Its wider effect depends on what relies on that component.`,
+        businessImpact: errorDetails.count && errorDetails.count > 10 ? "The number of occurrences suggests a noticeable effect on user experience." : "Limited so far; resolving it early keeps it that way.",
       },
       errorComponents: [
         {
@@ -397,64 +521,64 @@ Think: If you were explaining this to your non-technical friend at a coffee shop
       ],
       possibleCauses: [
         {
-          cause: "Data mismatch - the classic 'expecting an apple, got an orange' scenario",
+          cause: "Unexpected input or data",
           likelihood: "high",
           codeReference: errorDetails.culprit || "See error location above",
-          explanation: `Your code was expecting data in a certain format or with certain values, but what showed up was different. Like planning for 10 guests and 100 people show up - technically both are 'people' but the scale is all wrong. Check ${errorDetails.culprit || 'the error location'} for data validation.`,
+          explanation: `The code received data in a format or with values it does not handle. Check the input validation in ${location}.`,
         },
         {
-          cause: "Configuration hiccup - settings playing hide and seek",
+          cause: "Configuration problem",
           likelihood: "medium",
           codeReference: errorDetails.culprit || "Configuration files",
-          explanation: `Something in your environment variables, config files, or settings isn't quite right. Imagine trying to call someone but having the wrong phone number - the system is there, but you can't connect.`,
+          explanation: "An environment variable, config file or setting may be missing or wrong in this environment.",
         },
         {
-          cause: "External dependency having a bad day",
+          cause: "Failing external dependency",
           likelihood: "medium",
           codeReference: errorDetails.culprit || "External service call",
-          explanation: `If your ${errorDetails.platform || 'app'} relies on databases, APIs, or other services, one of them might be slow, down, or returning unexpected responses. It's like showing up to a meeting and the other person is a no-show.`,
+          explanation: `A database, API or other service the ${errorDetails.platform || 'application'} depends on may be slow, unavailable or returning unexpected responses.`,
         },
       ],
       suggestedFixes: [
         {
-          fix: `Deep dive into ${errorDetails.culprit || 'the error location'} - play detective!`,
+          fix: `Investigate ${location}`,
           priority: "high",
           steps: [
-            `Open your error tracking (Sentry, logs, etc.) and look for this specific error: "${errorDetails.title.substring(0, 60)}${errorDetails.title.length > 60 ? '...' : ''}"`,
-            "Check what data or input was being processed when this happened - look for patterns in user actions or data that trigger it",
-            `Review the code in ${errorDetails.culprit || 'the error location'} - what assumptions is it making about the data it receives?`,
-            "Add defensive checks or validation to handle unexpected cases gracefully"
+            `Find this error in your error tracker or logs: "${errorDetails.title.substring(0, 60)}${errorDetails.title.length > 60 ? '...' : ''}"`,
+            "Check what data or input was being processed when it happened, and look for patterns across occurrences",
+            `Review the assumptions the code in ${location} makes about its input`,
+            "Add validation or error handling for the unexpected case"
           ],
           difficulty: "medium",
         },
         {
-          fix: "Run a full health check on your configuration and dependencies",
+          fix: "Check configuration and dependencies",
           priority: "high",
           steps: [
-            "Double-check all environment variables are set correctly (database URLs, API keys, etc.)",
-            "Verify external services (databases, APIs) are responding and healthy",
+            "Verify environment variables are set correctly (database URLs, API keys, etc.)",
+            "Verify external services (databases, APIs) are reachable and healthy",
             "Test with fresh data to rule out corrupted records or edge cases",
-            "Review recent deployments - did anything change right before this started?"
+            "Review recent deployments for changes made just before the error started"
           ],
           difficulty: "medium",
         },
         {
-          fix: "Set up better monitoring so you catch this faster next time",
+          fix: "Improve monitoring for this error",
           priority: "medium",
           steps: [
-            `Add more detailed logging around ${errorDetails.culprit || 'critical operations'} to capture context when errors occur`,
-            "Set up alerts for this specific error type so you know immediately when it happens",
-            "Create a dashboard to track error frequency and patterns",
-            "Consider adding user-friendly error messages that guide users on what to do when this happens"
+            `Add logging around ${errorDetails.culprit || 'critical operations'} to capture context when errors occur`,
+            "Set up alerts for this error type",
+            "Track error frequency and patterns on a dashboard",
+            "Show users a clear error message that tells them what to do next"
           ],
           difficulty: "easy",
         },
       ],
       preventionTips: [
-        `Always validate data before processing it - think 'trust but verify'. Add checks for data types, required fields, and value ranges before your code tries to use them.`,
-        `Build in graceful fallbacks: If something fails, have a Plan B so users see a helpful message instead of a crash. Like having a backup battery for your flashlight.`,
-        `Test with real-world messy data, not just perfect test cases. Users will find creative ways to break things - anticipate the unexpected!`,
-        `Keep your dependencies and libraries updated, but test changes in a safe environment first. Outdated packages can have known bugs that are already fixed in newer versions.`
+        "Validate data types, required fields and value ranges before using input.",
+        "Handle failures of external calls explicitly so users get an error message instead of a crash.",
+        "Test with realistic, imperfect data in addition to ideal test cases.",
+        "Keep dependencies updated, and test upgrades in a staging environment first."
       ],
     };
   }
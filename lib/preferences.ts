@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import { getDefaultPersonaId, isPersonaId, type PersonaId } from './prompts/personas';
+
+const CACHE_DIR = path.join(process.cwd(), '.cache');
+const PREFERENCES_FILE = path.join(CACHE_DIR, 'user-preferences.json');
+
+/**
+ * Per-user settings, keyed by the session's user ID
+ */
+export interface UserPreferences {
+    persona?: PersonaId;            // Default explanation persona
+    updatedAt?: string;
+}
+
+// Read preferences file
+function readPreferences(): Record<string, UserPreferences> {
+    try {
+        if (fs.existsSync(PREFERENCES_FILE)) {
+            return JSON.parse(fs.readFileSync(PREFERENCES_FILE, 'utf-8'));
+        }
+    } catch (error) {
+        console.error('Error reading user preferences:', error);
+    }
+    return {};
+}
+
+// Write preferences file
+function writePreferences(preferences: Record<string, UserPreferences>) {
+    try {
+        if (!fs.existsSync(CACHE_DIR)) {
+            fs.mkdirSync(CACHE_DIR, { recursive: true });
+        }
+        fs.writeFileSync(PREFERENCES_FILE, JSON.stringify(preferences, null, 2));
+    } catch (error) {
+        console.error('Error writing user preferences:', error);
+    }
+}
+
+/**
+ * Stored preferences of one user (empty when they have not saved any)
+ */
+export function getUserPreferences(userId: string): UserPreferences {
+    const preferences = readPreferences()[userId] || {};
+    // Personas can be removed between deploys; forget ones that no longer exist
+    return isPersonaId(preferences.persona) ? preferences : { ...preferences, persona: undefined };
+}
+
+/**
+ * Merge and store preferences for one user
+ * @returns The stored preferences
+ */
+export function saveUserPreferences(userId: string, update: Omit<UserPreferences, 'updatedAt'>): UserPreferences {
+    const preferences = readPreferences();
+    const saved = { ...preferences[userId], ...update, updatedAt: new Date().toISOString() };
+    preferences[userId] = saved;
+    writePreferences(preferences);
+    return saved;
+}
+
+/**
+ * Persona for an explanation: the one asked for, else the user's default, else the environment default
+ * @param requested Persona ID from the request, if any
+ * @param userId Session user ID
+ */
+export function resolvePersonaId(requested: unknown, userId?: string): PersonaId {
+    if (isPersonaId(requested)) return requested;
+    const saved = userId ? getUserPreferences(userId).persona : undefined;
+    return saved || getDefaultPersonaId();
+}
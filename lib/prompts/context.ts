@@ -0,0 +1,196 @@
+import { estimateTokens } from '../llm/tokens';
+
+/**
+ * Priorities of the parts of an error context; lower numbers are kept first when the budget is tight.
+ * Required parts (header, message, occurrence pattern) are never dropped, but only `fixed` ones skip the budget.
+ */
+export const CONTEXT_PRIORITY = {
+    required: 0,
+    frames: 1,                      // In-app frames with their code
+    exception: 2,                   // Exception types and values
+    source: 3,                      // Enclosing functions read from the local checkout
+    breadcrumbs: 4,
+    event: 5,                       // Request, runtime, browser and user of the latest event
+    tags: 6,
+    recentEvents: 7,
+    metadata: 8,                    // Raw issue metadata
+} as const;
+
+const DEFAULT_BUDGET = 8000;        // Tokens of error context; PROMPT_TOKEN_BUDGET overrides
+const MIN_SECTION_TOKENS = 60;      // Below this, a cut section says too little to be worth sending
+const MIN_LINE_CHARS = 80;
+const SHORT_SECTION_TOKENS = 150;   // Cut sections leave room for lower-priority sections this short
+const SAFETY_MARGIN = 256;          // Estimation error and message framing
+const REQUIRED_SHARE = 0.5;         // Most of the budget one required section may take, so a huge message leaves room for frames
+
+/**
+ * One part of the error context
+ */
+export interface ContextSection {
+    id: string;
+    label: string;                  // For the report, e.g. "Breadcrumbs"
+    priority: number;               // See CONTEXT_PRIORITY
+    heading?: string;               // Rendered as "=== HEADING ==="
+    body: string;
+    note?: string;                  // Instruction after the body; sent whenever any of the body is
+    trim?: 'start' | 'end';         // Which end loses lines when the section is cut (default: end)
+    fixed?: boolean;                // Sent whole regardless of the budget; only for short, bounded header fields
+}
+
+export interface ContextSectionReport {
+    id: string;
+    label: string;
+    priority: number;
+    tokens: number;                 // Estimated tokens of the whole section
+    sentTokens: number;
+    status: 'sent' | 'truncated' | 'dropped';
+}
+
+/**
+ * What the error context contained and what had to go to fit the budget.
+ * Stored with the explanation so a thin answer can be traced back to a tight budget.
+ */
+export interface PromptContextReport {
+    model: string;
+    budget: number;                 // Tokens available for the error context
+    tokens: number;                 // Estimated tokens sent
+    sections: ContextSectionReport[];
+    dropped: string[];              // Labels of sections left out entirely
+    truncated: string[];            // Labels of sections that were cut
+}
+
+export interface PromptContext {
+    text: string;
+    report: PromptContextReport;
+}
+
+/**
+ * Tokens available for the error context: PROMPT_TOKEN_BUDGET (default 8000), capped by what the
+ * model's context window leaves after the reply limit and the rest of the prompt
+ * @param config Context window and reply limit of the model
+ * @param templateTokens Tokens of the system and user prompts without the error context
+ */
+export function getPromptTokenBudget(config: { contextWindow: number; maxTokens: number }, templateTokens: number): number {
+    const raw = (process.env.PROMPT_TOKEN_BUDGET || '').trim();
+    let configured = DEFAULT_BUDGET;
+    if (raw) {
+        const value = Number(raw);
+        if (Number.isFinite(value) && value > 0) {
+            configured = value;
+        } else {
+            console.warn(`⚠️ Ignoring PROMPT_TOKEN_BUDGET="${raw}": not a positive number`);
+        }
+    }
+
+    const available = config.contextWindow - config.maxTokens - templateTokens - SAFETY_MARGIN;
+    return Math.max(0, Math.min(configured, available));
+}
+
+function render(section: ContextSection, body: string): string {
+    const heading = section.heading ? `=== ${section.heading} ===\n` : '';
+    const note = section.note ? `${section.note}\n` : '';
+    return `${heading}${body.replace(/\n+$/, '')}\n${note}`;
+}
+
+// Longest cut of the body that fits, in whole lines from the kept end, with a marker for what was left out
+function cutSection(section: ContextSection, available: number, model: string): string | null {
+    const lines = section.body.replace(/\n+$/, '').split('\n');
+    const fromStart = section.trim === 'start';
+    const marker = (omitted: number) => `… (${omitted} more line${omitted === 1 ? '' : 's'} left out to fit the prompt budget)`;
+
+    let used = estimateTokens(render(section, marker(lines.length)), model);
+    const kept: string[] = [];
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[fromStart ? lines.length - 1 - index : index];
+        const cost = estimateTokens(`${line}\n`, model);
+        if (used + cost > available) {
+            // A single huge first line (minified code, a long JSON value) is clipped rather than lost
+            const chars = Math.floor((line.length * (available - used)) / cost) - 1;
+            if (kept.length === 0 && chars >= MIN_LINE_CHARS) {
+                kept.push(`${line.slice(0, chars)}…`);
+            }
+            break;
+        }
+        used += cost;
+        kept.push(line);
+    }
+    if (kept.length === 0) return null;
+
+    const omitted = marker(lines.length - kept.length);
+    const body = fromStart ? [omitted, ...kept.reverse()] : [...kept, omitted];
+    return render(section, body.join('\n'));
+}
+
+/**
+ * Fit the sections into the token budget. Sections are admitted by priority: each is sent whole if it fits,
+ * cut to whole lines if a useful part fits, or dropped. Fixed sections are always sent whole; other required
+ * sections are cut to at most half of what is left, but never dropped while any of them fits.
+ * The text keeps the order the sections were given in.
+ * @param sections Sections in prompt order
+ * @param options Token budget and the model the tokens are estimated for
+ */
+export function buildPromptContext(sections: ContextSection[], options: { budget: number; model: string }): PromptContext {
+    const { budget, model } = options;
+    const rendered = new Map<ContextSection, string>();
+    const reports = new Map<ContextSection, ContextSectionReport>();
+
+    let remaining = budget;
+    const byPriority = sections
+        .filter((section) => section.body.trim())
+        .map((section, index) => {
+            const full = render(section, section.body);
+            return { section, index, full, tokens: estimateTokens(full, model) };
+        })
+        // Fixed sections first, so the budget left for the others is known
+        .sort((a, b) => Number(!!b.section.fixed) - Number(!!a.section.fixed) || a.section.priority - b.section.priority || a.index - b.index);
+
+    byPriority.forEach(({ section, full, tokens }, position) => {
+        let text: string | null = null;
+        let status: ContextSectionReport['status'] = 'dropped';
+
+        if (section.fixed) {
+            text = full;
+            status = 'sent';
+        } else if (section.priority === CONTEXT_PRIORITY.required) {
+            const available = Math.floor(Math.max(0, remaining) * REQUIRED_SHARE);
+            if (tokens <= available) {
+                text = full;
+                status = 'sent';
+            } else {
+                text = cutSection(section, available, model);
+                status = text ? 'truncated' : 'dropped';
+            }
+        } else if (tokens <= remaining) {
+            text = full;
+            status = 'sent';
+        } else {
+            // A few more lines of a long section are worth less than a short section sent whole
+            const reserved = byPriority.slice(position + 1)
+                .filter((later) => later.tokens <= SHORT_SECTION_TOKENS)
+                .reduce((sum, later) => sum + later.tokens, 0);
+            const available = remaining - Math.min(reserved, Math.floor(remaining / 2));
+            if (available >= MIN_SECTION_TOKENS) {
+                text = cutSection(section, available, model);
+                status = text ? 'truncated' : 'dropped';
+            }
+        }
+
+        const sentTokens = text ? estimateTokens(text, model) : 0;
+        remaining -= sentTokens;
+        if (text) rendered.set(section, text);
+        reports.set(section, { id: section.id, label: section.label, priority: section.priority, tokens, sentTokens, status });
+    });
+
+    const sectionReports = sections.flatMap((section) => reports.get(section) || []);
+    return {
+        text: sections.flatMap((section) => rendered.get(section) || []).join('\n'),
+        report: {
+            model,
+            budget,
+            tokens: sectionReports.reduce((sum, section) => sum + section.sentTokens, 0),
+            sections: sectionReports,
+            dropped: sectionReports.filter((section) => section.status === 'dropped').map((section) => section.label),
+            truncated: sectionReports.filter((section) => section.status === 'truncated').map((section) => section.label),
+        },
+    };
+}
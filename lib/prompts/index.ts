@@ -0,0 +1,6 @@
+export { DEFAULT_PERSONA, getDefaultPersonaId, getPersona, getPersonaCacheTag, isPersonaId, listPersonas } from './personas';
+export type { Persona, PersonaId } from './personas';
+export { parsePromptTemplate, renderChatPrompt, renderExplanationPrompt } from './templates';
+export type { PromptTemplate, RenderedPrompt } from './templates';
+export { buildPromptContext, CONTEXT_PRIORITY, getPromptTokenBudget } from './context';
+export type { ContextSection, ContextSectionReport, PromptContext, PromptContextReport } from './context';
@@ -0,0 +1,79 @@
+/**
+ * Explanation personas: the voice and level of detail of an AI explanation.
+ *
+ * Each persona points at a versioned prompt template in `prompts/explain/`. To change a prompt,
+ * add the next version of the file and point `template` at it; the version is part of the cache key,
+ * so explanations written with the old prompt are not served for the new one.
+ */
+export type PersonaId = 'friendly-explainer' | 'concise-engineer' | 'support-agent';
+
+export interface Persona {
+    id: PersonaId;
+    name: string;
+    description: string;
+    template: string;               // File name in prompts/explain/, e.g. "concise-engineer.v1.md"
+    version: number;                // Parsed from the file name
+}
+
+const PERSONAS: Record<PersonaId, { name: string; description: string; template: string }> = {
+    'friendly-explainer': {
+        name: 'Friendly explainer',
+        description: 'Warm and conversational, with analogies where they help',
+        template: 'friendly-explainer.v1.md',
+    },
+    'concise-engineer': {
+        name: 'Concise engineer',
+        description: 'Terse technical analysis for the engineer fixing it',
+        template: 'concise-engineer.v1.md',
+    },
+    'support-agent': {
+        name: 'Support agent',
+        description: 'Plain language: what customers saw, workarounds and when to escalate',
+        template: 'support-agent.v1.md',
+    },
+};
+
+export const DEFAULT_PERSONA: PersonaId = 'friendly-explainer';
+
+export function isPersonaId(value: unknown): value is PersonaId {
+    return typeof value === 'string' && value in PERSONAS;
+}
+
+/**
+ * Look up a persona
+ * @param id Persona ID; unknown or missing IDs fall back to the default persona
+ */
+export function getPersona(id?: string | null): Persona {
+    const personaId = isPersonaId(id) ? id : DEFAULT_PERSONA;
+    const { template, ...rest } = PERSONAS[personaId];
+    const version = Number(template.match(/\.v(\d+)\.\w+$/)?.[1] || 1);
+    return { id: personaId, ...rest, template, version };
+}
+
+/**
+ * All personas, in display order
+ */
+export function listPersonas(): Persona[] {
+    return (Object.keys(PERSONAS) as PersonaId[]).map((id) => getPersona(id));
+}
+
+/**
+ * Persona to use when the user has not picked one.
+ * `EXPLANATION_PERSONA` sets it per environment; defaults to `friendly-explainer`.
+ */
+export function getDefaultPersonaId(): PersonaId {
+    const configured = (process.env.EXPLANATION_PERSONA || '').trim();
+    if (!configured) return DEFAULT_PERSONA;
+    if (!isPersonaId(configured)) {
+        console.warn(`⚠️ Unknown EXPLANATION_PERSONA "${configured}", using ${DEFAULT_PERSONA}`);
+        return DEFAULT_PERSONA;
+    }
+    return configured;
+}
+
+/**
+ * Cache key part for explanations written by a persona, e.g. "concise-engineer@v1"
+ */
+export function getPersonaCacheTag(persona: Persona): string {
+    return `${persona.id}@v${persona.version}`;
+}
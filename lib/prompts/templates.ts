@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import type { Persona } from './personas';
+
+const PROMPTS_DIR = path.join(process.cwd(), 'prompts', 'explain');
+const CHAT_PROMPTS_DIR = path.join(process.cwd(), 'prompts', 'chat');
+const RESPONSE_FORMAT_TEMPLATE = 'response-format.v1.md';
+const CHAT_TEMPLATE = 'follow-up.v1.md';
+
+/**
+ * A prompt template split into its `# System` and `# User` sections
+ */
+export interface PromptTemplate {
+    system: string;
+    user: string;
+}
+
+export interface RenderedPrompt extends PromptTemplate {
+    template: string;               // File the prompt came from
+}
+
+// Templates only change with a deploy, so each file is read once per process
+const templates = new Map<string, string>();
+
+function readTemplateFile(file: string, dir = PROMPTS_DIR): string {
+    const filePath = path.join(dir, file);
+    let content = templates.get(filePath);
+    if (content === undefined) {
+        content = fs.readFileSync(filePath, 'utf-8').replace(/\r\n?/g, '\n');
+        templates.set(filePath, content);
+    }
+    return content;
+}
+
+/**
+ * Split a template file into system and user prompts
+ * @throws Error if either section is missing
+ */
+export function parsePromptTemplate(content: string, file = 'template'): PromptTemplate {
+    const sections: Partial<Record<'system' | 'user', string>> = {};
+    const headings = [...content.matchAll(/^# (System|User)[ \t]*$/gm)];
+
+    headings.forEach((heading, index) => {
+        const start = heading.index! + heading[0].length;
+        const end = index + 1 < headings.length ? headings[index + 1].index! : content.length;
+        sections[heading[1].toLowerCase() as 'system' | 'user'] = content.slice(start, end).trim();
+    });
+
+    if (!sections.system || !sections.user) {
+        throw new Error(`Prompt template ${file} needs a "# System" and a "# User" section`);
+    }
+    return { system: sections.system, user: sections.user };
+}
+
+// Replace {{name}} placeholders; a placeholder without a value is a broken template
+function fill(text: string, values: Record<string, string>, file: string): string {
+    return text.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => {
+        if (!(name in values)) {
+            throw new Error(`Prompt template ${file} uses unknown placeholder ${placeholder}`);
+        }
+        return values[name];
+    });
+}
+
+/**
+ * Build the system and user prompts for a persona.
+ * Templates can use `{{errorContext}}` and `{{responseFormat}}` (the shared JSON format description).
+ * @param persona Persona whose template to use
+ * @param errorContext The error information section of the prompt
+ */
+export function renderExplanationPrompt(persona: Persona, errorContext: string): RenderedPrompt {
+    const template = parsePromptTemplate(readTemplateFile(persona.template), persona.template);
+    const values = {
+        errorContext,
+        responseFormat: readTemplateFile(RESPONSE_FORMAT_TEMPLATE).trim(),
+    };
+
+    return {
+        system: fill(template.system, values, persona.template),
+        user: fill(template.user, values, persona.template),
+        template: persona.template,
+    };
+}
+
+/**
+ * Build the prompts for a follow-up question about an explained error (`prompts/chat/`).
+ * The system prompt carries the grounding; earlier turns of the conversation go between it and the question.
+ * @param errorContext The error information section, as for explanations
+ * @param explanation The explanation the user has read, as text
+ * @param question The new question
+ */
+export function renderChatPrompt(errorContext: string, explanation: string, question: string): RenderedPrompt {
+    const template = parsePromptTemplate(readTemplateFile(CHAT_TEMPLATE, CHAT_PROMPTS_DIR), CHAT_TEMPLATE);
+    const values = { errorContext, explanation, question };
+
+    return {
+        system: fill(template.system, values, CHAT_TEMPLATE),
+        user: fill(template.user, values, CHAT_TEMPLATE),
+        template: CHAT_TEMPLATE,
+    };
+}
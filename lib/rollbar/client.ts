@@ -0,0 +1,134 @@
+import type { RollbarTarget } from './config';
+import type { RollbarEnvelope, RollbarInstance, RollbarInstancesPage, RollbarItem, RollbarItemsPage } from './types';
+
+/**
+ * Uniform error for any failed Rollbar API call, shaped like SentryApiError so routes can report either.
+ * `status` is 0 when the request never got a response (network error, DNS, timeout).
+ */
+export class RollbarApiError extends Error {
+    status: number;
+    statusText: string;
+    url: string;
+    details: string;
+    retryAfter?: number;            // Seconds until the request may be retried (429 only)
+
+    constructor(init: { status: number; statusText: string; url: string; details: string; retryAfter?: number }) {
+        super(`Rollbar API error: ${init.status} ${init.statusText}`.trim());
+        this.name = 'RollbarApiError';
+        this.status = init.status;
+        this.statusText = init.statusText;
+        this.url = init.url;
+        this.details = init.details;
+        this.retryAfter = init.retryAfter;
+    }
+
+    get isRateLimited(): boolean {
+        return this.status === 429;
+    }
+
+    get isNotFound(): boolean {
+        return this.status === 404;
+    }
+}
+
+export interface RollbarRequestOptions {
+    revalidate?: number | false;    // Next.js fetch cache lifetime in seconds
+    tags?: string[];                // Next.js cache tags
+}
+
+// Rollbar item and occurrence IDs are numeric
+const ROLLBAR_ID = /^\d+$/;
+
+// An item or occurrence ID as a path segment. IDs come from route params, so anything else is refused with a 400;
+// callers are async so it rejects like any other failed request
+function idSegment(value: string): string {
+    if (!ROLLBAR_ID.test(value)) {
+        throw new RollbarApiError({ status: 400, statusText: 'Bad Request', url: '', details: `Invalid Rollbar ID "${value}"` });
+    }
+    return encodeURIComponent(value);
+}
+
+// Seconds until Rollbar's rate limit window resets (`X-Rate-Limit-Reset` is a Unix timestamp)
+function retryAfterSeconds(headers: Headers): number {
+    const reset = Number(headers.get('x-rate-limit-reset'));
+    return Number.isFinite(reset) && reset > 0 ? Math.max(1, Math.ceil(reset - Date.now() / 1000)) : 60;
+}
+
+/**
+ * Call the Rollbar API and unwrap its `{ err, result }` envelope
+ * @param target Rollbar connection
+ * @param apiPath Path below /api/1, including any query string
+ * @param options Cache lifetime and tags
+ * @returns The `result` field of the response
+ * @throws RollbarApiError for any non-2xx response, `err: 1` body or network failure
+ */
+export async function rollbarFetch<T>(target: RollbarTarget, apiPath: string, options: RollbarRequestOptions = {}): Promise<T> {
+    const url = `${target.apiUrl}/api/1${apiPath.startsWith('/') ? apiPath : `/${apiPath}`}`;
+
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            headers: {
+                'X-Rollbar-Access-Token': target.accessToken,
+                Accept: 'application/json',
+            },
+            next: { revalidate: options.revalidate ?? 60, tags: options.tags },
+        });
+    } catch (error) {
+        throw new RollbarApiError({
+            status: 0,
+            statusText: 'Network error',
+            url,
+            details: error instanceof Error ? error.message : String(error),
+        });
+    }
+
+    const text = await response.text().catch(() => '');
+    let body: RollbarEnvelope<T> | null = null;
+    try {
+        body = text ? JSON.parse(text) : null;
+    } catch {
+        body = null;
+    }
+
+    if (!response.ok || !body || body.err) {
+        throw new RollbarApiError({
+            status: response.ok ? 502 : response.status,
+            statusText: response.ok ? 'Invalid response' : response.statusText,
+            url,
+            details: body?.message || text || 'No error details available',
+            retryAfter: response.status === 429 ? retryAfterSeconds(response.headers) : undefined,
+        });
+    }
+
+    return body.result;
+}
+
+/**
+ * List one page (up to 100) of a project's items
+ * @param params Rollbar filters (status, level, environment, page)
+ */
+export function listItems(target: RollbarTarget, params: URLSearchParams, options?: RollbarRequestOptions) {
+    return rollbarFetch<RollbarItemsPage>(target, `/items/?${params}`, options);
+}
+
+/**
+ * Fetch an item by its (global) ID
+ */
+export async function getItem(target: RollbarTarget, itemId: string, options?: RollbarRequestOptions) {
+    return rollbarFetch<RollbarItem>(target, `/item/${idSegment(itemId)}/`, options);
+}
+
+/**
+ * List an item's most recent occurrences, newest first
+ */
+export async function listItemInstances(target: RollbarTarget, itemId: string, options?: RollbarRequestOptions) {
+    return rollbarFetch<RollbarInstancesPage>(target, `/item/${idSegment(itemId)}/instances/`, options);
+}
+
+/**
+ * Fetch a single occurrence by ID
+ */
+export async function getInstance(target: RollbarTarget, instanceId: string, options?: RollbarRequestOptions) {
+    return rollbarFetch<RollbarInstance>(target, `/instance/${idSegment(instanceId)}/`, options);
+}
@@ -0,0 +1,107 @@
+import { PROJECT_COLORS, isProjectColor, type ProjectInfo } from '@/lib/utils/projects';
+
+const DEFAULT_API_URL = 'https://api.rollbar.com';
+
+/**
+ * A Rollbar project. Rollbar access tokens are per project, so each entry names
+ * the environment variable holding its read token.
+ */
+export interface RollbarProject extends ProjectInfo {
+    accessTokenEnv?: string;
+    sourceRoot?: string;        // Local checkout the explainer reads frame source from
+    sourceMapsDir?: string;     // Directory of .map files for minified frontend bundles
+}
+
+/**
+ * Where and how to reach the Rollbar API for a project
+ */
+export interface RollbarTarget {
+    apiUrl: string;             // https://api.rollbar.com unless ROLLBAR_API_URL points elsewhere
+    accessToken: string;        // Project access token with `read` scope
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Normalize one raw ROLLBAR_PROJECTS entry, filling in defaults for optional fields
+function normalizeProject(raw: unknown, index: number): RollbarProject | null {
+    const entry = (typeof raw === 'string' ? { slug: raw } : raw || {}) as Record<string, unknown>;
+
+    const slug = text(entry.slug);
+    if (!slug) {
+        console.warn(`⚠️ Skipping Rollbar project entry #${index + 1}: missing "slug"`);
+        return null;
+    }
+
+    const project: RollbarProject = {
+        slug,
+        name: text(entry.name) || slug,
+        category: text(entry.category).toLowerCase() || 'other',
+        color: isProjectColor(entry.color) ? entry.color : PROJECT_COLORS[(index + 3) % PROJECT_COLORS.length],
+    };
+    if (text(entry.accessTokenEnv)) project.accessTokenEnv = text(entry.accessTokenEnv);
+    if (text(entry.sourceRoot)) project.sourceRoot = text(entry.sourceRoot);
+    if (text(entry.sourceMapsDir)) project.sourceMapsDir = text(entry.sourceMapsDir);
+
+    return project;
+}
+
+/**
+ * Load the Rollbar projects.
+ *
+ * Sources, in order of precedence:
+ * 1. `ROLLBAR_PROJECTS` - inline JSON array of `{ slug, name, category, color, accessTokenEnv, sourceRoot, sourceMapsDir }`
+ * 2. `ROLLBAR_ACCESS_TOKEN` - a single project named by `ROLLBAR_PROJECT` (defaults to "rollbar")
+ *
+ * @returns Configured projects, in configuration order
+ */
+export function getRollbarProjects(): RollbarProject[] {
+    const inline = process.env.ROLLBAR_PROJECTS;
+    if (inline && inline.trim()) {
+        try {
+            const parsed = JSON.parse(inline);
+            if (!Array.isArray(parsed)) {
+                console.error('❌ ROLLBAR_PROJECTS must be a JSON array');
+                return [];
+            }
+            return parsed
+                .map((entry, index) => normalizeProject(entry, index))
+                .filter((project): project is RollbarProject => project !== null);
+        } catch (error) {
+            console.error('❌ Error parsing ROLLBAR_PROJECTS:', error);
+            return [];
+        }
+    }
+
+    if (process.env.ROLLBAR_ACCESS_TOKEN) {
+        const slug = process.env.ROLLBAR_PROJECT || 'rollbar';
+        return [{ slug, name: slug, category: 'other', color: 'red' }];
+    }
+
+    return [];
+}
+
+/**
+ * Find a configured Rollbar project by slug
+ * @param slug Project slug
+ * @param projects Projects to search (defaults to the loaded configuration)
+ * @returns The project, or undefined if it is not configured
+ */
+export function findRollbarProject(slug: string | undefined, projects: RollbarProject[] = getRollbarProjects()): RollbarProject | undefined {
+    if (!slug) return undefined;
+    return projects.find((project) => project.slug === slug);
+}
+
+/**
+ * Resolve the Rollbar connection for a project
+ * @param project Configured project
+ * @returns The target, or null if no access token is set for it
+ */
+export function getRollbarTarget(project: RollbarProject): RollbarTarget | null {
+    const accessToken = (project.accessTokenEnv ? process.env[project.accessTokenEnv] : undefined) || process.env.ROLLBAR_ACCESS_TOKEN || '';
+    if (!accessToken) {
+        return null;
+    }
+
+    const apiUrl = (process.env.ROLLBAR_API_URL || DEFAULT_API_URL).trim().replace(/\/+$/, '').replace(/\/api\/1$/, '');
+    return { apiUrl, accessToken };
+}
@@ -0,0 +1,192 @@
+import { toSourceIssueId } from '@/lib/sources/ids';
+import type {
+    SentryBreadcrumb,
+    SentryEvent,
+    SentryEventEntry,
+    SentryExceptionValue,
+    SentryIssue,
+    SentryStackFrame,
+    SentryTag,
+} from '@/lib/sentry/types';
+import type { ProjectInfo } from '@/lib/utils/projects';
+import type { RollbarFrame, RollbarInstance, RollbarItem, RollbarLevel, RollbarTrace } from './types';
+
+/**
+ * Pure functions that turn recorded Rollbar API results into the common (Sentry-shaped) model.
+ * No network or server-only imports, so they can be exercised directly against fixtures.
+ */
+
+const NUMERIC_LEVELS: Record<number, string> = { 10: 'debug', 20: 'info', 30: 'warning', 40: 'error', 50: 'fatal' };
+
+const ITEM_STATUSES: Record<string, string> = {
+    active: 'unresolved',
+    resolved: 'resolved',
+    muted: 'ignored',
+    archived: 'ignored',
+};
+
+const isoTime = (seconds?: number) => (seconds ? new Date(seconds * 1000).toISOString() : undefined);
+
+/**
+ * Map a Rollbar level to Sentry's level names ("critical" becomes "fatal")
+ */
+export function normalizeRollbarLevel(level: RollbarLevel | undefined): string {
+    if (typeof level === 'number') return NUMERIC_LEVELS[level] || 'error';
+    if (level === 'critical') return 'fatal';
+    return level || 'error';
+}
+
+function toFrame(frame: RollbarFrame): SentryStackFrame {
+    return {
+        filename: frame.filename || null,
+        function: frame.method || null,
+        lineNo: frame.lineno ?? null,
+        colNo: frame.colno ?? null,
+        context_line: frame.code,
+        pre_context: frame.context?.pre,
+        post_context: frame.context?.post,
+    };
+}
+
+function toException(trace: RollbarTrace): SentryExceptionValue {
+    return {
+        type: trace.exception?.class || null,
+        value: trace.exception?.message || null,
+        stacktrace: { frames: (trace.frames || []).map(toFrame) },
+    };
+}
+
+// Rollbar lists chained exceptions newest first; Sentry lists the cause first and the raised exception last
+function toExceptions(instance: RollbarInstance): SentryExceptionValue[] {
+    const body = instance.data.body;
+    if (body?.trace_chain?.length) return body.trace_chain.slice().reverse().map(toException);
+    if (body?.trace) return [toException(body.trace)];
+    return [];
+}
+
+function toBreadcrumbs(instance: RollbarInstance): SentryBreadcrumb[] {
+    return (instance.data.body?.telemetry || []).map((item) => {
+        const body = item.body || {};
+        const message = typeof body.message === 'string'
+            ? body.message
+            : body.url ? `${body.method || 'GET'} ${body.url}${body.status_code ? ` [${body.status_code}]` : ''}` : null;
+        return {
+            timestamp: item.timestamp_ms ? new Date(item.timestamp_ms).toISOString() : undefined,
+            type: item.type === 'network' ? 'http' : item.type === 'navigation' ? 'navigation' : 'default',
+            category: item.type || null,
+            level: item.level,
+            message,
+            data: body,
+        };
+    });
+}
+
+function toTags(instance: RollbarInstance): SentryTag[] {
+    const data = instance.data;
+    const tags: Array<[string, string | undefined]> = [
+        ['environment', data.environment],
+        ['level', data.level === undefined ? undefined : normalizeRollbarLevel(data.level)],
+        ['release', data.code_version || data.server?.code_version || data.client?.javascript?.code_version],
+        ['server_name', data.server?.host],
+        ['browser', data.client?.javascript?.browser],
+        ['url', data.request?.url],
+        ['framework', data.framework],
+    ];
+    return tags
+        .filter((tag): tag is [string, string] => !!tag[1])
+        .map(([key, value]) => ({ key, value }));
+}
+
+/**
+ * Describe where an occurrence was raised, like Sentry's culprit (`function (file)`)
+ */
+export function rollbarCulprit(instance: RollbarInstance): string {
+    const exceptions = toExceptions(instance);
+    const frames = exceptions[exceptions.length - 1]?.stacktrace?.frames || [];
+    const top = frames[frames.length - 1];
+    if (top) return `${top.function || 'anonymous'} (${top.filename || 'unknown'})`;
+    return instance.data.context || '';
+}
+
+/**
+ * Convert a Rollbar item into the common issue model
+ * @param item Result of GET /item/{id} or one entry of GET /items
+ * @param project Project the item belongs to
+ */
+export function rollbarItemToIssue(item: RollbarItem, project: ProjectInfo): SentryIssue {
+    return {
+        id: toSourceIssueId('rollbar', item.id),
+        shortId: `#${item.counter}`,
+        title: item.title,
+        culprit: '',
+        level: normalizeRollbarLevel(item.level),
+        status: ITEM_STATUSES[item.status] || item.status,
+        count: item.total_occurrences || 0,
+        userCount: item.unique_occurrences || 0,
+        firstSeen: isoTime(item.first_occurrence_timestamp) || new Date().toISOString(),
+        lastSeen: isoTime(item.last_occurrence_timestamp) || new Date().toISOString(),
+        platform: item.platform || '',
+        type: 'error',
+        project: { id: String(item.project_id), slug: project.slug, name: project.name },
+        metadata: { title: item.title },
+        tags: item.environment ? [{ key: 'environment', value: item.environment }] : [],
+    };
+}
+
+/**
+ * Convert a Rollbar occurrence into a full event (entries, tags, user and contexts)
+ * @param instance Result of GET /instance/{id} or one entry of GET /item/{id}/instances
+ * @param issueId Dashboard issue ID to record as the event's group
+ */
+export function rollbarInstanceToEvent(instance: RollbarInstance, issueId?: string): SentryEvent {
+    const data = instance.data;
+    const entries: SentryEventEntry[] = [];
+
+    const exceptions = toExceptions(instance);
+    if (exceptions.length > 0) {
+        entries.push({ type: 'exception', data: { values: exceptions } });
+    }
+    if (data.body?.message?.body) {
+        entries.push({ type: 'message', data: { formatted: data.body.message.body } });
+    }
+    const breadcrumbs = toBreadcrumbs(instance);
+    if (breadcrumbs.length > 0) {
+        entries.push({ type: 'breadcrumbs', data: { values: breadcrumbs } });
+    }
+    if (data.request) {
+        const request = data.request;
+        entries.push({
+            type: 'request',
+            data: {
+                url: request.url,
+                method: request.method || null,
+                query: request.query_string || Object.entries(request.GET || {}),
+                headers: Object.entries(request.headers || {}),
+                data: request.POST && Object.keys(request.POST).length > 0 ? request.POST : request.body,
+            },
+        });
+    }
+
+    const raised = exceptions[exceptions.length - 1];
+    const person = data.person;
+    const user = person || data.request?.user_ip
+        ? { id: person?.id, username: person?.username, email: person?.email, ip_address: data.request?.user_ip }
+        : null;
+    const runtime = data.language || data.platform;
+
+    return {
+        id: String(instance.id),
+        eventID: String(instance.id),
+        groupID: issueId,
+        title: raised ? `${raised.type}: ${raised.value}` : data.body?.message?.body,
+        message: data.body?.message?.body,
+        culprit: rollbarCulprit(instance),
+        metadata: raised ? { type: raised.type || undefined, value: raised.value || undefined } : undefined,
+        platform: data.language || data.platform,
+        dateCreated: isoTime(instance.timestamp),
+        user,
+        tags: toTags(instance),
+        entries,
+        contexts: runtime ? { runtime: { name: runtime } } : {},
+    };
+}
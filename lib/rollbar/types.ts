@@ -0,0 +1,117 @@
+/**
+ * Response shapes for the parts of the Rollbar API (/api/1) this app uses.
+ * Every response is wrapped in `{ err, result }`; only the fields we read are typed.
+ */
+
+export interface RollbarEnvelope<T> {
+    err: number;                // 0 on success
+    message?: string;           // Set when err is 1
+    result: T;
+}
+
+export type RollbarItemStatus = 'active' | 'resolved' | 'muted' | 'archived';
+
+/**
+ * Rollbar sends levels as names on items and as numbers in some older payloads
+ * (10 debug, 20 info, 30 warning, 40 error, 50 critical)
+ */
+export type RollbarLevel = string | number;
+
+export interface RollbarItem {
+    id: number;
+    counter: number;                        // Project-scoped item number shown in the Rollbar UI
+    project_id: number;
+    title: string;
+    level: RollbarLevel;
+    status: RollbarItemStatus;
+    environment?: string;
+    platform?: string;
+    framework?: string;
+    hash?: string;
+    first_occurrence_id?: number;
+    first_occurrence_timestamp: number;     // Unix timestamp (seconds)
+    last_occurrence_id?: number;
+    last_occurrence_timestamp: number;
+    total_occurrences: number;
+    unique_occurrences?: number | null;     // Distinct people affected, when person tracking is enabled
+    assigned_user_id?: number | null;
+    resolved_in_version?: string | null;
+}
+
+export interface RollbarItemsPage {
+    items: RollbarItem[];
+    page: number;
+    total_count?: number;
+}
+
+export interface RollbarFrame {
+    filename?: string;
+    lineno?: number;
+    colno?: number;
+    method?: string;
+    code?: string;
+    context?: { pre?: string[]; post?: string[] };
+    [key: string]: unknown;
+}
+
+export interface RollbarTrace {
+    frames?: RollbarFrame[];                // Most recent call last
+    exception?: { class?: string; message?: string; description?: string };
+}
+
+export interface RollbarTelemetryEvent {
+    level?: string;
+    type?: string;                          // "log", "network", "dom", "navigation", "error", "manual"
+    source?: string;                        // "client" or "server"
+    timestamp_ms?: number;
+    body?: Record<string, unknown>;
+}
+
+export interface RollbarOccurrenceData {
+    environment?: string;
+    level?: RollbarLevel;
+    timestamp?: number;
+    platform?: string;
+    language?: string;
+    framework?: string;
+    code_version?: string;
+    context?: string;
+    uuid?: string;
+    body?: {
+        trace?: RollbarTrace;
+        trace_chain?: RollbarTrace[];       // Most recent exception first, then its causes
+        message?: { body?: string; [key: string]: unknown };
+        telemetry?: RollbarTelemetryEvent[];
+    };
+    request?: {
+        url?: string;
+        method?: string;
+        headers?: Record<string, string>;
+        GET?: Record<string, string>;
+        POST?: Record<string, unknown>;
+        body?: string;
+        query_string?: string;
+        user_ip?: string;
+    };
+    person?: { id?: string | number; username?: string; email?: string };
+    server?: { host?: string; root?: string; branch?: string; code_version?: string };
+    client?: { javascript?: { browser?: string; code_version?: string }; [key: string]: unknown };
+    custom?: Record<string, unknown>;
+}
+
+/**
+ * One occurrence of an item (Rollbar calls these "instances")
+ */
+export interface RollbarInstance {
+    id: number;
+    item_id?: number;
+    project_id: number;
+    timestamp: number;                      // Unix timestamp (seconds)
+    version?: number;
+    data: RollbarOccurrenceData;
+}
+
+export interface RollbarInstancesPage {
+    instances: RollbarInstance[];
+    page: number;
+}
@@ -0,0 +1,305 @@
+import { sentryApiUrl, type SentryTarget } from './config';
+import { parseSentryLinkHeader, type SentryLink } from './pagination';
+import type { SentryEvent, SentryIssue, SentryIssueUpdate, SentryOrganization, SentryTag } from './types';
+
+const MAX_RETRIES = Math.max(0, parseInt(process.env.SENTRY_MAX_RETRIES || '3', 10) || 0);
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_WAIT_MS = 10000; // Longer waits are reported as a 429 instead of blocking the request
+
+/**
+ * Sentry's rate limit headers (`X-Sentry-Rate-Limit-*`)
+ */
+export interface SentryRateLimit {
+    limit?: number;
+    remaining?: number;
+    reset?: number;                 // Unix timestamp (seconds) when the window resets
+    concurrentLimit?: number;
+    concurrentRemaining?: number;
+}
+
+/**
+ * Uniform error for any failed Sentry API call.
+ * `status` is 0 when the request never got a response (network error, DNS, timeout).
+ */
+export class SentryApiError extends Error {
+    status: number;
+    statusText: string;
+    url: string;
+    details: string;
+    retryAfter?: number;            // Seconds until the request may be retried (429 only)
+    rateLimit?: SentryRateLimit;
+
+    constructor(init: { status: number; statusText: string; url: string; details: string; retryAfter?: number; rateLimit?: SentryRateLimit }) {
+        super(`Sentry API error: ${init.status} ${init.statusText}`.trim());
+        this.name = 'SentryApiError';
+        this.status = init.status;
+        this.statusText = init.statusText;
+        this.url = init.url;
+        this.details = init.details;
+        this.retryAfter = init.retryAfter;
+        this.rateLimit = init.rateLimit;
+    }
+
+    get isRateLimited(): boolean {
+        return this.status === 429;
+    }
+
+    get isNotFound(): boolean {
+        return this.status === 404;
+    }
+}
+
+export interface SentryRequestOptions {
+    method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+    body?: unknown;
+    revalidate?: number | false;    // Next.js fetch cache lifetime in seconds
+    tags?: string[];                // Next.js cache tags, so writes can invalidate cached reads
+    retries?: number;
+}
+
+// Cache tags for Sentry reads; invalidate them with revalidateTag() after changing an issue
+export const SENTRY_ISSUES_TAG = 'sentry-issues';
+
+export function sentryIssueTag(issueId: string): string {
+    return `sentry-issue-${issueId}`;
+}
+
+export interface SentryResponse<T> {
+    data: T;
+    links: { previous?: SentryLink; next?: SentryLink };
+    rateLimit: SentryRateLimit;
+}
+
+// Last known rate limit state per token, so we back off before Sentry rejects us
+const rateLimitState = new Map<string, SentryRateLimit>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function headerNumber(headers: Headers, name: string): number | undefined {
+    const value = headers.get(name);
+    if (value === null || value === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Read Sentry's rate limit headers from a response
+ * @param headers Response headers
+ * @returns Parsed limits (fields are undefined when a header is missing)
+ */
+export function parseRateLimitHeaders(headers: Headers): SentryRateLimit {
+    return {
+        limit: headerNumber(headers, 'x-sentry-rate-limit-limit'),
+        remaining: headerNumber(headers, 'x-sentry-rate-limit-remaining'),
+        reset: headerNumber(headers, 'x-sentry-rate-limit-reset'),
+        concurrentLimit: headerNumber(headers, 'x-sentry-rate-limit-concurrentlimit'),
+        concurrentRemaining: headerNumber(headers, 'x-sentry-rate-limit-concurrentremaining'),
+    };
+}
+
+// Seconds to wait before retrying a 429: Retry-After first, then the rate limit reset time
+function retryAfterSeconds(headers: Headers, rateLimit: SentryRateLimit): number {
+    const retryAfter = headerNumber(headers, 'retry-after');
+    if (retryAfter !== undefined) return Math.max(0, retryAfter);
+    if (rateLimit.reset) return Math.max(0, Math.ceil(rateLimit.reset - Date.now() / 1000));
+    return 1;
+}
+
+// Extract a human-readable message from an error body (Sentry uses `detail`)
+async function readErrorDetails(response: Response): Promise<string> {
+    const text = await response.text().catch(() => '');
+    if (!text) return 'No error details available';
+    try {
+        const errorData = JSON.parse(text);
+        return errorData.detail || errorData.message || JSON.stringify(errorData);
+    } catch {
+        return text;
+    }
+}
+
+function backoffDelay(attempt: number): number {
+    return BASE_RETRY_DELAY_MS * 2 ** attempt + Math.floor(Math.random() * 250);
+}
+
+/**
+ * Call the Sentry API.
+ *
+ * - Retries 5xx responses and network errors with exponential backoff
+ * - Waits out 429s (and an exhausted `X-Sentry-Rate-Limit-Remaining`) when the reset is near,
+ *   otherwise fails fast with a 429 SentryApiError carrying `retryAfter`
+ *
+ * @param target Sentry connection
+ * @param apiPath Path below /api/0, including any query string
+ * @param options Method, body, cache lifetime and retry count
+ * @returns Parsed JSON body with pagination links and rate limit info
+ * @throws SentryApiError for any non-2xx response or network failure
+ */
+export async function sentryRequest<T>(target: SentryTarget, apiPath: string, options: SentryRequestOptions = {}): Promise<SentryResponse<T>> {
+    const url = sentryApiUrl(target, apiPath);
+    const retries = options.retries ?? MAX_RETRIES;
+    const stateKey = `${target.baseUrl}|${target.authToken}`;
+
+    for (let attempt = 0; ; attempt++) {
+        // Don't spend a request we already know Sentry will reject
+        const known = rateLimitState.get(stateKey);
+        if (known?.remaining === 0 && known.reset) {
+            const waitMs = known.reset * 1000 - Date.now();
+            if (waitMs > MAX_RETRY_WAIT_MS) {
+                throw new SentryApiError({
+                    status: 429,
+                    statusText: 'Too Many Requests',
+                    url,
+                    details: 'Sentry rate limit exhausted for this token',
+                    retryAfter: Math.ceil(waitMs / 1000),
+                    rateLimit: known,
+                });
+            }
+            if (waitMs > 0) await sleep(waitMs);
+            rateLimitState.delete(stateKey);
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: options.method || 'GET',
+                headers: {
+                    Authorization: `Bearer ${target.authToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+                ...(options.revalidate !== undefined || options.tags ? { next: { revalidate: options.revalidate, tags: options.tags } } : {}),
+            });
+        } catch (error) {
+            if (attempt < retries) {
+                await sleep(backoffDelay(attempt));
+                continue;
+            }
+            throw new SentryApiError({
+                status: 0,
+                statusText: 'Network Error',
+                url,
+                details: error instanceof Error ? error.message : String(error),
+            });
+        }
+
+        const rateLimit = parseRateLimitHeaders(response.headers);
+        if (rateLimit.remaining !== undefined) {
+            rateLimitState.set(stateKey, rateLimit);
+        }
+
+        if (response.ok) {
+            const data = (response.status === 204 ? null : await response.json()) as T;
+            return { data, links: parseSentryLinkHeader(response.headers.get('link')), rateLimit };
+        }
+
+        if (response.status === 429) {
+            const waitSeconds = retryAfterSeconds(response.headers, rateLimit);
+            if (attempt < retries && waitSeconds * 1000 <= MAX_RETRY_WAIT_MS) {
+                console.warn(`⏳ Sentry rate limited ${url}, retrying in ${waitSeconds}s`);
+                await sleep(Math.max(waitSeconds * 1000, backoffDelay(attempt)));
+                continue;
+            }
+            throw new SentryApiError({
+                status: 429,
+                statusText: response.statusText || 'Too Many Requests',
+                url,
+                details: await readErrorDetails(response),
+                retryAfter: waitSeconds,
+                rateLimit,
+            });
+        }
+
+        if (response.status >= 500 && attempt < retries) {
+            console.warn(`⚠️ Sentry returned ${response.status} for ${url}, retrying (${attempt + 1}/${retries})`);
+            await sleep(backoffDelay(attempt));
+            continue;
+        }
+
+        throw new SentryApiError({
+            status: response.status,
+            statusText: response.statusText,
+            url,
+            details: await readErrorDetails(response),
+            rateLimit,
+        });
+    }
+}
+
+/**
+ * Call the Sentry API and return only the parsed body
+ * @see sentryRequest
+ */
+export async function sentryFetch<T>(target: SentryTarget, apiPath: string, options: SentryRequestOptions = {}): Promise<T> {
+    return (await sentryRequest<T>(target, apiPath, options)).data;
+}
+
+// One segment of an API path, encoded. IDs and slugs come from route params, so they must not add or climb segments;
+// callers are async so a bad one rejects like any other failed request
+function segment(value: string): string {
+    if (!value || value === '.' || value === '..') {
+        throw new SentryApiError({ status: 404, statusText: 'Not Found', url: '', details: `Invalid Sentry path segment "${value}"` });
+    }
+    return encodeURIComponent(value);
+}
+
+/**
+ * Fetch the target's organization (used to validate the token and org slug)
+ */
+export async function getOrganization(target: SentryTarget, options?: SentryRequestOptions) {
+    return sentryFetch<SentryOrganization>(target, `/organizations/${segment(target.org)}/`, options);
+}
+
+/**
+ * List one page of a project's issues
+ * @param params Sentry query parameters (query, sort, environment, statsPeriod, cursor, limit)
+ * @returns Issues plus the Link cursors for the next page
+ */
+export async function listProjectIssues(target: SentryTarget, projectSlug: string, params: URLSearchParams, options?: SentryRequestOptions) {
+    return sentryRequest<SentryIssue[]>(target, `/projects/${segment(target.org)}/${segment(projectSlug)}/issues/?${params}`, options);
+}
+
+/**
+ * Fetch an issue by ID
+ */
+export async function getIssue(target: SentryTarget, issueId: string, options?: SentryRequestOptions) {
+    return sentryFetch<SentryIssue>(target, `/issues/${segment(issueId)}/`, options);
+}
+
+/**
+ * Fetch an issue through its project (works with tokens scoped to a single project)
+ */
+export async function getProjectIssue(target: SentryTarget, projectSlug: string, issueId: string, options?: SentryRequestOptions) {
+    return sentryFetch<SentryIssue>(target, `/projects/${segment(target.org)}/${segment(projectSlug)}/issues/${segment(issueId)}/`, options);
+}
+
+/**
+ * Update an issue's status or assignee
+ * @returns The fields Sentry changed (status, statusDetails, assignedTo, ...)
+ */
+export async function updateIssue(target: SentryTarget, issueId: string, update: SentryIssueUpdate) {
+    return sentryFetch<Partial<SentryIssue>>(target, `/issues/${segment(issueId)}/`, { method: 'PUT', body: update });
+}
+
+/**
+ * List an issue's most recent events (summaries only, without `entries`)
+ * @param params Optional search params, e.g. `query` with Sentry search syntax to filter by tag
+ */
+export async function listIssueEvents(target: SentryTarget, issueId: string, options?: SentryRequestOptions, params?: URLSearchParams) {
+    const search = params && params.toString() ? `?${params}` : '';
+    return sentryFetch<SentryEvent[]>(target, `/issues/${segment(issueId)}/events/${search}`, options);
+}
+
+/**
+ * Fetch a full event for an issue, including `entries` (exception, breadcrumbs, request) and `contexts`
+ * @param eventId Event ID, or "latest" / "oldest"
+ */
+export async function getIssueEvent(target: SentryTarget, issueId: string, eventId = 'latest', options?: SentryRequestOptions) {
+    return sentryFetch<SentryEvent>(target, `/issues/${segment(issueId)}/events/${segment(eventId)}/`, options);
+}
+
+/**
+ * List an issue's tag summaries (key, total values and top values)
+ */
+export async function listIssueTags(target: SentryTarget, issueId: string, options?: SentryRequestOptions) {
+    return sentryFetch<SentryTag[]>(target, `/issues/${segment(issueId)}/tags/`, options);
+}
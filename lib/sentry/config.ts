@@ -0,0 +1,70 @@
+import { getSentryRegistry, type SentryProject, type SentryRegistry } from './projects';
+
+const DEFAULT_BASE_URL = 'https://sentry.io';
+
+/**
+ * Where and how to reach the Sentry API for a given org/project
+ */
+export interface SentryTarget {
+    baseUrl: string;      // e.g. https://sentry.io, https://de.sentry.io or a self-hosted URL
+    org: string;
+    authToken: string;
+}
+
+// Normalize a base URL: no trailing slash, and no trailing /api/0 if someone pasted the API root
+function normalizeBaseUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '').replace(/\/api\/0$/, '');
+}
+
+/**
+ * Resolve the Sentry connection for a project.
+ *
+ * Precedence for each field: project entry > `orgs` entry in the registry > environment
+ * (`SENTRY_BASE_URL`, `SENTRY_ORG`, `SENTRY_AUTH_TOKEN`).
+ *
+ * @param project Registered project (omit for the default connection)
+ * @param registry Registry to read org overrides from (defaults to the loaded registry)
+ * @returns The target, or null if no org or auth token is configured for it
+ */
+export function getSentryTarget(project?: SentryProject, registry: SentryRegistry = getSentryRegistry()): SentryTarget | null {
+    const org = project?.org || process.env.SENTRY_ORG || '';
+    const orgOverrides = registry.orgs[org] || {};
+
+    const tokenEnv = project?.authTokenEnv || orgOverrides.authTokenEnv;
+    const authToken = (tokenEnv ? process.env[tokenEnv] : undefined) || process.env.SENTRY_AUTH_TOKEN || '';
+    const baseUrl = normalizeBaseUrl(project?.baseUrl || orgOverrides.baseUrl || process.env.SENTRY_BASE_URL || DEFAULT_BASE_URL);
+
+    if (!org || !authToken) {
+        return null;
+    }
+
+    return { baseUrl, org, authToken };
+}
+
+/**
+ * List the distinct Sentry connections used by the registry, default connection first
+ * @param registry Registry to read (defaults to the loaded registry)
+ * @returns Unique targets (by base URL, org and token)
+ */
+export function getAllSentryTargets(registry: SentryRegistry = getSentryRegistry()): SentryTarget[] {
+    const targets: SentryTarget[] = [];
+    const candidates = [getSentryTarget(undefined, registry), ...registry.projects.map((project) => getSentryTarget(project, registry))];
+
+    candidates.forEach((target) => {
+        if (target && !targets.some((t) => t.baseUrl === target.baseUrl && t.org === target.org && t.authToken === target.authToken)) {
+            targets.push(target);
+        }
+    });
+
+    return targets;
+}
+
+/**
+ * Build a Sentry API URL
+ * @param target Connection to use
+ * @param apiPath Path below /api/0, e.g. `/issues/123/`
+ * @returns Absolute URL
+ */
+export function sentryApiUrl(target: SentryTarget, apiPath: string): string {
+    return `${target.baseUrl}/api/0${apiPath.startsWith('/') ? apiPath : `/${apiPath}`}`;
+}
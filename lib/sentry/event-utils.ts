@@ -0,0 +1,201 @@
+import type { SentryBreadcrumb, SentryEvent, SentryExceptionValue, SentryRequestData, SentryStackFrame } from './types';
+
+/**
+ * Client-safe helpers for reading full Sentry events (no server-only imports)
+ */
+
+export interface FrameContextLine {
+    lineNo: number;
+    code: string;
+    isErrorLine: boolean;
+}
+
+export interface CodeReference {
+    file: string;
+    line?: number;
+    function?: string;
+}
+
+/**
+ * Get the data of an event entry by type
+ * @param event Full Sentry event
+ * @param type Entry type, e.g. "exception", "breadcrumbs", "request"
+ * @returns Entry data, or undefined if the event has no such entry
+ */
+export function getEventEntry(event: SentryEvent, type: string) {
+    return event.entries?.find((entry) => entry.type === type)?.data;
+}
+
+/**
+ * Exceptions in an event, in Sentry's order (the cause first, the exception that was raised last)
+ */
+export function getEventExceptions(event: SentryEvent): SentryExceptionValue[] {
+    return (getEventEntry(event, 'exception')?.values || []) as SentryExceptionValue[];
+}
+
+/**
+ * Breadcrumbs in an event, oldest first
+ */
+export function getEventBreadcrumbs(event: SentryEvent): SentryBreadcrumb[] {
+    return (getEventEntry(event, 'breadcrumbs')?.values || []) as SentryBreadcrumb[];
+}
+
+/**
+ * HTTP request captured with an event, if any
+ */
+export function getEventRequest(event: SentryEvent): SentryRequestData | undefined {
+    return getEventEntry(event, 'request') as SentryRequestData | undefined;
+}
+
+/**
+ * Value of a tag on an event (e.g. "environment", "release")
+ */
+export function eventTag(event: SentryEvent, key: string): string | undefined {
+    return event.tags?.find((tag) => tag.key === key)?.value;
+}
+
+/**
+ * Human-readable user of an event (email, username, id or IP address)
+ */
+export function describeEventUser(user: SentryEvent['user']): string | undefined {
+    if (!user) return undefined;
+    const value = user.email || user.username || user.id || user.ip_address;
+    return value ? String(value) : undefined;
+}
+
+/**
+ * Line number of a frame (`lineNo` from the Sentry API, `lineno` in raw event JSON)
+ */
+export function getFrameLineNo(frame: SentryStackFrame): number | undefined {
+    return frame.lineNo ?? frame.lineno ?? undefined;
+}
+
+export function isInAppFrame(frame: SentryStackFrame): boolean {
+    return !!(frame.inApp ?? frame.in_app);
+}
+
+/**
+ * Source lines around a frame.
+ * The Sentry API returns `context: [[line, code], ...]`; raw event JSON uses
+ * `pre_context`, `context_line` and `post_context`, so both are handled.
+ * @param frame Stack frame
+ * @param radius Lines to keep on each side of the error line (defaults to all)
+ * @returns Context lines in order, with the error line flagged
+ */
+export function getFrameContext(frame: SentryStackFrame, radius = Infinity): FrameContextLine[] {
+    const lineNo = getFrameLineNo(frame);
+    if (!lineNo) return [];
+
+    let lines: Array<[number, string]> = [];
+    if (Array.isArray(frame.context) && frame.context.length > 0) {
+        lines = frame.context;
+    } else if (frame.context_line !== undefined) {
+        const pre = frame.pre_context || [];
+        const post = frame.post_context || [];
+        lines = [
+            ...pre.map((code, i): [number, string] => [lineNo - pre.length + i, code]),
+            [lineNo, frame.context_line],
+            ...post.map((code, i): [number, string] => [lineNo + 1 + i, code]),
+        ];
+    }
+
+    return lines
+        .filter(([line]) => Math.abs(line - lineNo) <= radius)
+        .map(([line, code]) => ({ lineNo: line, code: code ?? '', isErrorLine: line === lineNo }));
+}
+
+/**
+ * Parse an AI code reference such as "src/components/Header.tsx:120" or
+ * "app/Http/Controllers/TransactionController.php:45 in createTransaction()"
+ * @param reference Free-form code reference
+ * @returns File path, line and function, or null if no file path is found
+ */
+export function parseCodeReference(reference: string): CodeReference | null {
+    const match = reference.match(/([\w@~.\-/\\]+\.[A-Za-z0-9]+)(?::(\d+))?/);
+    if (!match) return null;
+
+    const fn = reference.match(/\bin\s+([\w$.:\\<>]+)\s*(?:\(|$)/)?.[1];
+    return {
+        file: match[1].replace(/\\/g, '/').replace(/^\.?\//, ''),
+        line: match[2] ? parseInt(match[2], 10) : undefined,
+        function: fn,
+    };
+}
+
+/**
+ * Check whether a stack frame is the location a code reference points at.
+ * Paths match when one ends with the other on a `/` boundary (Sentry paths are often absolute or prefixed with app:///).
+ * @param frame Stack frame
+ * @param reference Parsed code reference
+ * @returns True if the file (and line, when given) match
+ */
+export function frameMatchesCodeReference(frame: SentryStackFrame, reference: CodeReference): boolean {
+    const file = reference.file.toLowerCase();
+    const fileMatches = [frame.filename, frame.absPath].some((value) => {
+        if (!value) return false;
+        const path = value.replace(/\\/g, '/').toLowerCase();
+        const relative = path.replace(/^[a-z]+:\/\/\/?/, '').replace(/^\.?\//, '');
+        const endsWithPath = (a: string, b: string) => b.length > 0 && (a === b || a.endsWith(`/${b}`));
+        return endsWithPath(path, file) || endsWithPath(file, relative);
+    });
+    if (!fileMatches) return false;
+
+    const lineNo = getFrameLineNo(frame);
+    if (reference.line !== undefined && lineNo !== undefined) {
+        return lineNo === reference.line;
+    }
+    // Without a line number, fall back to the function name when the reference has one
+    return !reference.function || !frame.function || frame.function.endsWith(reference.function);
+}
+
+// Header, cookie and query parameter names whose values should never be shown
+const SENSITIVE_KEY_PATTERN = /(authorization|cookie|token|secret|passw(or)?d|api[-_]?key|session|csrf|xsrf|signature|credential|private[-_]?key|auth)/i;
+
+/**
+ * Check whether a header/query/cookie name is likely to hold a secret
+ */
+export function isSensitiveKey(key: string): boolean {
+    return SENSITIVE_KEY_PATTERN.test(key);
+}
+
+/**
+ * Mask the values of sensitive [name, value] pairs (headers, cookies, query parameters)
+ * @param pairs Name/value pairs
+ * @returns Pairs with secret values replaced by "[Filtered]"
+ */
+export function maskSensitivePairs(pairs: Array<[string, string]>): Array<[string, string]> {
+    return pairs.map(([key, value]) => [key, isSensitiveKey(key) && value ? '[Filtered]' : value]);
+}
+
+/**
+ * Query parameters of a request entry as [name, value] pairs (Sentry sends either pairs or a raw string)
+ */
+export function getQueryPairs(query: SentryRequestData['query']): Array<[string, string]> {
+    if (!query) return [];
+    if (Array.isArray(query)) return query;
+    return Array.from(new URLSearchParams(query.replace(/^\?/, '')).entries());
+}
+
+/**
+ * Milliseconds between a breadcrumb and the event it led up to
+ * @param crumb Breadcrumb
+ * @param event Event the breadcrumb belongs to
+ * @returns Offset (positive = before the crash), or undefined if either timestamp is missing
+ */
+export function getBreadcrumbOffset(crumb: SentryBreadcrumb, event: SentryEvent): number | undefined {
+    const eventTime = Date.parse(event.dateCreated || event.timestamp || '');
+    const crumbTime = Date.parse(crumb.timestamp || '');
+    if (Number.isNaN(eventTime) || Number.isNaN(crumbTime)) return undefined;
+    return eventTime - crumbTime;
+}
+
+/**
+ * Format a breadcrumb offset like "2.4s", "1m 05s" or "2h 10m" (before the crash)
+ */
+export function formatOffset(ms: number): string {
+    const seconds = Math.max(0, ms) / 1000;
+    if (seconds < 60) return `${seconds < 10 ? seconds.toFixed(1) : Math.round(seconds)}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${String(Math.floor(seconds % 60)).padStart(2, '0')}s`;
+    return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
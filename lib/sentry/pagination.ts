@@ -0,0 +1,61 @@
+export interface SentryLink {
+    cursor: string;
+    results: boolean;
+}
+
+/**
+ * Parse Sentry's `Link` pagination header.
+ *
+ * Sentry returns something like:
+ *   <https://sentry.io/api/0/...&cursor=0:0:1>; rel="previous"; results="false"; cursor="0:0:1",
+ *   <https://sentry.io/api/0/...&cursor=0:100:0>; rel="next"; results="true"; cursor="0:100:0"
+ *
+ * @param header Raw `Link` header value
+ * @returns Cursors for the previous/next pages, if present
+ */
+export function parseSentryLinkHeader(header: string | null): { previous?: SentryLink; next?: SentryLink } {
+    const links: { previous?: SentryLink; next?: SentryLink } = {};
+    if (!header) return links;
+
+    header.split(/,\s*(?=<)/).forEach((part) => {
+        const rel = part.match(/rel="([^"]+)"/)?.[1];
+        const cursor = part.match(/cursor="([^"]+)"/)?.[1];
+        const results = part.match(/results="([^"]+)"/)?.[1];
+        if ((rel === 'next' || rel === 'previous') && cursor) {
+            links[rel] = { cursor, results: results === 'true' };
+        }
+    });
+
+    return links;
+}
+
+/**
+ * Encode per-project Sentry cursors into a single opaque cursor for /api/sentry/errors
+ * @param cursors Map of project slug -> Sentry cursor for projects that still have results
+ * @returns URL-safe cursor string, or null when every project is exhausted
+ */
+export function encodeErrorsCursor(cursors: Record<string, string>): string | null {
+    if (Object.keys(cursors).length === 0) return null;
+    return Buffer.from(JSON.stringify(cursors)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeErrorsCursor
+ * @param cursor Opaque cursor from the client
+ * @returns Map of project slug -> Sentry cursor, or null if the cursor is invalid
+ */
+export function decodeErrorsCursor(cursor: string): Record<string, string> | null {
+    try {
+        const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+        const cursors: Record<string, string> = {};
+        for (const [slug, value] of Object.entries(parsed)) {
+            if (typeof value === 'string') {
+                cursors[slug] = value;
+            }
+        }
+        return cursors;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { PROJECT_COLORS, isProjectColor, type ProjectInfo } from '@/lib/utils/projects';
+
+const DEFAULT_REGISTRY_FILE = path.join(process.cwd(), 'sentry.projects.json');
+
+/**
+ * Connection overrides for a Sentry org or project.
+ * `authTokenEnv` names an environment variable so tokens never live in the registry file.
+ */
+export interface SentryConnectionOverrides {
+    baseUrl?: string;
+    authTokenEnv?: string;
+}
+
+export interface SentryProject extends ProjectInfo, SentryConnectionOverrides {
+    org?: string;
+    sourceRoot?: string;        // Local checkout the explainer reads frame source from (server-only)
+    sourceMapsDir?: string;     // Directory of .map files for minified frontend bundles (server-only)
+}
+
+export interface SentryRegistry {
+    projects: SentryProject[];
+    orgs: Record<string, SentryConnectionOverrides>;
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Pick the connection override fields out of a raw registry object
+function normalizeOverrides(entry: Record<string, unknown>): SentryConnectionOverrides {
+    const overrides: SentryConnectionOverrides = {};
+    if (text(entry.baseUrl)) overrides.baseUrl = text(entry.baseUrl);
+    if (text(entry.authTokenEnv)) overrides.authTokenEnv = text(entry.authTokenEnv);
+    return overrides;
+}
+
+// Normalize one raw registry entry, filling in defaults for optional fields
+function normalizeProject(raw: unknown, index: number): SentryProject | null {
+    const entry = (typeof raw === 'string' ? { slug: raw } : raw || {}) as Record<string, unknown>;
+
+    const slug = text(entry.slug);
+    if (!slug) {
+        console.warn(`⚠️ Skipping Sentry project registry entry #${index + 1}: missing "slug"`);
+        return null;
+    }
+
+    const project: SentryProject = {
+        slug,
+        name: text(entry.name) || slug,
+        category: text(entry.category).toLowerCase() || 'other',
+        color: isProjectColor(entry.color) ? entry.color : PROJECT_COLORS[index % PROJECT_COLORS.length],
+        ...normalizeOverrides(entry),
+    };
+    if (text(entry.org)) project.org = text(entry.org);
+    if (text(entry.sourceRoot)) project.sourceRoot = text(entry.sourceRoot);
+    if (text(entry.sourceMapsDir)) project.sourceMapsDir = text(entry.sourceMapsDir);
+
+    return project;
+}
+
+// Parse registry JSON: either { "orgs": {...}, "projects": [...] } or a bare array of projects
+function parseRegistry(json: string, source: string): SentryRegistry {
+    try {
+        const parsed = JSON.parse(json);
+        const entries = Array.isArray(parsed) ? parsed : parsed?.projects;
+        if (!Array.isArray(entries)) {
+            console.error(`❌ Sentry project registry ${source} must contain a "projects" array`);
+            return { projects: [], orgs: {} };
+        }
+
+        const orgs: Record<string, SentryConnectionOverrides> = {};
+        if (!Array.isArray(parsed) && parsed.orgs && typeof parsed.orgs === 'object') {
+            for (const [org, value] of Object.entries(parsed.orgs)) {
+                orgs[org] = normalizeOverrides((value || {}) as Record<string, unknown>);
+            }
+        }
+
+        return {
+            projects: entries
+                .map((entry, index) => normalizeProject(entry, index))
+                .filter((project): project is SentryProject => project !== null),
+            orgs,
+        };
+    } catch (error) {
+        console.error(`❌ Error parsing Sentry project registry ${source}:`, error);
+        return { projects: [], orgs: {} };
+    }
+}
+
+// Projects from the legacy FRONTEND/BACKEND/PROJECT environment variables
+function legacyProjects(): SentryProject[] {
+    const projects: SentryProject[] = [];
+    const frontend = process.env.SENTRY_FRONTEND_PROJECT;
+    const backend = process.env.SENTRY_BACKEND_PROJECT;
+
+    if (frontend) {
+        projects.push({ slug: frontend, name: frontend, category: 'frontend', color: 'cyan' });
+    }
+    if (backend) {
+        projects.push({ slug: backend, name: backend, category: 'backend', color: 'orange' });
+    }
+    if (projects.length === 0 && process.env.SENTRY_PROJECT) {
+        const slug = process.env.SENTRY_PROJECT;
+        projects.push({ slug, name: slug, category: 'frontend', color: 'cyan' });
+    }
+
+    return projects;
+}
+
+/**
+ * Load the Sentry project registry.
+ *
+ * Sources, in order of precedence:
+ * 1. `SENTRY_PROJECTS` - inline JSON (handy for hosted environments)
+ * 2. `SENTRY_PROJECTS_FILE` - path to a JSON file (defaults to `sentry.projects.json`)
+ * 3. Legacy `SENTRY_FRONTEND_PROJECT` / `SENTRY_BACKEND_PROJECT` / `SENTRY_PROJECT`
+ */
+export function getSentryRegistry(): SentryRegistry {
+    const inline = process.env.SENTRY_PROJECTS;
+    if (inline && inline.trim()) {
+        return parseRegistry(inline, 'SENTRY_PROJECTS');
+    }
+
+    const file = process.env.SENTRY_PROJECTS_FILE
+        ? path.resolve(process.cwd(), process.env.SENTRY_PROJECTS_FILE)
+        : DEFAULT_REGISTRY_FILE;
+    try {
+        if (fs.existsSync(file)) {
+            return parseRegistry(fs.readFileSync(file, 'utf-8'), path.basename(file));
+        }
+    } catch (error) {
+        console.error('❌ Error reading Sentry project registry:', error);
+    }
+
+    return { projects: legacyProjects(), orgs: {} };
+}
+
+/**
+ * Load the projects from the Sentry project registry
+ * @returns Registered projects, in registry order
+ */
+export function getSentryProjects(): SentryProject[] {
+    return getSentryRegistry().projects;
+}
+
+/**
+ * Find a registered project by slug
+ * @param slug Sentry project slug
+ * @param projects Registry to search (defaults to the loaded registry)
+ * @returns The project, or undefined if it is not registered
+ */
+export function findSentryProject(slug: string | undefined, projects: SentryProject[] = getSentryProjects()): SentryProject | undefined {
+    if (!slug) return undefined;
+    return projects.find((project) => project.slug === slug);
+}
+
+/**
+ * Strip server-only connection settings before sending projects to the browser
+ * @param projects Registered projects
+ * @returns Display-only project info
+ */
+export function toProjectInfo(projects: SentryProject[]): ProjectInfo[] {
+    return projects.map(({ slug, name, category, color }) => ({ slug, name, category, color }));
+}
@@ -0,0 +1,76 @@
+import type { SentryTag } from './types';
+
+/**
+ * Client-safe helpers for Sentry issue tag distributions (`/issues/{id}/tags/`)
+ */
+
+export interface TagFacetValue {
+    value: string;
+    label: string;
+    count: number;
+    percent: number;     // Share of the tag's total, 0-100
+}
+
+export interface TagFacet {
+    key: string;
+    label: string;
+    total: number;
+    values: TagFacetValue[];
+}
+
+// Tags that usually explain who is affected; shown first, in this order
+const PRIORITY_KEYS = ['browser', 'os', 'device', 'release', 'environment', 'url', 'transaction', 'user', 'runtime', 'server_name'];
+
+/**
+ * Turn Sentry tag summaries into facets with percentages
+ * @param tags Tag summaries with `totalValues` and `topValues`
+ * @param valuesPerTag Maximum values kept per tag
+ * @returns Facets sorted with the most useful keys first, then by volume
+ */
+export function getTagFacets(tags: SentryTag[] | undefined, valuesPerTag = 5): TagFacet[] {
+    const rank = (key: string) => {
+        const index = PRIORITY_KEYS.indexOf(key);
+        return index === -1 ? PRIORITY_KEYS.length : index;
+    };
+
+    return (tags || [])
+        .filter((tag) => tag.topValues && tag.topValues.length > 0)
+        .map((tag) => {
+            const topValues = tag.topValues || [];
+            const total = tag.totalValues || topValues.reduce((sum, value) => sum + value.count, 0);
+            return {
+                key: tag.key,
+                label: tag.name || tag.key,
+                total,
+                values: topValues.slice(0, valuesPerTag).map((value) => ({
+                    value: value.value,
+                    label: value.name || value.value,
+                    count: value.count,
+                    percent: total > 0 ? (value.count / total) * 100 : 0,
+                })),
+            };
+        })
+        .sort((a, b) => rank(a.key) - rank(b.key) || b.total - a.total);
+}
+
+/**
+ * Sentry search query matching events with a tag value, e.g. `browser:"Safari 17.1"`
+ */
+export function tagSearchQuery(key: string, value: string): string {
+    return `${key}:"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * One line per tag for the AI prompt, e.g. `browser: Safari 17.1 (92%), Chrome 120 (6%)`
+ * @param tags Tag summaries with `totalValues` and `topValues`
+ * @param maxTags Maximum number of tags included
+ */
+export function formatTagDistributions(tags: SentryTag[] | undefined, maxTags = 10): string {
+    return getTagFacets(tags, 3)
+        .slice(0, maxTags)
+        .map((facet) => {
+            const values = facet.values.map((value) => `${value.label} (${Math.round(value.percent)}%)`).join(', ');
+            return `  ${facet.key}: ${values} [${facet.total} events]`;
+        })
+        .join('\n');
+}
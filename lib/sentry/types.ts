@@ -0,0 +1,203 @@
+/**
+ * Response shapes for the parts of the Sentry Web API (/api/0) this app uses.
+ * Only the fields we read are typed; Sentry returns many more.
+ */
+
+export interface SentryOrganization {
+    id: string;
+    slug: string;
+    name: string;
+}
+
+export interface SentryIssueProject {
+    id: string;
+    slug: string;
+    name?: string;
+    platform?: string;
+}
+
+// [unix timestamp (seconds), event count]
+export type SentryStatsPoint = [number, number];
+
+/**
+ * Event counts bucketed over time, keyed by period (e.g. "24h", "14d").
+ * Returned on issues when `statsPeriod` is requested.
+ */
+export type SentryIssueStats = Record<string, SentryStatsPoint[]>;
+
+export interface SentryIssueMetadata {
+    type?: string;
+    value?: string;
+    filename?: string;
+    function?: string;
+    title?: string;
+    [key: string]: unknown;
+}
+
+export interface SentryTagValue {
+    key?: string;
+    name?: string;
+    value: string;
+    count: number;
+    firstSeen?: string;
+    lastSeen?: string;
+}
+
+/**
+ * A tag as returned on issues and events.
+ * Events carry `key`/`value`; issue tag summaries carry `totalValues`/`topValues`.
+ */
+export interface SentryTag {
+    key: string;
+    value?: string;
+    name?: string;
+    totalValues?: number;
+    topValues?: SentryTagValue[];
+}
+
+export interface SentryIssue {
+    id: string;
+    shortId?: string;
+    title: string;
+    culprit?: string;
+    level?: string;
+    status?: string;
+    count: string | number;     // Sentry returns counts as strings
+    userCount: number;
+    firstSeen: string;
+    lastSeen: string;
+    permalink?: string;
+    logger?: string | null;
+    type?: string;
+    platform?: string;
+    numComments?: number;
+    isPublic?: boolean;
+    project?: SentryIssueProject;
+    metadata?: SentryIssueMetadata;
+    tags?: SentryTag[];
+    assignedTo?: SentryAssignee | null;
+    statusDetails?: SentryStatusDetails;
+    stats?: SentryIssueStats;
+}
+
+export interface SentryAssignee {
+    type?: 'user' | 'team';
+    id?: string;
+    name?: string;
+    email?: string;
+}
+
+// Ignore thresholds are in minutes (durations/windows) and occurrences/users (counts)
+export interface SentryStatusDetails {
+    ignoreDuration?: number;
+    ignoreCount?: number;
+    ignoreWindow?: number;
+    ignoreUserCount?: number;
+    ignoreUserWindow?: number;
+    inNextRelease?: boolean;
+    [key: string]: unknown;
+}
+
+/**
+ * Actions supported by PUT /api/sentry/errors/[id]
+ */
+export type SentryIssueAction = 'resolve' | 'resolveInNextRelease' | 'ignore' | 'unresolve' | 'assign';
+
+/**
+ * Body for Sentry's issue update API (PUT /issues/{id}/).
+ * `assignedTo` takes "user:<id>", "team:<id>", a username/email, or "" to unassign.
+ */
+export interface SentryIssueUpdate {
+    status?: 'resolved' | 'resolvedInNextRelease' | 'unresolved' | 'ignored';
+    statusDetails?: SentryStatusDetails;
+    assignedTo?: string;
+}
+
+export interface SentryStackFrame {
+    filename?: string | null;
+    absPath?: string | null;
+    module?: string | null;
+    function?: string | null;
+    lineNo?: number | null;
+    colNo?: number | null;
+    lineno?: number | null;
+    context_line?: string;
+    pre_context?: string[];
+    post_context?: string[];
+    context?: Array<[number, string]>;
+    inApp?: boolean;
+    in_app?: boolean;
+    data?: SentryFrameData | null;
+    [key: string]: unknown;
+}
+
+/**
+ * Extra frame data. Sentry sets `sourcemap` on frames it resolved itself; frames resolved by
+ * lib/sourcemaps also keep the minified position they came from.
+ */
+export interface SentryFrameData {
+    sourcemap?: string;             // Source map the frame was resolved with
+    minified?: {
+        filename?: string | null;
+        function?: string | null;
+        lineNo?: number;
+        colNo?: number;
+    };
+    [key: string]: unknown;
+}
+
+export interface SentryExceptionValue {
+    type?: string | null;
+    value?: string | null;
+    module?: string | null;
+    mechanism?: { type?: string; handled?: boolean } | null;
+    stacktrace?: { frames?: SentryStackFrame[] } | null;
+}
+
+export interface SentryBreadcrumb {
+    timestamp?: string;
+    type?: string;
+    category?: string | null;
+    level?: string;
+    message?: string | null;
+    data?: Record<string, unknown> | null;
+}
+
+// Data of a "request" entry; query/headers/cookies are lists of [name, value] pairs
+export interface SentryRequestData {
+    url?: string;
+    method?: string | null;
+    query?: Array<[string, string]> | string;
+    fragment?: string | null;
+    headers?: Array<[string, string]>;
+    cookies?: Array<[string, string]> | null;
+    data?: unknown;
+    env?: Record<string, string> | null;
+    inferredContentType?: string | null;
+}
+
+export interface SentryEventEntry {
+    type: string;               // "exception", "breadcrumbs", "request", "message", ...
+    data: Record<string, unknown> & { values?: unknown[] };
+}
+
+export interface SentryEvent {
+    id: string;
+    eventID: string;
+    groupID?: string;
+    title?: string;
+    message?: string;
+    culprit?: string;
+    metadata?: SentryIssueMetadata;
+    platform?: string;
+    dateCreated?: string;
+    dateReceived?: string;
+    timestamp?: string;
+    user?: Record<string, unknown> | null;
+    tags?: SentryTag[];
+    entries?: SentryEventEntry[];
+    contexts?: Record<string, Record<string, unknown>>;
+    previousEventID?: string | null;   // Neighbouring events of the same issue (single event endpoint only)
+    nextEventID?: string | null;
+    [key: string]: unknown;
+}
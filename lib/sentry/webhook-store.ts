@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import type { SentryWebhookRecord } from './webhooks';
+
+const CACHE_DIR = path.join(process.cwd(), '.cache');
+const WEBHOOK_STORE_FILE = path.join(CACHE_DIR, 'sentry-webhooks.json');
+const MAX_RECORDS = 500;
+
+/**
+ * Latest webhook state for one issue
+ */
+export interface WebhookIssueState {
+    issueId: string;
+    projectSlug?: string;
+    lastAction: string;
+    status?: string;
+    createdAt?: string;          // When an "issue.created" webhook arrived
+    updatedAt: string;
+    record: SentryWebhookRecord;
+}
+
+interface WebhookStore {
+    records: SentryWebhookRecord[];              // Newest first
+    issues: Record<string, WebhookIssueState>;
+}
+
+type WebhookListener = (record: SentryWebhookRecord) => void;
+
+// Keep listeners on globalThis so every route bundle in this process shares them
+const globalForWebhooks = globalThis as unknown as { sentryWebhookListeners?: Set<WebhookListener> };
+const listeners = globalForWebhooks.sentryWebhookListeners ?? new Set<WebhookListener>();
+globalForWebhooks.sentryWebhookListeners = listeners;
+
+// Read store file
+function readStore(): WebhookStore {
+    try {
+        if (fs.existsSync(WEBHOOK_STORE_FILE)) {
+            const parsed = JSON.parse(fs.readFileSync(WEBHOOK_STORE_FILE, 'utf-8'));
+            return { records: parsed.records || [], issues: parsed.issues || {} };
+        }
+    } catch (error) {
+        console.error('Error reading webhook store:', error);
+    }
+    return { records: [], issues: {} };
+}
+
+// Write store file
+function writeStore(store: WebhookStore) {
+    try {
+        if (!fs.existsSync(CACHE_DIR)) {
+            fs.mkdirSync(CACHE_DIR, { recursive: true });
+        }
+        fs.writeFileSync(WEBHOOK_STORE_FILE, JSON.stringify(store, null, 2));
+    } catch (error) {
+        console.error('Error writing webhook store:', error);
+    }
+}
+
+/**
+ * Store a webhook delivery and notify in-process subscribers
+ * @param record Normalized webhook record
+ * @returns False if the delivery was already stored (Sentry retries with the same Request-ID)
+ */
+export function saveWebhookRecord(record: SentryWebhookRecord): boolean {
+    const store = readStore();
+    if (store.records.some((existing) => existing.id === record.id)) {
+        return false;
+    }
+
+    store.records = [record, ...store.records].slice(0, MAX_RECORDS);
+
+    if (record.issueId) {
+        const previous = store.issues[record.issueId];
+        store.issues[record.issueId] = {
+            issueId: record.issueId,
+            projectSlug: record.projectSlug || previous?.projectSlug,
+            lastAction: `${record.resource}.${record.action}`,
+            status: record.status || previous?.status,
+            createdAt: record.resource === 'issue' && record.action === 'created' ? record.receivedAt : previous?.createdAt,
+            updatedAt: record.receivedAt,
+            record,
+        };
+    }
+
+    // Drop issue state that no longer has a stored delivery
+    const kept = new Set(store.records.map((r) => r.issueId));
+    Object.keys(store.issues).forEach((issueId) => {
+        if (!kept.has(issueId)) delete store.issues[issueId];
+    });
+
+    writeStore(store);
+    console.log(`📨 Stored Sentry webhook ${record.resource}.${record.action}${record.issueId ? ` for issue ${record.issueId}` : ''}`);
+
+    listeners.forEach((listener) => {
+        try {
+            listener(record);
+        } catch (error) {
+            console.error('Error in webhook listener:', error);
+        }
+    });
+
+    return true;
+}
+
+/**
+ * Recent webhook deliveries, newest first
+ * @param limit Maximum number of records
+ */
+export function getWebhookRecords(limit = 50): SentryWebhookRecord[] {
+    return readStore().records.slice(0, limit);
+}
+
+/**
+ * Latest webhook state per issue
+ * @param sinceMs Only include issues updated within this many milliseconds
+ */
+export function getWebhookIssueStates(sinceMs?: number): WebhookIssueState[] {
+    const states = Object.values(readStore().issues);
+    if (!sinceMs) return states;
+    const cutoff = Date.now() - sinceMs;
+    return states.filter((state) => Date.parse(state.updatedAt) >= cutoff);
+}
+
+/**
+ * Subscribe to webhook deliveries received by this server process
+ * @param listener Called with each newly stored record
+ * @returns Unsubscribe function
+ */
+export function subscribeToWebhooks(listener: WebhookListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
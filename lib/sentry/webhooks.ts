@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import type { SentryIssue } from './types';
+
+/**
+ * A Sentry webhook delivery, normalized for storage and the dashboard stream
+ */
+export interface SentryWebhookRecord {
+    id: string;                 // Sentry's Request-ID header (or a generated ID)
+    resource: string;           // Sentry-Hook-Resource: "issue", "event_alert", "error", ...
+    action: string;             // e.g. "created", "resolved", "assigned", "triggered"
+    receivedAt: string;
+    issueId?: string;
+    projectSlug?: string;
+    title?: string;
+    level?: string;
+    status?: string;
+    culprit?: string;
+    url?: string;
+    actor?: string;
+    rule?: string;              // Alert rule name for event_alert
+    issue?: Partial<SentryIssue>;
+}
+
+// Resources we store; others (installation, metric_alert, comment, ...) are acknowledged and ignored
+export const SUPPORTED_WEBHOOK_RESOURCES = ['issue', 'event_alert', 'error'];
+
+/**
+ * Verify Sentry's `Sentry-Hook-Signature` header (HMAC-SHA256 of the raw body with the client secret)
+ * @param rawBody Request body exactly as received
+ * @param signature Hex signature from the header
+ * @param secret Integration client secret (SENTRY_WEBHOOK_SECRET)
+ * @returns True if the signature matches
+ */
+export function verifySentrySignature(rawBody: string, signature: string | null, secret: string): boolean {
+    if (!signature) return false;
+
+    const expected = crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex');
+    const received = signature.trim().toLowerCase();
+    if (received.length !== expected.length) return false;
+
+    return crypto.timingSafeEqual(Buffer.from(expected, 'utf8'), Buffer.from(received, 'utf8'));
+}
+
+type WebhookObject = Record<string, unknown>;
+
+const asObject = (value: unknown): WebhookObject => (value && typeof value === 'object' ? (value as WebhookObject) : {});
+const asString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value ? value : typeof value === 'number' ? String(value) : undefined;
+
+/**
+ * Normalize a Sentry integration webhook payload
+ * @param resource Value of the Sentry-Hook-Resource header
+ * @param payload Parsed JSON body
+ * @param requestId Value of the Request-ID header, if any
+ * @returns A record for the store, or null if the resource isn't one we handle
+ */
+export function parseSentryWebhook(resource: string, payload: unknown, requestId?: string | null): SentryWebhookRecord | null {
+    if (!SUPPORTED_WEBHOOK_RESOURCES.includes(resource)) return null;
+
+    const body = asObject(payload);
+    const data = asObject(body.data);
+    const actor = asObject(body.actor);
+    const record: SentryWebhookRecord = {
+        id: requestId || crypto.randomUUID(),
+        resource,
+        action: asString(body.action) || 'unknown',
+        receivedAt: new Date().toISOString(),
+        actor: asString(actor.name) || asString(actor.id),
+    };
+
+    if (resource === 'issue') {
+        // { action, data: { issue: { id, title, status, project: { slug }, ... } } }
+        const issue = asObject(data.issue);
+        record.issueId = asString(issue.id);
+        record.projectSlug = asString(asObject(issue.project).slug);
+        record.title = asString(issue.title);
+        record.level = asString(issue.level);
+        record.status = asString(issue.status);
+        record.culprit = asString(issue.culprit);
+        record.url = asString(issue.web_url) || asString(issue.permalink);
+        record.issue = issue as Partial<SentryIssue>;
+    } else {
+        // event_alert: { action: "triggered", data: { event: {...}, triggered_rule } }
+        // error:       { action: "created", data: { error: {...} } }
+        const event = asObject(resource === 'error' ? data.error : data.event);
+        record.issueId = asString(event.issue_id) || asString(event.group_id);
+        record.title = asString(event.title) || asString(event.message);
+        record.level = asString(event.level);
+        record.culprit = asString(event.culprit);
+        record.url = asString(event.web_url) || asString(event.issue_url);
+        record.rule = asString(data.triggered_rule);
+    }
+
+    return record;
+}
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import { parseSourceMap } from './decode';
+
+const UPLOAD_DIR = path.join(process.cwd(), '.cache', 'source-maps');
+const SHARED_DIR = '_shared';       // Maps uploaded without a project; used for every project and pasted traces
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+const SAFE_NAME = /^[\w@+-][\w@.+-]*$/;   // No path separators, no ".", ".." or other dot names
+
+/**
+ * A source map uploaded through /api/sourcemaps
+ */
+export interface SourceMapArtifact {
+    project: string | null;
+    name: string;                   // e.g. "main.3f2a.js.map"
+    size: number;
+    uploadedAt: string;
+}
+
+/**
+ * Directory holding the maps uploaded for a project (or shared ones when no project is given)
+ * @throws Error for project slugs that are not a plain file name
+ */
+export function getUploadedSourceMapDir(project?: string | null): string {
+    if (project && !SAFE_NAME.test(project)) {
+        throw new Error(`Invalid project "${project}"`);
+    }
+    const dir = path.join(UPLOAD_DIR, project || SHARED_DIR);
+    if (path.dirname(dir) !== UPLOAD_DIR) {
+        throw new Error(`Invalid project "${project}"`);
+    }
+    return dir;
+}
+
+/**
+ * Store an uploaded map. Only the file name is kept; it must end in ".map" and match the bundle's
+ * name plus ".map" (main.3f2a.js → main.3f2a.js.map) for frames to find it.
+ * @returns The stored artifact
+ * @throws Error with a user-facing message for bad names, oversized files and invalid maps
+ */
+export function saveUploadedSourceMap(project: string | null, name: string, content: string): SourceMapArtifact {
+    const dir = getUploadedSourceMapDir(project);
+    const fileName = path.basename(name.replace(/\\/g, '/'));
+    if (!SAFE_NAME.test(fileName) || !fileName.endsWith('.map')) {
+        throw new Error(`"${name}" is not a .map file name`);
+    }
+    if (Buffer.byteLength(content) > MAX_UPLOAD_BYTES) {
+        throw new Error(`${fileName} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+    }
+    parseSourceMap(content); // Reject anything that would not resolve frames later
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, fileName), content);
+
+    return { project, name: fileName, size: Buffer.byteLength(content), uploadedAt: new Date().toISOString() };
+}
+
+/**
+ * Maps uploaded for a project, newest first
+ */
+export function listUploadedSourceMaps(project?: string | null): SourceMapArtifact[] {
+    const dir = getUploadedSourceMapDir(project);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+        .filter((name) => name.endsWith('.map'))
+        .map((name) => {
+            const stat = fs.statSync(path.join(dir, name));
+            return { project: project || null, name, size: stat.size, uploadedAt: stat.mtime.toISOString() };
+        })
+        .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+}
@@ -0,0 +1,173 @@
+/**
+ * Source map v3 decoding (https://tc39.es/source-map/).
+ * Pure and client-safe; loading map files lives in resolver.ts.
+ */
+
+export interface RawSourceMap {
+    version: number;
+    file?: string;
+    sourceRoot?: string;
+    sources: Array<string | null>;
+    sourcesContent?: Array<string | null>;
+    names?: string[];
+    mappings: string;
+    sections?: unknown[];
+}
+
+/**
+ * One decoded mapping: generated column → original source position (all 0-based)
+ */
+export interface MappingSegment {
+    column: number;
+    source?: number;
+    line?: number;
+    sourceColumn?: number;
+    name?: number;
+}
+
+export interface ParsedSourceMap {
+    sources: string[];              // With sourceRoot applied and bundler prefixes removed
+    sourcesContent: Array<string | null>;
+    names: string[];
+    lines: MappingSegment[][];      // Segments per generated line, sorted by column
+}
+
+/**
+ * Original position of a generated line and column (1-based, as in stack traces)
+ */
+export interface OriginalPosition {
+    source: string;
+    sourceIndex: number;
+    line: number;
+    column: number;
+    name?: string;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64].map((char, index) => [char, index]));
+
+/**
+ * Decode the `mappings` string into segments per generated line
+ * @throws Error on characters outside the base64 VLQ alphabet
+ */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+    const lines: MappingSegment[][] = [];
+    // Everything but the generated column is relative to the previous segment across lines
+    let source = 0;
+    let line = 0;
+    let sourceColumn = 0;
+    let name = 0;
+
+    for (const lineText of mappings.split(';')) {
+        const segments: MappingSegment[] = [];
+        let column = 0;
+
+        for (const segmentText of lineText.split(',')) {
+            if (!segmentText) continue;
+
+            const values: number[] = [];
+            let value = 0;
+            let shift = 0;
+            for (const char of segmentText) {
+                const digit = BASE64_VALUES.get(char);
+                if (digit === undefined) {
+                    throw new Error(`Invalid character "${char}" in source map mappings`);
+                }
+                value += (digit & 31) << shift;
+                if (digit & 32) {
+                    shift += 5;
+                } else {
+                    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+                    value = 0;
+                    shift = 0;
+                }
+            }
+
+            column += values[0];
+            const segment: MappingSegment = { column };
+            if (values.length >= 4) {
+                source += values[1];
+                line += values[2];
+                sourceColumn += values[3];
+                Object.assign(segment, { source, line, sourceColumn });
+            }
+            if (values.length >= 5) {
+                name += values[4];
+                segment.name = name;
+            }
+            segments.push(segment);
+        }
+
+        lines.push(segments.sort((a, b) => a.column - b.column));
+    }
+
+    return lines;
+}
+
+/**
+ * Display path of a source: bundler schemes (webpack://app/) and leading "./" removed
+ */
+export function cleanSourcePath(source: string): string {
+    return source
+        .replace(/^webpack:\/\/[^/]*\//, '')
+        .replace(/^[a-z][\w+.-]*:\/\/\/?/i, '')
+        .replace(/^(\.\/)+/, '')
+        .replace(/\?[^/]*$/, '');
+}
+
+/**
+ * Parse a source map file
+ * @throws Error if it is not a version 3 map (index maps with `sections` are not supported)
+ */
+export function parseSourceMap(json: string | RawSourceMap): ParsedSourceMap {
+    const raw = (typeof json === 'string' ? JSON.parse(json.replace(/^\)\]\}'[^\n]*\n/, '')) : json) as RawSourceMap;
+    if (raw?.version !== 3 || typeof raw.mappings !== 'string' || !Array.isArray(raw.sources)) {
+        throw new Error(raw?.sections ? 'Index source maps (with "sections") are not supported' : 'Not a version 3 source map');
+    }
+
+    const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, '/') : '';
+    return {
+        sources: raw.sources.map((source) => cleanSourcePath(source && !/^[a-z][\w+.-]*:/i.test(source) ? root + source : source || '')),
+        sourcesContent: raw.sourcesContent || [],
+        names: raw.names || [],
+        lines: decodeMappings(raw.mappings),
+    };
+}
+
+/**
+ * Look up where a generated position came from
+ * @param map Parsed source map
+ * @param line 1-based generated line
+ * @param column 1-based generated column
+ * @returns The original position, or null if the position is not mapped
+ */
+export function originalPositionFor(map: ParsedSourceMap, line: number, column: number): OriginalPosition | null {
+    const segments = map.lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+
+    // Last segment starting at or before the column
+    const target = Math.max(0, column - 1);
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (segments[middle].column <= target) {
+            found = middle;
+            low = middle + 1;
+        } else {
+            high = middle - 1;
+        }
+    }
+
+    const segment = segments[found];
+    if (!segment || segment.source === undefined || segment.line === undefined) return null;
+
+    return {
+        source: map.sources[segment.source] || '',
+        sourceIndex: segment.source,
+        line: segment.line + 1,
+        column: (segment.sourceColumn || 0) + 1,
+        name: segment.name !== undefined ? map.names[segment.name] : undefined,
+    };
+}
@@ -0,0 +1,5 @@
+export { cleanSourcePath, decodeMappings, originalPositionFor, parseSourceMap } from './decode';
+export type { MappingSegment, OriginalPosition, ParsedSourceMap, RawSourceMap } from './decode';
+export { applySourceMaps, applySourceMapsToMetadata, getSourceMapDirs, resolveExceptionFrames, resolveFrame, resolveFrames } from './resolver';
+export { getUploadedSourceMapDir, listUploadedSourceMaps, saveUploadedSourceMap } from './artifacts';
+export type { SourceMapArtifact } from './artifacts';
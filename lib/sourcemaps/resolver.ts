@@ -0,0 +1,193 @@
+import fs from 'fs';
+import path from 'path';
+import { findSentryProject } from '@/lib/sentry/projects';
+import { findRollbarProject } from '@/lib/rollbar/config';
+import { findFileUnder } from '@/lib/stacktrace/source-context';
+import { getFrameLineNo } from '@/lib/sentry/event-utils';
+import type { SentryEvent, SentryExceptionValue, SentryStackFrame } from '@/lib/sentry/types';
+import { originalPositionFor, parseSourceMap, type ParsedSourceMap } from './decode';
+import { getUploadedSourceMapDir } from './artifacts';
+
+const MAX_MAP_BYTES = 50 * 1024 * 1024;
+const MAX_CACHED_MAPS = 10;         // Decoded maps are large; keep the most recently used ones
+const CONTEXT_LINES = 5;
+const MINIFIED_FILE = /\.(?:m|c)?js(?:[?#].*)?$/i;
+const LIBRARY_SOURCE = /(?:^|\/)node_modules\/|^webpack\/(?:runtime|bootstrap)|^\(webpack\)/;
+// Function headers in original JS/TS sources, used to name the function around a mapped line
+const FUNCTION_NAME = /(?:function\s*\*?\s*([\w$]+)\s*\(|([\w$]+)\s*[:=]\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]*)?=>|[\w$]+\s*=>)|^\s*(?:(?:public|private|protected|static|async|get|set)\s+)*([\w$]+)\s*\([^)]*\)\s*(?::[^{]*)?\{)/;
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const maps = new Map<string, { mtimeMs: number; map: ParsedSourceMap | null }>();
+
+/**
+ * Directories searched for a project's `.map` files, in order: the project's `sourceMapsDir`
+ * (Sentry registry or ROLLBAR_PROJECTS), `SOURCE_MAPS_DIR`, maps uploaded for the project, then shared uploads
+ * @param project Project slug; pasted traces have none
+ */
+export function getSourceMapDirs(project?: string): string[] {
+    const configured = [
+        text(findSentryProject(project)?.sourceMapsDir) || text(findRollbarProject(project)?.sourceMapsDir),
+        text(process.env.SOURCE_MAPS_DIR),
+    ].filter(Boolean).map((dir) => path.resolve(process.cwd(), dir));
+
+    const uploaded: string[] = [];
+    try {
+        if (project) uploaded.push(getUploadedSourceMapDir(project));
+    } catch {
+        // Slug that cannot be a directory name; only shared uploads apply
+    }
+    uploaded.push(getUploadedSourceMapDir(null));
+
+    return [...configured, ...uploaded].filter((dir) => fs.existsSync(dir));
+}
+
+// Read and decode a map, reusing the decoded copy until the file changes
+function loadSourceMap(file: string): ParsedSourceMap | null {
+    let mtimeMs: number;
+    try {
+        mtimeMs = fs.statSync(file).mtimeMs;
+    } catch {
+        return null;
+    }
+
+    const cached = maps.get(file);
+    if (cached && cached.mtimeMs === mtimeMs) {
+        maps.delete(file);
+        maps.set(file, cached);
+        return cached.map;
+    }
+
+    let map: ParsedSourceMap | null = null;
+    try {
+        map = parseSourceMap(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+        console.warn(`⚠️ Ignoring source map ${file}:`, error instanceof Error ? error.message : error);
+    }
+
+    maps.set(file, { mtimeMs, map });
+    if (maps.size > MAX_CACHED_MAPS) {
+        maps.delete(maps.keys().next().value!);
+    }
+    return map;
+}
+
+// Name of the function around a line of original source, searching upwards
+function enclosingFunctionName(content: string | null | undefined, line: number): string | undefined {
+    if (!content) return undefined;
+    const lines = content.split(/\r?\n/);
+    for (let index = Math.min(line, lines.length) - 1; index >= 0 && index >= line - 200; index--) {
+        const match = lines[index].match(FUNCTION_NAME);
+        const name = match?.[1] || match?.[2] || match?.[3];
+        if (name && !['if', 'for', 'while', 'switch', 'catch'].includes(name)) {
+            return name;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Map one minified frame back to its original file, line, column and function.
+ * Frames Sentry already resolved (`data.sourcemap`), non-JS frames and frames without a map are returned as is.
+ * @param frame Stack frame
+ * @param dirs Directories to search (see getSourceMapDirs)
+ */
+export function resolveFrame(frame: SentryStackFrame, dirs: string[]): SentryStackFrame {
+    const lineNo = getFrameLineNo(frame);
+    const colNo = frame.colNo ?? (typeof frame.colno === 'number' ? frame.colno : undefined);
+    const file = text(frame.absPath) || text(frame.filename);
+    if (frame.data?.sourcemap || !lineNo || !MINIFIED_FILE.test(file)) {
+        return frame;
+    }
+
+    for (const dir of dirs) {
+        // The bundle's own file name is usually unique (content hash), so one segment is enough
+        const mapFile = findFileUnder(dir, [frame.absPath, frame.filename], { suffix: '.map', minSegments: 1, maxBytes: MAX_MAP_BYTES });
+        const map = mapFile ? loadSourceMap(mapFile) : null;
+        const position = map ? originalPositionFor(map, lineNo, colNo ?? 1) : null;
+        if (!map || !mapFile || !position) continue;
+
+        const content = map.sourcesContent[position.sourceIndex];
+        const sourceLines = content ? content.split(/\r?\n/) : [];
+        const context: Array<[number, string]> = [];
+        for (let line = Math.max(1, position.line - CONTEXT_LINES); line <= Math.min(sourceLines.length, position.line + CONTEXT_LINES); line++) {
+            context.push([line, sourceLines[line - 1]]);
+        }
+
+        // Drop the minified context (one enormous line) along with the minified position
+        return {
+            ...frame,
+            context_line: undefined,
+            pre_context: undefined,
+            post_context: undefined,
+            lineno: undefined,
+            colno: undefined,
+            filename: position.source,
+            absPath: position.source,
+            function: enclosingFunctionName(content, position.line) || position.name || frame.function,
+            lineNo: position.line,
+            colNo: position.column,
+            context,
+            inApp: !LIBRARY_SOURCE.test(position.source),
+            in_app: undefined,
+            data: {
+                ...frame.data,
+                sourcemap: path.relative(dir, mapFile),
+                minified: { filename: frame.filename, function: frame.function, lineNo, colNo },
+            },
+        };
+    }
+
+    return frame;
+}
+
+/**
+ * Map every frame of a list (see resolveFrame)
+ * @returns The same array when nothing was mapped
+ */
+export function resolveFrames(frames: SentryStackFrame[], dirs: string[]): SentryStackFrame[] {
+    if (dirs.length === 0) return frames;
+    const resolved = frames.map((frame) => resolveFrame(frame, dirs));
+    return resolved.some((frame, index) => frame !== frames[index]) ? resolved : frames;
+}
+
+/**
+ * Map the frames of exception values
+ */
+export function resolveExceptionFrames(exceptions: SentryExceptionValue[], dirs: string[]): SentryExceptionValue[] {
+    return exceptions.map((exception) => {
+        const frames = exception.stacktrace?.frames;
+        if (!frames || frames.length === 0) return exception;
+        const resolved = resolveFrames(frames, dirs);
+        return resolved === frames ? exception : { ...exception, stacktrace: { ...exception.stacktrace, frames: resolved } };
+    });
+}
+
+/**
+ * A copy of a full event with its exception and thread frames mapped through the project's source maps
+ * @param event Full event (with entries)
+ * @param project Project slug
+ */
+export function applySourceMaps<T extends SentryEvent | null | undefined>(event: T, project?: string, dirs = getSourceMapDirs(project)): T {
+    if (!event || !event.entries || dirs.length === 0) return event;
+
+    const entries = event.entries.map((entry) => {
+        const values = (entry.data as { values?: SentryExceptionValue[] } | undefined)?.values;
+        if ((entry.type !== 'exception' && entry.type !== 'threads') || !Array.isArray(values)) {
+            return entry;
+        }
+        return { ...entry, data: { ...entry.data, values: resolveExceptionFrames(values, dirs) } };
+    });
+    return { ...event, entries };
+}
+
+/**
+ * Issue metadata with `metadata.stacktrace.frames` mapped, for sources that put frames there
+ */
+export function applySourceMapsToMetadata<T extends Record<string, unknown> | null | undefined>(metadata: T, project?: string, dirs = getSourceMapDirs(project)): T {
+    const stacktrace = metadata?.stacktrace as { frames?: SentryStackFrame[] } | undefined;
+    if (!metadata || !Array.isArray(stacktrace?.frames) || dirs.length === 0) return metadata;
+
+    const frames = resolveFrames(stacktrace.frames, dirs);
+    return frames === stacktrace.frames ? metadata : { ...metadata, stacktrace: { ...stacktrace, frames } };
+}
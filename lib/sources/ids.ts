@@ -0,0 +1,30 @@
+import type { ErrorSourceId } from './types';
+
+// Sentry IDs are used as-is so existing links keep working; other sources get a prefix
+const ID_PREFIXES: Partial<Record<ErrorSourceId, string>> = {
+    rollbar: 'rollbar-',
+};
+
+/**
+ * Build the dashboard issue ID for an issue of a source
+ * @param source Source the issue comes from
+ * @param id The source's own issue ID
+ * @returns ID that is unique across sources, e.g. "rollbar-272505123"
+ */
+export function toSourceIssueId(source: ErrorSourceId, id: string | number): string {
+    return `${ID_PREFIXES[source] || ''}${id}`;
+}
+
+/**
+ * Split a dashboard issue ID into its source and the source's own ID
+ * @param issueId ID from a dashboard URL
+ * @returns Source and ID; unprefixed IDs belong to Sentry
+ */
+export function parseSourceIssueId(issueId: string): { source: ErrorSourceId; id: string } {
+    for (const [source, prefix] of Object.entries(ID_PREFIXES) as Array<[ErrorSourceId, string]>) {
+        if (issueId.startsWith(prefix)) {
+            return { source, id: issueId.slice(prefix.length) };
+        }
+    }
+    return { source: 'sentry', id: issueId };
+}
@@ -0,0 +1,27 @@
+import { parseSourceIssueId } from './ids';
+import { rollbarSource } from './rollbar';
+import { sentrySource } from './sentry';
+import type { ErrorSource } from './types';
+
+export { toSourceIssueId, parseSourceIssueId } from './ids';
+export { isErrorSourceApiError, type ErrorSourceApiError } from './normalize';
+export type { ErrorSource, ErrorSourceId, ErrorSourceIssue, ErrorSourceEvent, ErrorSourcePage } from './types';
+
+const SOURCES: ErrorSource[] = [sentrySource, rollbarSource];
+
+/**
+ * Error sources with at least one registered project, Sentry first
+ */
+export function getErrorSources(): ErrorSource[] {
+    return SOURCES.filter((source) => source.getProjects().length > 0);
+}
+
+/**
+ * Find the source an issue belongs to from its dashboard ID
+ * @param issueId ID from a dashboard URL (e.g. "4512345678" or "rollbar-272505123")
+ * @returns The source and the source's own issue ID
+ */
+export function resolveIssueSource(issueId: string): { source: ErrorSource; id: string } {
+    const { source, id } = parseSourceIssueId(issueId);
+    return { source: SOURCES.find((candidate) => candidate.id === source) || sentrySource, id };
+}
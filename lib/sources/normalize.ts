@@ -0,0 +1,47 @@
+import { SentryApiError } from '@/lib/sentry/client';
+import { RollbarApiError } from '@/lib/rollbar/client';
+import type { SentryIssue } from '@/lib/sentry/types';
+import type { SentryError } from '@/lib/utils/linear-matcher';
+import type { ProjectInfo } from '@/lib/utils/projects';
+import type { ErrorSourceId } from './types';
+
+// Number of full events (latest first) to fetch per issue for AI explanations
+export const FULL_EVENT_COUNT = Math.min(10, Math.max(1, parseInt(process.env.SENTRY_FULL_EVENTS || '1', 10) || 1));
+
+/**
+ * API error thrown by any error source
+ */
+export type ErrorSourceApiError = SentryApiError | RollbarApiError;
+
+export function isErrorSourceApiError(error: unknown): error is ErrorSourceApiError {
+    return error instanceof SentryApiError || error instanceof RollbarApiError;
+}
+
+/**
+ * Transform a (normalized) issue into a dashboard list row
+ * @param issue Issue in the common model; `id` must already be the dashboard ID
+ * @param project Project the issue belongs to
+ * @param source Source the issue comes from
+ * @param statsPeriod Stats series to read from `issue.stats`, if any
+ */
+export function toErrorSummary(issue: Partial<SentryIssue> & { id: string }, project: ProjectInfo, source: ErrorSourceId, statsPeriod?: string): SentryError {
+    const now = new Date().toISOString();
+    const stats = statsPeriod ? issue.stats?.[statsPeriod] : undefined;
+    return {
+        id: issue.id,
+        source,
+        title: issue.title || '',
+        level: issue.level || 'error',
+        firstSeen: issue.firstSeen || now,
+        lastSeen: issue.lastSeen || now,
+        count: typeof issue.count === 'number' ? issue.count : parseInt(String(issue.count || 0), 10),
+        userCount: typeof issue.userCount === 'number' ? issue.userCount : parseInt(String(issue.userCount || 0), 10),
+        project: project.slug,
+        projectName: project.name,
+        projectType: project.category,
+        projectColor: project.color,
+        culprit: issue.culprit || '',
+        stats,
+        statsPeriod: stats ? statsPeriod : undefined,
+    };
+}
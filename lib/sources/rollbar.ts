@@ -0,0 +1,268 @@
+import { findRollbarProject, getRollbarProjects, getRollbarTarget, type RollbarProject, type RollbarTarget } from '@/lib/rollbar/config';
+import { getInstance, getItem, listItemInstances, listItems, RollbarApiError } from '@/lib/rollbar/client';
+import { rollbarCulprit, rollbarInstanceToEvent, rollbarItemToIssue } from '@/lib/rollbar/normalize';
+import type { RollbarInstance, RollbarItem } from '@/lib/rollbar/types';
+import { encodeErrorsCursor, decodeErrorsCursor } from '@/lib/sentry/pagination';
+import { eventTag } from '@/lib/sentry/event-utils';
+import type { SentryEvent, SentryTag } from '@/lib/sentry/types';
+import type { SentryError } from '@/lib/utils/linear-matcher';
+import { toSourceIssueId } from './ids';
+import { FULL_EVENT_COUNT, toErrorSummary } from './normalize';
+import type { ErrorSource, ErrorSourceIssue, ErrorSourceListOptions, ErrorSourcePage } from './types';
+
+const ROLLBAR_PAGE_SIZE = 100; // Rollbar returns items in fixed pages of 100
+const MAX_PAGES = 5;
+
+// Sentry's `is:` filters mapped to Rollbar item statuses
+const STATUS_FILTERS: Record<string, string> = {
+    unresolved: 'active',
+    resolved: 'resolved',
+    ignored: 'muted',
+};
+
+const PERIOD_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+interface RollbarFilters {
+    status?: string;
+    level?: string;
+    text: string[];             // Free-text terms, matched against item titles
+}
+
+// Translate the Sentry search syntax the dashboard sends into what Rollbar's items API understands
+function parseQuery(query: string): RollbarFilters {
+    const filters: RollbarFilters = { text: [] };
+    query.split(/\s+/).filter(Boolean).forEach((term) => {
+        const [key, ...rest] = term.split(':');
+        const value = rest.join(':').replace(/^"|"$/g, '');
+        if (key === 'is' && STATUS_FILTERS[value]) {
+            filters.status = STATUS_FILTERS[value];
+        } else if (key === 'level' && value) {
+            filters.level = value === 'fatal' ? 'critical' : value;
+        } else if (!rest.length) {
+            filters.text.push(term.toLowerCase());
+        }
+    });
+    return filters;
+}
+
+// `key:"value"` pairs from a tag filter built with tagSearchQuery
+function parseTagQuery(query: string): Array<[string, string]> {
+    return Array.from(query.matchAll(/([^\s:]+):"((?:[^"\\]|\\.)*)"/g), (match) => [match[1], match[2].replace(/\\(.)/g, '$1')]);
+}
+
+// Tag value distributions computed from the occurrences we have (Rollbar has no tags endpoint)
+function tagDistributions(events: SentryEvent[]): SentryTag[] {
+    const counts = new Map<string, Map<string, number>>();
+    events.forEach((event) => {
+        (event.tags || []).forEach((tag) => {
+            if (!tag.value) return;
+            const values = counts.get(tag.key) || new Map<string, number>();
+            values.set(tag.value, (values.get(tag.value) || 0) + 1);
+            counts.set(tag.key, values);
+        });
+    });
+
+    return Array.from(counts, ([key, values]) => ({
+        key,
+        totalValues: Array.from(values.values()).reduce((sum, count) => sum + count, 0),
+        topValues: Array.from(values, ([value, count]) => ({ key, value, count })).sort((a, b) => b.count - a.count),
+    }));
+}
+
+function configuredProjects(): Array<{ project: RollbarProject; target: RollbarTarget }> {
+    return getRollbarProjects()
+        .map((project) => ({ project, target: getRollbarTarget(project) }))
+        .filter((entry): entry is { project: RollbarProject; target: RollbarTarget } => entry.target !== null);
+}
+
+// Rollbar item IDs are global but tokens are per project, so try the issue's project first, then the others
+async function firstFound<T>(projectSlug: string | undefined, request: (target: RollbarTarget, project: RollbarProject) => Promise<T>): Promise<T> {
+    const preferred = findRollbarProject(projectSlug);
+    const candidates = configuredProjects().sort((a, b) => Number(b.project === preferred) - Number(a.project === preferred));
+
+    let lastError: RollbarApiError | null = null;
+    for (const { project, target } of candidates) {
+        try {
+            return await request(target, project);
+        } catch (error) {
+            if (!(error instanceof RollbarApiError)) throw error;
+            lastError = error;
+            if (!error.isNotFound) break;
+        }
+    }
+    throw lastError || new Error('No Rollbar request was made');
+}
+
+/**
+ * List active items across all configured Rollbar projects.
+ * Rollbar has no search or date filter on this endpoint, so free text, environments and the
+ * stats period are applied to each page after it is fetched.
+ */
+async function listIssues(options: ErrorSourceListOptions): Promise<ErrorSourcePage> {
+    const projects = configuredProjects();
+    if (projects.length === 0) {
+        return { errors: [], nextCursor: null, warnings: [], failure: { message: `Rollbar credentials not configured. ${rollbarSource.setupHint}` } };
+    }
+
+    let pageCursors: Record<string, string> | null = null;
+    if (options.cursor) {
+        pageCursors = decodeErrorsCursor(options.cursor);
+        if (!pageCursors) {
+            return { errors: [], nextCursor: null, warnings: [], failure: { message: 'Invalid Rollbar cursor' } };
+        }
+    }
+
+    const filters = parseQuery(options.query);
+    const since = options.statsPeriod
+        ? Date.now() - parseInt(options.statsPeriod, 10) * PERIOD_MS[options.statsPeriod.slice(-1)]
+        : 0;
+    const matches = (item: RollbarItem) =>
+        (options.environments.length === 0 || options.environments.includes(item.environment || '')) &&
+        item.last_occurrence_timestamp * 1000 >= since &&
+        filters.text.every((term) => item.title.toLowerCase().includes(term));
+
+    const allErrors: SentryError[] = [];
+    const warnings: string[] = [];
+    const nextCursors: Record<string, string> = {}; // project slug -> next Rollbar page number
+    let retryAfter = 0;
+    let failures = 0;
+    let firstFailure: { message: string; details: string } | null = null;
+
+    const projectsToFetch = pageCursors ? projects.filter(({ project }) => pageCursors && project.slug in pageCursors) : projects;
+
+    for (const { project, target } of projectsToFetch) {
+        let page = parseInt(pageCursors?.[project.slug] || '1', 10) || 1;
+        let fetched = 0;
+        let pages = 0;
+        let hasMore = true;
+
+        while (fetched < options.limit && pages < MAX_PAGES && hasMore) {
+            const params = new URLSearchParams({ page: String(page) });
+            if (filters.status) params.set('status', filters.status);
+            if (filters.level) params.set('level', filters.level);
+
+            let items: RollbarItem[];
+            try {
+                items = (await listItems(target, params, { revalidate: 60 })).items || []; // Cache for 60 seconds
+            } catch (error) {
+                if (!(error instanceof RollbarApiError)) throw error;
+
+                console.error(`Rollbar API error for project ${project.name}:`, {
+                    status: error.status,
+                    statusText: error.statusText,
+                    url: error.url,
+                    errorDetails: error.details,
+                    project: project.slug,
+                });
+
+                if (error.isRateLimited) {
+                    retryAfter = Math.max(retryAfter, error.retryAfter ?? 60);
+                }
+                const message = error.status === 401 || error.status === 403
+                    ? `${error.status} - Rollbar rejected the access token for ${project.name} (${project.slug}). It needs the 'read' scope.\n\nError details: ${error.details}`
+                    : `Failed to fetch Rollbar project ${project.name} (${project.slug}): ${error.status} ${error.statusText}`;
+                warnings.push(message);
+                if (pages === 0) {
+                    failures++;
+                    firstFailure = firstFailure || { message, details: error.details };
+                }
+                nextCursors[project.slug] = String(page); // Retry this page on the next "load more"
+                break;
+            }
+
+            pages++;
+            page++;
+            hasMore = items.length >= ROLLBAR_PAGE_SIZE;
+
+            const projectErrors = items
+                .filter(matches)
+                .map((item) => toErrorSummary(rollbarItemToIssue(item, project), project, 'rollbar'));
+            allErrors.push(...projectErrors);
+            fetched += projectErrors.length;
+        }
+
+        if (hasMore && !(project.slug in nextCursors)) {
+            nextCursors[project.slug] = String(page);
+        }
+    }
+
+    if (failures === projectsToFetch.length && firstFailure) {
+        return { errors: [], nextCursor: null, warnings: [], retryAfter: retryAfter || undefined, failure: firstFailure };
+    }
+
+    return {
+        errors: allErrors,
+        nextCursor: encodeErrorsCursor(nextCursors),
+        warnings,
+        retryAfter: retryAfter || undefined,
+    };
+}
+
+// Full events for an item's most recent occurrences, newest first
+async function loadEvents(target: RollbarTarget, itemId: string): Promise<{ instances: RollbarInstance[]; events: SentryEvent[] }> {
+    const instances = (await listItemInstances(target, itemId, { revalidate: 120 })).instances || []; // Cache for 2 minutes
+    const issueId = toSourceIssueId('rollbar', itemId);
+    return { instances, events: instances.map((instance) => rollbarInstanceToEvent(instance, issueId)) };
+}
+
+export const rollbarSource: ErrorSource = {
+    id: 'rollbar',
+    name: 'Rollbar',
+    setupHint: 'Please set ROLLBAR_ACCESS_TOKEN (or ROLLBAR_PROJECTS with an accessTokenEnv per project).',
+
+    getProjects: () => getRollbarProjects().map(({ slug, name, category, color }) => ({ slug, name, category, color })),
+    isConfigured: () => configuredProjects().length > 0,
+
+    listIssues,
+
+    getIssue(itemId, projectSlug) {
+        return firstFound<ErrorSourceIssue>(projectSlug, async (target, project) => {
+            const [item, { instances, events }] = await Promise.all([
+                getItem(target, itemId, { revalidate: 120 }),
+                loadEvents(target, itemId),
+            ]);
+            const issue = rollbarItemToIssue(item, project);
+            const latestEvent = events[0] || null;
+            if (instances[0]) {
+                issue.culprit = rollbarCulprit(instances[0]);
+                issue.metadata = { ...issue.metadata, ...latestEvent?.metadata };
+            }
+
+            return {
+                issue,
+                project: project.slug,
+                events: events.slice(0, 10),
+                latestEvent,
+                recentEvents: events.slice(1, FULL_EVENT_COUNT),
+                tagDistributions: tagDistributions(events),
+            };
+        });
+    },
+
+    async getEvents(itemId, options = {}) {
+        const pairs = parseTagQuery(options.query || '');
+        const events = await firstFound(options.project, async (target) => (await loadEvents(target, itemId)).events);
+        return events.filter((event) => pairs.every(([key, value]) => eventTag(event, key) === value));
+    },
+
+    getEvent(itemId, eventId, projectSlug) {
+        return firstFound(projectSlug, async (target, project) => {
+            // Occurrences never change once stored, so they can be cached longer than the item
+            const [instance, item, { instances }] = await Promise.all([
+                getInstance(target, eventId, { revalidate: 3600 }),
+                getItem(target, itemId, { revalidate: 120 }).catch(() => null),
+                loadEvents(target, itemId).catch(() => ({ instances: [] as RollbarInstance[] })),
+            ]);
+            const event = rollbarInstanceToEvent(instance, toSourceIssueId('rollbar', itemId));
+
+            // Neighbours within the most recent page of occurrences (newest first)
+            const index = instances.findIndex((other) => String(other.id) === eventId);
+            if (index >= 0) {
+                event.previousEventID = instances[index + 1] ? String(instances[index + 1].id) : null;
+                event.nextEventID = index > 0 ? String(instances[index - 1].id) : null;
+            }
+
+            return { event, issue: item && rollbarItemToIssue(item, project), project: project.slug };
+        });
+    },
+};
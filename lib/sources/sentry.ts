@@ -0,0 +1,352 @@
+import { getSentryRegistry, findSentryProject, getSentryProjects, toProjectInfo } from '@/lib/sentry/projects';
+import { getAllSentryTargets, getSentryTarget, type SentryTarget } from '@/lib/sentry/config';
+import {
+    getIssue,
+    getIssueEvent,
+    getOrganization,
+    getProjectIssue,
+    listIssueEvents,
+    listIssueTags,
+    listProjectIssues,
+    SentryApiError,
+    SENTRY_ISSUES_TAG,
+    sentryIssueTag,
+} from '@/lib/sentry/client';
+import { encodeErrorsCursor, decodeErrorsCursor } from '@/lib/sentry/pagination';
+import { getWebhookIssueStates } from '@/lib/sentry/webhook-store';
+import type { SentryEvent, SentryIssue, SentryTag } from '@/lib/sentry/types';
+import type { SentryError } from '@/lib/utils/linear-matcher';
+import { FULL_EVENT_COUNT, toErrorSummary } from './normalize';
+import type { ErrorSource, ErrorSourceIssue, ErrorSourceListOptions, ErrorSourcePage } from './types';
+
+const SENTRY_PAGE_SIZE = 100; // Sentry caps issue pages at 100
+const WEBHOOK_OVERLAY_MS = 10 * 60 * 1000; // Show webhook-created issues until Sentry's list catches up
+
+// Identify a Sentry connection so each org is only checked once per request
+function targetKey(target: SentryTarget): string {
+    return `${target.baseUrl}|${target.org}|${target.authToken}`;
+}
+
+// Use the issue's project connection if known, otherwise every configured Sentry instance
+function issueTargets(projectSlug?: string): SentryTarget[] {
+    const registry = getSentryRegistry();
+    const projectTarget = getSentryTarget(findSentryProject(projectSlug, registry.projects), registry);
+    return projectSlug && projectTarget ? [projectTarget] : getAllSentryTargets(registry);
+}
+
+// Run a request against each target until one finds the issue; other errors are not masked by later instances
+async function firstFound<T>(targets: SentryTarget[], request: (target: SentryTarget) => Promise<T>): Promise<T> {
+    let lastError: SentryApiError | null = null;
+    for (const target of targets) {
+        try {
+            return await request(target);
+        } catch (error) {
+            if (!(error instanceof SentryApiError)) throw error;
+            lastError = error;
+            if (!error.isNotFound) break;
+        }
+    }
+    throw lastError || new Error('No Sentry request was made');
+}
+
+/**
+ * List issues across all registered projects, following Sentry's Link cursors per project
+ */
+async function listIssues(options: ErrorSourceListOptions): Promise<ErrorSourcePage> {
+    const { limit, query, environments, statsPeriod, sort } = options;
+    const registry = getSentryRegistry();
+    const projects = registry.projects;
+    const maxPages = Math.max(1, parseInt(process.env.SENTRY_MAX_PAGES || '5', 10) || 5);
+    // Sentry returns each issue's stats series for the requested period; without one it
+    // still returns the 24h series, so "any time" lists get hourly sparklines without a date filter
+    const seriesPeriod = statsPeriod || '24h';
+
+    // Resolve the Sentry connection (base URL, org, auth token) for each project
+    const targets = new Map(projects.map((project) => [project.slug, getSentryTarget(project, registry)]));
+
+    if (projects.every((project) => !targets.get(project.slug))) {
+        return {
+            errors: [],
+            nextCursor: null,
+            warnings: [],
+            failure: { message: 'Sentry credentials not configured. Please set SENTRY_AUTH_TOKEN and SENTRY_ORG environment variables.' },
+        };
+    }
+
+    let projectCursors: Record<string, string> | null = null;
+    if (options.cursor) {
+        projectCursors = decodeErrorsCursor(options.cursor);
+        if (!projectCursors) {
+            return { errors: [], nextCursor: null, warnings: [], failure: { message: 'Invalid Sentry cursor' } };
+        }
+    }
+
+    // When continuing from a cursor, only projects that still have results are fetched
+    const projectsToFetch = projectCursors
+        ? projects.filter((project) => projectCursors && project.slug in projectCursors)
+        : projects;
+
+    const allErrors: SentryError[] = [];
+    const errors: string[] = [];
+    const nextCursors: Record<string, string> = {}; // project slug -> Sentry cursor for the next page
+
+    // First, verify each token works by checking its organization
+    // This helps diagnose 403 errors
+    const checkedTargets = new Set<string>();
+    const failedTargets = new Set<string>();
+    let firstFailure: { message: string; details: string } | null = null;
+    let retryAfter = 0; // Longest Sentry rate limit wait seen, in seconds
+
+    for (const project of projectsToFetch) {
+        const target = targets.get(project.slug);
+        if (!target) {
+            errors.push(`Skipping project ${project.name} (${project.slug}): no Sentry org or auth token configured`);
+            continue;
+        }
+        const key = targetKey(target);
+        if (checkedTargets.has(key)) continue;
+        checkedTargets.add(key);
+
+        try {
+            await getOrganization(target, { revalidate: 300 }); // Cache for 5 minutes
+        } catch (error) {
+            if (!(error instanceof SentryApiError)) throw error;
+
+            console.error('Sentry Org API error:', {
+                status: error.status,
+                statusText: error.statusText,
+                url: error.url,
+                errorDetails: error.details,
+                org: target.org,
+            });
+
+            let userMessage = '';
+            if (error.status === 403) {
+                userMessage = `403 Forbidden - Cannot access organization "${target.org}" on ${target.baseUrl}. Please verify:\n\n1. ✅ Your auth token has 'org:read' scope\n2. ✅ Your organization slug is correct (check URL: ${target.baseUrl}/organizations/[slug]/)\n3. ✅ Your account has access to this organization\n4. ✅ Token is not expired\n\nError details: ${error.details}`;
+            } else if (error.status === 401) {
+                userMessage = `401 Unauthorized - Invalid auth token for ${target.baseUrl}. Please verify your SENTRY_AUTH_TOKEN (or the project's authTokenEnv) is correct.\n\nError details: ${error.details}`;
+            } else if (error.status === 404) {
+                userMessage = `404 Not Found - Organization "${target.org}" not found on ${target.baseUrl}. Please check the organization slug and base URL.\n\nError details: ${error.details}`;
+            } else if (error.isRateLimited) {
+                userMessage = `429 Too Many Requests - Sentry rate limit reached for ${target.baseUrl}. Try again in ${error.retryAfter ?? 60}s.`;
+                retryAfter = Math.max(retryAfter, error.retryAfter ?? 60);
+            } else {
+                userMessage = `Failed to access Sentry organization "${target.org}" on ${target.baseUrl}: ${error.status} ${error.statusText}\n\nError details: ${error.details}`;
+            }
+
+            failedTargets.add(key);
+            firstFailure = firstFailure || { message: userMessage, details: error.details };
+            errors.push(userMessage);
+        }
+    }
+
+    // If no project can be reached, surface the org error instead of an empty list
+    const reachableProjects = projectsToFetch.filter((project) => {
+        const target = targets.get(project.slug);
+        return target && !failedTargets.has(targetKey(target));
+    });
+
+    if (reachableProjects.length === 0 && firstFailure) {
+        return { errors: [], nextCursor: null, warnings: [], retryAfter: retryAfter || undefined, failure: firstFailure };
+    }
+
+    // Fetch errors from all reachable projects
+    for (const project of reachableProjects) {
+        const target = targets.get(project.slug)!;
+        try {
+            let cursor: string | undefined = projectCursors?.[project.slug];
+            let fetched = 0;
+            let pages = 0;
+
+            // Follow Sentry's Link cursors until we have `limit` issues, run out of pages or hit the cap
+            while (fetched < limit && pages < maxPages) {
+                const params = new URLSearchParams({
+                    limit: String(Math.min(SENTRY_PAGE_SIZE, limit - fetched)),
+                    query,
+                    sort,
+                });
+                environments.forEach((env) => params.append('environment', env));
+                if (statsPeriod) {
+                    params.set('statsPeriod', statsPeriod); // Also selects the `stats` series returned per issue
+                }
+                if (cursor) {
+                    params.set('cursor', cursor);
+                }
+                let page;
+                try {
+                    page = await listProjectIssues(target, project.slug, params, { revalidate: 60, tags: [SENTRY_ISSUES_TAG] }); // Cache for 60 seconds
+                } catch (error) {
+                    if (!(error instanceof SentryApiError)) throw error;
+
+                    console.error(`Sentry API error for project ${project.name}:`, {
+                        status: error.status,
+                        statusText: error.statusText,
+                        url: error.url,
+                        errorDetails: error.details,
+                        org: target.org,
+                        project: project.slug,
+                    });
+
+                    if (error.isRateLimited) {
+                        retryAfter = Math.max(retryAfter, error.retryAfter ?? 60);
+                    }
+                    errors.push(`Failed to fetch project ${project.name} (${project.slug}): ${error.status} ${error.statusText}`);
+                    // Keep the cursor so the client can retry this project on the next "load more"
+                    if (cursor) {
+                        nextCursors[project.slug] = cursor;
+                    }
+                    break; // Continue with other projects
+                }
+
+                pages++;
+
+                const projectErrors = page.data.map((issue) => toErrorSummary(issue, project, 'sentry', seriesPeriod));
+
+                allErrors.push(...projectErrors);
+                fetched += projectErrors.length;
+
+                const { next } = page.links;
+                cursor = next?.results ? next.cursor : undefined;
+                if (!cursor) {
+                    break; // No more pages for this project
+                }
+            }
+
+            if (cursor && !(project.slug in nextCursors)) {
+                nextCursors[project.slug] = cursor;
+            }
+        } catch (error) {
+            console.error(`Error fetching project ${project.name} errors:`, error);
+            errors.push(`Error fetching project ${project.name} (${project.slug}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    // Sentry's issue search can lag a few minutes behind; add issues we just heard about via webhook.
+    // Only for the first page of the default view, where a new unresolved issue is guaranteed to belong.
+    if (!options.cursor && query === 'is:unresolved' && environments.length === 0) {
+        const listed = new Set(allErrors.map((err) => err.id));
+        getWebhookIssueStates(WEBHOOK_OVERLAY_MS).forEach((state) => {
+            const project = reachableProjects.find((p) => p.slug === state.projectSlug);
+            const issue = state.record.issue;
+            if (!project || !issue?.id || listed.has(state.issueId)) return;
+            if (!state.createdAt || (state.status && state.status !== 'unresolved')) return;
+            allErrors.push(toErrorSummary({ ...issue, id: issue.id }, project, 'sentry'));
+        });
+    }
+
+    return {
+        errors: allErrors,
+        nextCursor: encodeErrorsCursor(nextCursors),
+        warnings: errors,
+        retryAfter: retryAfter || undefined,
+    };
+}
+
+// Fetch recent event summaries, the full latest event and tag distributions for an issue
+async function loadIssueDetails(issueData: SentryIssue, issueId: string, projectSlug: string, target: SentryTarget): Promise<ErrorSourceIssue> {
+    const [eventsResult, latestResult, tagsResult] = await Promise.allSettled([
+        listIssueEvents(target, issueId, { revalidate: 120 }), // Cache for 2 minutes
+        getIssueEvent(target, issueId, 'latest', { revalidate: 120 }),
+        listIssueTags(target, issueId, { revalidate: 300, tags: [sentryIssueTag(issueId)] }),
+    ]);
+    const events: SentryEvent[] = eventsResult.status === 'fulfilled' ? eventsResult.value : [];
+    const latestEvent: SentryEvent | null = latestResult.status === 'fulfilled' ? latestResult.value : null;
+    if (eventsResult.status === 'rejected') {
+        console.error('Failed to fetch events:', eventsResult.reason);
+    }
+    if (latestResult.status === 'rejected') {
+        console.error('Failed to fetch latest event:', latestResult.reason);
+    }
+    const tagDistributions: SentryTag[] = tagsResult.status === 'fulfilled' ? tagsResult.value : [];
+    if (tagsResult.status === 'rejected') {
+        console.error('Failed to fetch tag distributions:', tagsResult.reason);
+    }
+
+    // Optionally fetch a few more full events so the AI can compare occurrences
+    let recentEvents: SentryEvent[] = [];
+    const extraEvents = FULL_EVENT_COUNT - 1;
+    if (extraEvents > 0) {
+        const eventIds = events
+            .map((event) => event.eventID || event.id)
+            .filter((eventId) => eventId && eventId !== latestEvent?.eventID)
+            .slice(0, extraEvents);
+        const results = await Promise.allSettled(
+            eventIds.map((eventId) => getIssueEvent(target, issueId, eventId, { revalidate: 300 }))
+        );
+        recentEvents = results
+            .filter((result): result is PromiseFulfilledResult<SentryEvent> => result.status === 'fulfilled')
+            .map((result) => result.value);
+    }
+
+    return { issue: issueData, project: projectSlug, events, latestEvent, recentEvents, tagDistributions };
+}
+
+/**
+ * Fetch an issue with its events, trying the direct issues endpoint on every Sentry instance
+ * and then each registered project (for tokens scoped to a single project)
+ */
+async function getIssueDetails(issueId: string): Promise<ErrorSourceIssue> {
+    const registry = getSentryRegistry();
+    const projects = registry.projects;
+    const targets = getAllSentryTargets(registry);
+
+    console.log('Fetching error details for ID:', issueId);
+    console.log('Organizations:', targets.map((target) => `${target.org} (${target.baseUrl})`).join(', '));
+
+    try {
+        return await firstFound(targets, async (target) => {
+            const issueData = await getIssue(target, issueId, { revalidate: 120, tags: [sentryIssueTag(issueId)] }); // Cache for 2 minutes
+            const issueProjectSlug = issueData.project?.slug || projects[0]?.slug || 'default';
+            return loadIssueDetails(issueData, issueId, issueProjectSlug, target);
+        });
+    } catch (error) {
+        if (!(error instanceof SentryApiError) || !error.isNotFound) throw error;
+
+        console.log('Direct endpoint failed, trying project-specific endpoints');
+        for (const project of projects) {
+            const target = getSentryTarget(project, registry);
+            if (!target) continue;
+
+            try {
+                const issueData = await getProjectIssue(target, project.slug, issueId, { revalidate: 120, tags: [sentryIssueTag(issueId)] });
+                return await loadIssueDetails(issueData, issueId, project.slug, target);
+            } catch (projectError) {
+                if (!(projectError instanceof SentryApiError)) throw projectError;
+            }
+        }
+        throw error;
+    }
+}
+
+export const sentrySource: ErrorSource = {
+    id: 'sentry',
+    name: 'Sentry',
+    setupHint: 'Please set SENTRY_AUTH_TOKEN and SENTRY_ORG environment variables.',
+
+    getProjects: () => toProjectInfo(getSentryProjects()),
+    isConfigured: () => getAllSentryTargets().length > 0,
+
+    listIssues,
+    getIssue: (issueId) => getIssueDetails(issueId),
+
+    getEvents(issueId, options = {}) {
+        const params = new URLSearchParams();
+        if (options.query) {
+            params.set('query', options.query);
+        }
+        return firstFound(issueTargets(options.project), (target) =>
+            listIssueEvents(target, issueId, { revalidate: 120, tags: [sentryIssueTag(issueId)] }, params)
+        );
+    },
+
+    getEvent(issueId, eventId, project) {
+        return firstFound(issueTargets(project), async (target) => {
+            // Events never change once stored, so they can be cached longer than the issue
+            const [event, issue] = await Promise.all([
+                getIssueEvent(target, issueId, eventId, { revalidate: 3600 }),
+                getIssue(target, issueId, { revalidate: 120, tags: [sentryIssueTag(issueId)] }).catch(() => null),
+            ]);
+            return { event, issue, project: issue?.project?.slug || project };
+        });
+    },
+};
@@ -0,0 +1,68 @@
+import type { SentryEvent, SentryIssue, SentryTag } from '@/lib/sentry/types';
+import type { SentryError } from '@/lib/utils/linear-matcher';
+import type { ProjectInfo } from '@/lib/utils/projects';
+import type { SentryIssueSort } from '@/lib/utils/sort-errors';
+
+/**
+ * Error tracking services the dashboard can read issues from.
+ *
+ * The common model is the Sentry-shaped one the dashboard already renders: `SentryError` for list
+ * rows, `SentryIssue` for details and `SentryEvent` (with `entries`) for occurrences. Adapters for
+ * other services normalize into these shapes so the pages and AI prompts work unchanged.
+ */
+export type ErrorSourceId = 'sentry' | 'rollbar';
+
+export interface ErrorSourceListOptions {
+    limit: number;                  // Issues per project for this page
+    cursor?: string;                // Opaque cursor this source returned for the previous page
+    query: string;                  // Sentry search syntax; other sources map what they can
+    environments: string[];
+    statsPeriod?: string;           // Only set when the user picked a period (e.g. "24h", "14d")
+    sort: SentryIssueSort;
+}
+
+export interface ErrorSourcePage {
+    errors: SentryError[];
+    nextCursor: string | null;      // null when every project of this source is exhausted
+    warnings: string[];
+    retryAfter?: number;            // Longest rate limit wait seen, in seconds
+    failure?: { message: string; details?: string };  // Set when none of the source's projects could be read
+}
+
+export interface ErrorSourceIssue {
+    issue: SentryIssue;
+    project: string;                // Project slug the issue belongs to
+    events: SentryEvent[];          // Recent event summaries, newest first
+    latestEvent: SentryEvent | null;
+    recentEvents: SentryEvent[];    // Additional full events for AI comparisons
+    tagDistributions: SentryTag[];  // Top values per tag key across the issue's events
+}
+
+export interface ErrorSourceEvent {
+    event: SentryEvent;
+    issue: SentryIssue | null;      // Issue summary, when it could be fetched
+    project?: string;
+}
+
+/**
+ * An error tracking service behind the dashboard.
+ *
+ * Issue IDs passed in are the source's own IDs (see parseSourceIssueId); IDs returned are already
+ * prefixed for non-Sentry sources. Methods throw SentryApiError / RollbarApiError on API failures
+ * (see isErrorSourceApiError).
+ */
+export interface ErrorSource {
+    id: ErrorSourceId;
+    name: string;                   // Display name, e.g. "Sentry"
+    setupHint: string;              // Shown when the source has no credentials
+
+    /** Registered projects, without credentials */
+    getProjects(): ProjectInfo[];
+    /** Whether credentials are configured for at least one project */
+    isConfigured(): boolean;
+
+    listIssues(options: ErrorSourceListOptions): Promise<ErrorSourcePage>;
+    getIssue(issueId: string, project?: string): Promise<ErrorSourceIssue>;
+    getEvents(issueId: string, options?: { query?: string; project?: string }): Promise<SentryEvent[]>;
+    getEvent(issueId: string, eventId: string, project?: string): Promise<ErrorSourceEvent>;
+}
@@ -0,0 +1,451 @@
+import { getEventEntry, getEventExceptions } from '@/lib/sentry/event-utils';
+import type { SentryEvent, SentryExceptionValue, SentryStackFrame } from '@/lib/sentry/types';
+
+/**
+ * Client-safe parser for raw stack trace text (no server-only imports): pasted traces, log excerpts
+ * and string-only stacks on issues and events. Output uses the Sentry event model so the AI prompt
+ * and the stack trace viewer work unchanged.
+ */
+
+export type StackTraceLanguage = 'javascript' | 'python' | 'php' | 'java' | 'go' | 'unknown';
+
+export const STACK_TRACE_LANGUAGES: Array<{ value: StackTraceLanguage; label: string }> = [
+    { value: 'javascript', label: 'JavaScript / Node' },
+    { value: 'python', label: 'Python' },
+    { value: 'php', label: 'PHP / Laravel' },
+    { value: 'java', label: 'Java / Kotlin' },
+    { value: 'go', label: 'Go' },
+    { value: 'unknown', label: 'Log excerpt' },
+];
+
+export interface ParsedStackTrace {
+    language: StackTraceLanguage;
+    exceptions: SentryExceptionValue[];     // Sentry's order: the cause first, the exception that was raised last
+    level: string;                          // "error" unless the text says otherwise (fatal, warning, ...)
+    summary: string;                        // First meaningful line, used as the title when no exception is found
+}
+
+interface Block {
+    type?: string;
+    value?: string;
+    frames: SentryStackFrame[];             // In the order they appear in the text
+    cause?: boolean;                        // Laravel's [previous exception], printed after the exception it caused
+}
+
+// Library code, runtimes and vendored dependencies are not "in app"
+const LIBRARY_PATHS = /node_modules|^node:|^internal\/|<anonymous>|^native$|site-packages|dist-packages|[\\/]lib[\\/]python\d|<frozen |[\\/]vendor[\\/]|\[internal function\]|[\\/]go[\\/]pkg[\\/]mod[\\/]|[\\/]go[\\/]src[\\/]|^\$GOROOT/;
+const LIBRARY_PACKAGES = /^(java|javax|jakarta|jdk|sun|com\.sun|kotlin|kotlinx|scala|org\.springframework|org\.apache|org\.hibernate|org\.postgresql|com\.mysql|com\.zaxxer|com\.fasterxml|com\.google|org\.eclipse|org\.jboss|org\.glassfish|io\.netty|io\.grpc|io\.undertow|okhttp3|reactor)\./;
+
+const JS_FRAME = /^\s*at (?:async )?(?:(.+?) \((.+)\)|(.+?))\s*$/;
+// Firefox and Safari: `fn@file:line:col`; Safari also has `global code@...` and `fn@[native code]`
+const GECKO_FRAME = /^\s*((?:global|module|eval) code|[^@\s]*)@(\[native code\]|.+?:\d+(?::\d+)?)\s*$/;
+const PY_FRAME = /^\s*File "(.+?)", line (\d+)(?:, in (.+))?\s*$/;
+const PHP_FRAME = /^\s*#\d+\s+(?:(.+?)\((\d+)\)|\[internal function\]):\s*(.+?)\s*$/;
+const JAVA_FRAME = /^\s*at ([\w$.\/<>]+)\.([\w$<>-]+)\((?:(.+?):(\d+)|[^)]*)\)\s*$/;
+const GO_FILE = /^\s+(.+?):(\d+)(?: \+0x[0-9a-f]+)?\s*$/;
+
+const EXCEPTION_NAME = /(?:Error|Exception|Exit|Interrupt|Warning|Fault|Throwable|Panic)$/;
+const LEVELS: Array<[RegExp, string]> = [
+    [/\b(FATAL|CRITICAL|EMERGENCY|ALERT|PANIC)\b|Fatal error/i, 'fatal'],
+    [/\bERROR\b|Uncaught|Traceback|Exception/i, 'error'],
+    [/\bWARN(ING)?\b/i, 'warning'],
+];
+
+function guessLevel(text: string): string {
+    return LEVELS.find(([pattern]) => pattern.test(text))?.[1] || 'error';
+}
+
+/**
+ * Guess the language of a pasted trace from its frame syntax
+ */
+export function detectStackTraceLanguage(text: string): StackTraceLanguage {
+    if (/^(?:panic: |fatal error: )|^goroutine \d+ \[/m.test(text)) return 'go';
+    if (/Traceback \(most recent call last\)|^\s*File ".+", line \d+/m.test(text)) return 'python';
+    if (/^\s*#\d+\s+(?:.+?\(\d+\)|\[internal function\]):|\[stacktrace\]|\.php(?:\(\d+\)|:\d+|\b)/m.test(text)) return 'php';
+    if (/^\s*at [\w$.]+\((?:[\w$]+\.(?:java|kt|scala|groovy):\d+|Native Method|Unknown Source)\)/m.test(text)) return 'java';
+    if (/^\s*at .+:\d+(?::\d+)?\)?\s*$|^\s*(?:(?:global|module|eval) code|[^@\s]*)@.+:\d+(?::\d+)?\s*$/m.test(text)) return 'javascript';
+    return 'unknown';
+}
+
+function frame(fields: Partial<SentryStackFrame>, inApp: boolean): SentryStackFrame {
+    return { ...fields, in_app: inApp };
+}
+
+// "Type: message" (optionally prefixed by "Uncaught", "Caused by:", "[cause]:" ...), or null if the line isn't one
+function parseExceptionLine(line: string, language: StackTraceLanguage): { type: string; value: string } | null {
+    const text = line.trim()
+        .replace(/^(?:Uncaught\s+(?:\(in promise\)\s+)?|Caused by:\s*|\[cause\]:\s*|Next\s+|PHP Fatal error:\s+Uncaught\s+|Fatal error:\s+Uncaught\s+)/i, '')
+        .replace(/^Exception in thread "[^"]*"\s+/, '');
+    const match = text.match(/^([A-Za-z_$\\][\w$.\\]*)(?:\s*\[[^\]]*\])?(?:\s*\(code: [^)]*\))?(?::\s*(.*))?$/);
+    if (!match) return null;
+
+    const [, type, value = ''] = match;
+    const qualified = /[.\\]/.test(type);
+    // Bare words like "Error" count; so do dotted Java/Python class names and PHP namespaces
+    if (!EXCEPTION_NAME.test(type) && !(qualified && (language === 'java' || language === 'python'))) return null;
+    return { type, value };
+}
+
+function parseJavaScript(lines: string[]): Block[] {
+    const blocks: Block[] = [];
+    let current: Block | null = null;
+
+    lines.forEach((line) => {
+        const gecko = line.match(GECKO_FRAME);
+        const v8 = !gecko && line.match(JS_FRAME);
+        if (v8 || gecko) {
+            current = current || { frames: [] };
+            if (!blocks.includes(current)) blocks.push(current);
+
+            let fn: string | undefined;
+            let location: string;
+            if (gecko) {
+                fn = gecko[1] || undefined;
+                location = gecko[2];
+            } else {
+                const v8Match = v8 as RegExpMatchArray;
+                fn = v8Match[1];
+                location = v8Match[2] || v8Match[3];
+            }
+            const position = location.match(/^(.*?):(\d+)(?::(\d+))?$/);
+            const filename = position ? position[1] : location;
+            current.frames.push(frame({
+                function: fn || null,
+                filename,
+                lineNo: position ? Number(position[2]) : null,
+                colNo: position?.[3] ? Number(position[3]) : null,
+            }, !!position && !LIBRARY_PATHS.test(filename))); // "native", "index 0" etc. have no position
+            return;
+        }
+
+        const exception = parseExceptionLine(line, 'javascript');
+        if (exception) {
+            current = { ...exception, frames: [] };
+            blocks.push(current);
+        }
+    });
+
+    return blocks;
+}
+
+function parsePython(lines: string[]): Block[] {
+    const blocks: Block[] = [];
+    let current: Block | null = null;
+    let lastFrame: SentryStackFrame | null = null;
+
+    lines.forEach((line) => {
+        if (/^Traceback \(most recent call last\)/.test(line.trim())) {
+            current = { frames: [] };
+            blocks.push(current);
+            lastFrame = null;
+            return;
+        }
+
+        const match = line.match(PY_FRAME);
+        if (match) {
+            current = current || { frames: [] };
+            if (!blocks.includes(current)) blocks.push(current);
+            lastFrame = frame({ filename: match[1], lineNo: Number(match[2]), function: match[3] || null }, !LIBRARY_PATHS.test(match[1]));
+            current.frames.push(lastFrame);
+            return;
+        }
+
+        // The source line follows its frame, indented; carets (^^^^) only mark columns
+        if (lastFrame && /^\s+\S/.test(line) && !/^\s*[~^]+\s*$/.test(line)) {
+            lastFrame.context_line = lastFrame.context_line ?? line.trim();
+            return;
+        }
+
+        // The exception line closes a traceback
+        const exception = /^\S/.test(line) && parseExceptionLine(line, 'python');
+        if (exception) {
+            if (current && !current.type) {
+                Object.assign(current, exception);
+            } else {
+                blocks.push({ ...exception, frames: [] });
+            }
+            current = null;
+            lastFrame = null;
+        }
+    });
+
+    return blocks;
+}
+
+function parsePhp(lines: string[]): Block[] {
+    const blocks: Block[] = [];
+    let current: Block | null = null;
+
+    lines.forEach((raw) => {
+        const line = raw.replace(/\\\\/g, '\\'); // Laravel logs escape namespace separators as JSON
+        const match = line.match(PHP_FRAME);
+        if (match) {
+            current = current || { frames: [] };
+            if (!blocks.includes(current)) blocks.push(current);
+            const filename = match[1] || '[internal function]';
+            current.frames.push(frame({
+                filename,
+                lineNo: match[2] ? Number(match[2]) : null,
+                function: match[3].replace(/\(.*\)$/, '') || null,
+            }, !LIBRARY_PATHS.test(filename)));
+            return;
+        }
+
+        // Laravel logs: `[object] (Type(code: 0): message at /path/File.php:123)`, `[previous exception] [object] (...)`
+        const laravel = line.match(/(\[previous exception\]\s*)?\[object\] \((.+?)\(code: [^)]*\): (.*) at (.+?):(\d+)\)?\s*$/);
+        // Plain PHP: `PHP Fatal error:  Uncaught Type: message in /path/File.php:123`, `Next Type: message in ...`
+        const plain = laravel ? null : line.match(/^(?:.*?Uncaught\s+|Next\s+)?([A-Za-z_\\][\w\\]*):\s*(.*?) in (\/.+?|[A-Z]:\\.+?)(?::|\()(\d+)\)?\s*$/);
+        if (laravel || plain) {
+            const [type, value, filename, lineNo] = laravel
+                ? [laravel[2], laravel[3], laravel[4], laravel[5]]
+                : [plain![1], plain![2], plain![3], plain![4]];
+            current = { type, value, frames: [], cause: !!laravel?.[1] };
+            blocks.push(current);
+            // Where the exception was thrown; the "#0" frames start one call further out
+            current.frames.push(frame({ filename, lineNo: Number(lineNo) }, !LIBRARY_PATHS.test(filename)));
+            return;
+        }
+
+        if (/^Stack trace:|^\[stacktrace\]|^#\d+ \{main\}/.test(line.trim())) return;
+
+        const exception = !current && parseExceptionLine(line, 'php');
+        if (exception) {
+            current = { ...exception, frames: [] };
+            blocks.push(current);
+        }
+    });
+
+    // Laravel prints the previous (causing) exception after the one that was raised
+    return [...blocks.filter((block) => !block.cause), ...blocks.filter((block) => block.cause)];
+}
+
+function parseJava(lines: string[]): Block[] {
+    const blocks: Block[] = [];
+    let current: Block | null = null;
+
+    lines.forEach((line) => {
+        const match = line.match(JAVA_FRAME);
+        if (match) {
+            current = current || { frames: [] };
+            if (!blocks.includes(current)) blocks.push(current);
+            current.frames.push(frame({
+                module: match[1],
+                function: match[2],
+                filename: match[3] || null,
+                lineNo: match[4] ? Number(match[4]) : null,
+            }, !LIBRARY_PACKAGES.test(`${match[1]}.`)));
+            return;
+        }
+
+        if (/^\s*\.\.\. \d+ (?:more|common frames omitted)/.test(line) || /^\s*Suppressed:/.test(line)) return;
+
+        const exception = parseExceptionLine(line, 'java');
+        if (exception) {
+            current = { ...exception, frames: [] };
+            blocks.push(current);
+        }
+    });
+
+    return blocks;
+}
+
+// Go panics: `panic: message`, then the goroutine that panicked with `function(args)` / `\tfile:line +0x..` pairs
+function parseGo(lines: string[]): Block[] {
+    const blocks: Block[] = [];
+    let current: Block | null = null;
+    let goroutines = 0;
+    let fn: string | null = null;
+
+    lines.forEach((line) => {
+        const panic = line.match(/^\s*(panic|fatal error): (.*?)(?: \[recovered\])?\s*$/);
+        if (panic && blocks.length === 0) {
+            blocks.push({ type: panic[1], value: panic[2], frames: [] });
+            return;
+        }
+
+        // Only the first goroutine is the one that panicked; the others are just running alongside it
+        if (/^goroutine \d+ \[/.test(line)) {
+            goroutines++;
+            if (goroutines === 1) {
+                current = blocks[0] || { frames: [] };
+                if (!blocks.includes(current)) blocks.push(current);
+            } else {
+                current = null;
+            }
+            fn = null;
+            return;
+        }
+        if (!current) return;
+
+        const file = line.match(GO_FILE);
+        if (file && fn !== null) {
+            const filename = file[1];
+            current.frames.push(frame({
+                function: fn,
+                module: fn.replace(/^created by /, '').replace(/\.[^/]*$/, '') || null,
+                filename,
+                lineNo: Number(file[2]),
+            }, !LIBRARY_PATHS.test(filename) && !/^(?:created by )?runtime\./.test(fn)));
+            fn = null;
+            return;
+        }
+
+        // `main.(*Server).handle(0x0, 0xc000010000)` or `created by main.main in goroutine 1`
+        if (/^\S/.test(line)) {
+            fn = line.trim().replace(/ in goroutine \d+$/, '').replace(/\([^()]*\)$/, '');
+        }
+    });
+
+    return blocks;
+}
+
+// Log excerpts without frames: keep the first line that looks like an exception, if any
+function parseLog(lines: string[]): Block[] {
+    for (const line of lines) {
+        const text = line.replace(/^.*?\b(?:ERROR|FATAL|CRITICAL|WARN(?:ING)?)\b[:\]]?\s*/, '');
+        const exception = parseExceptionLine(text, 'java');
+        if (exception) return [{ ...exception, frames: [] }];
+    }
+    return [];
+}
+
+/**
+ * Parse a pasted stack trace or log excerpt
+ * @param text Raw text (JS/Node, Firefox/Safari, Python, PHP/Laravel, Java/Kotlin, Go or a log excerpt)
+ * @param language Force a language instead of detecting it
+ * @returns Exceptions with frames in Sentry's order (most recent call last)
+ */
+export function parseStackTrace(text: string, language: StackTraceLanguage = detectStackTraceLanguage(text)): ParsedStackTrace {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+    let blocks: Block[];
+    switch (language) {
+        case 'javascript':
+            blocks = parseJavaScript(lines);
+            break;
+        case 'python':
+            blocks = parsePython(lines);
+            break;
+        case 'php':
+            blocks = parsePhp(lines);
+            break;
+        case 'java':
+            blocks = parseJava(lines);
+            break;
+        case 'go':
+            blocks = parseGo(lines);
+            break;
+        default:
+            blocks = [];
+    }
+    if (blocks.length === 0) {
+        blocks = parseLog(lines);
+    }
+
+    // Python already prints causes first; the others print the raised exception first and frames most recent first
+    const ordered = language === 'python' ? blocks : blocks.slice().reverse();
+    const exceptions = ordered.map((block) => ({
+        type: block.type || null,
+        value: block.value || null,
+        stacktrace: { frames: language === 'python' ? block.frames : block.frames.slice().reverse() },
+    }));
+
+    const summary = lines.map((line) => line.trim()).find((line) => line && !/^Traceback|^Stack trace:|^\[stacktrace\]/.test(line)) || '';
+
+    return { language, exceptions, level: guessLevel(text), summary: summary.slice(0, 200) };
+}
+
+/**
+ * Structured frames of the exception that was raised, oldest call first
+ * @param text Raw stack trace text
+ * @param language Force a language instead of detecting it
+ * @returns Frames with file, line, column, function and in-app flag (empty if none were recognised)
+ */
+export function parseStackFrames(text: string, language?: StackTraceLanguage): SentryStackFrame[] {
+    return getRaisedException(parseStackTrace(text, language))?.stacktrace?.frames || [];
+}
+
+/**
+ * Exceptions of an event, parsing a string-only stack when Sentry captured no frames.
+ * Events from `captureMessage`, log integrations and some SDKs carry the trace as text in the
+ * message or in the issue metadata (`metadata.stack`) instead of an exception entry.
+ * @param event Full event
+ * @param stack Stack string from elsewhere, e.g. the issue's `metadata.stack`
+ * @returns Exceptions in Sentry's order, and whether they were parsed from text
+ */
+export function resolveEventExceptions(event: SentryEvent, stack?: unknown): { exceptions: SentryExceptionValue[]; fromText: boolean } {
+    const exceptions = getEventExceptions(event);
+    if (exceptions.some((exception) => exception.stacktrace?.frames?.length)) {
+        return { exceptions, fromText: false };
+    }
+
+    const candidates = [stack, event.metadata?.stack, getEventEntry(event, 'message')?.formatted, event.message];
+    for (const candidate of candidates) {
+        if (typeof candidate !== 'string') continue;
+        const language = detectStackTraceLanguage(candidate);
+        if (language === 'unknown') continue;
+        const parsed = parseStackTrace(candidate, language);
+        if (countFrames(parsed) > 0) {
+            return { exceptions: parsed.exceptions, fromText: true };
+        }
+    }
+    return { exceptions, fromText: false };
+}
+
+/**
+ * The exception that was raised (the last one in Sentry's order)
+ */
+export function getRaisedException(parsed: ParsedStackTrace): SentryExceptionValue | undefined {
+    return parsed.exceptions[parsed.exceptions.length - 1];
+}
+
+/**
+ * Count the frames across all exceptions
+ */
+export function countFrames(parsed: ParsedStackTrace): number {
+    return parsed.exceptions.reduce((sum, exception) => sum + (exception.stacktrace?.frames?.length || 0), 0);
+}
+
+/**
+ * Build a full event from a parsed trace, for the stack trace viewer and the AI prompt
+ * @param parsed Result of parseStackTrace
+ * @param text Raw pasted text, kept as the event message (truncated) so log context reaches the AI
+ */
+export function stackTraceToEvent(parsed: ParsedStackTrace, text: string): SentryEvent {
+    const raised = getRaisedException(parsed);
+    return {
+        id: 'pasted',
+        eventID: 'pasted',
+        title: raised?.type ? `${raised.type}: ${raised.value || ''}`.trim() : parsed.summary,
+        message: text.slice(0, 4000),
+        platform: parsed.language === 'unknown' ? undefined : parsed.language,
+        entries: parsed.exceptions.length > 0 ? [{ type: 'exception', data: { values: parsed.exceptions } }] : [],
+    };
+}
+
+/**
+ * Build the `errorDetails` explainError expects from a parsed trace
+ * @param parsed Result of parseStackTrace
+ * @param text Raw pasted text
+ */
+export function stackTraceToErrorDetails(parsed: ParsedStackTrace, text: string) {
+    const event = stackTraceToEvent(parsed, text);
+    const raised = getRaisedException(parsed);
+    const frames = raised?.stacktrace?.frames || [];
+    const top = frames.filter((f) => f.in_app).slice(-1)[0] || frames[frames.length - 1];
+
+    return {
+        title: event.title || 'Pasted error',
+        level: parsed.level,
+        culprit: top ? `${top.function || 'anonymous'} (${top.filename || top.module || 'unknown'})` : '',
+        metadata: {
+            type: raised?.type || undefined,
+            value: raised?.value || undefined,
+            filename: top?.filename || undefined,
+            function: top?.function || undefined,
+        },
+        type: 'pasted',
+        platform: event.platform,
+        latestEvent: event,
+    };
+}
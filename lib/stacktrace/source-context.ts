@@ -0,0 +1,311 @@
+import fs from 'fs';
+import path from 'path';
+import { getFrameLineNo, isInAppFrame } from '@/lib/sentry/event-utils';
+import { findSentryProject } from '@/lib/sentry/projects';
+import { findRollbarProject } from '@/lib/rollbar/config';
+import type { SentryStackFrame } from '@/lib/sentry/types';
+
+/**
+ * Source code around stack frames, read from a local checkout of the project.
+ *
+ * Error trackers send a couple of context lines at most (and often none for PHP), so the
+ * explainer reads the whole enclosing function from disk instead. Server-only: uses fs.
+ */
+
+export interface SourceSnippet {
+    file: string;                   // Path relative to the source root
+    functionName?: string;
+    startLine: number;
+    endLine: number;
+    errorLine: number;
+    lines: string[];                // startLine..endLine
+    truncated: boolean;             // Function was longer than the per-frame budget
+}
+
+export interface SourceContextOptions {
+    maxFrames?: number;             // In-app frames to read, innermost first
+    maxChars?: number;              // Budget for all snippets together; defaults to SOURCE_CONTEXT_MAX_CHARS or 12000
+}
+
+const MAX_FRAMES = 4;
+const DEFAULT_MAX_CHARS = 12000;
+const MAX_FUNCTION_LINES = 80;      // Longer functions are cut to a window around the error line
+const FALLBACK_RADIUS = 15;         // Lines on each side when no enclosing function is found
+const MIN_RADIUS = 5;               // Smallest window worth sending when the budget runs low
+const MAX_FILE_BYTES = 1024 * 1024;
+// Only source files are read into prompts, never configs or secrets (.env, *.json, *.yml) a frame might name
+const SOURCE_EXTENSIONS = /\.(?:[cm]?[jt]sx?|vue|svelte|py|php|phtml|java|kts?|scala|groovy|go|rb|cs)$/i;
+
+// Lines that open a function or method, per language family
+const FUNCTION_HEADER = /\bfunction\b|=>|^\s*(?:async\s+)?def\s|^\s*func\s|^\s*(?:(?:public|private|protected|internal|static|final|abstract|override|async|suspend|open|synchronized)\s+)*(?:fun\s+)?[\w$<>[\],.?\s]*\b[\w$]+\s*\([^;]*\)\s*(?::\s*[\w$<>[\],.?\s|]+)?\s*(?:throws\s+[\w.,\s]+)?\{?\s*$/;
+const CONTROL_HEADER = /^\s*(?:\}\s*)?(?:if|else|for|foreach|while|do|switch|catch|try|finally|return|with|elif|except)\b/;
+const FUNCTION_NAME = /(?:function|def|func|fun)\s+(?:\([^)]*\)\s*)?([\w$]+)|([\w$]+)\s*(?:=|:)\s*(?:async\s*)?(?:function\b|\([^)]*\)\s*=>|[\w$]+\s*=>)|([\w$]+)\s*\([^)]*\)\s*(?::[^{]*)?\{?\s*$/;
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Local checkout configured for a project: `sourceRoot` in the Sentry registry or ROLLBAR_PROJECTS,
+ * else `SOURCE_ROOT` for every project
+ * @param project Project slug of the issue
+ * @returns Absolute path, or undefined when none is configured
+ */
+export function getSourceRoot(project?: string): string | undefined {
+    const configured = text(findSentryProject(project)?.sourceRoot)
+        || text(findRollbarProject(project)?.sourceRoot)
+        || text(process.env.SOURCE_ROOT);
+    return configured ? path.resolve(process.cwd(), configured) : undefined;
+}
+
+// True if `target` is `root` or below it
+function isInside(root: string, target: string): boolean {
+    const relative = path.relative(root, target);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Find a file named by a frame under a directory.
+ * Deploy paths (/var/www/html/app/...), bundler URLs (webpack://, app:///) and relative paths are
+ * tried with fewer and fewer leading directories until a file matches. Anything that resolves
+ * outside the directory (`..` segments, symlinks) is refused, and so are dotfiles and files in
+ * dot-directories (.env, .git/config).
+ * @param root Directory to search
+ * @param names Paths or URLs from the frame, most specific first
+ * @param options `suffix` is appended to each candidate (".map"); `minSegments` is the shortest path tried
+ * @returns Absolute path of the file, or null
+ */
+export function findFileUnder(root: string, names: Array<string | null | undefined>, options: { suffix?: string; minSegments?: number; maxBytes?: number } = {}): string | null {
+    const { suffix = '', minSegments = 2, maxBytes = MAX_FILE_BYTES } = options;
+    let rootReal: string;
+    try {
+        rootReal = fs.realpathSync(root);
+    } catch {
+        return null;
+    }
+
+    for (const name of names.map(text).filter(Boolean)) {
+        const segments = name
+            .replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, '')  // Scheme and host of bundler or page URLs
+            .replace(/[?#].*$/, '')
+            .replace(/\\/g, '/')
+            .split('/')
+            .filter((segment) => segment && segment !== '.' && segment !== '~');
+        if (segments.length === 0 || segments.includes('..')) continue;
+
+        for (let start = 0; segments.length - start >= minSegments; start++) {
+            if (segments.slice(start).some((segment) => segment.startsWith('.'))) continue;
+            const candidate = path.join(rootReal, ...segments.slice(start)) + suffix;
+            try {
+                const real = fs.realpathSync(candidate);
+                const stat = fs.statSync(real);
+                if (stat.isFile() && stat.size <= maxBytes && isInside(rootReal, real)) {
+                    return real;
+                }
+            } catch {
+                // Not there; try a shorter suffix
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Find a frame's source file in the checkout (see findFileUnder).
+ * At least the parent directory must match, so a bare "index.js" does not pick an unrelated file,
+ * and only files with a source extension are considered.
+ * @returns Absolute path of the file, or null
+ */
+export function resolveSourceFile(root: string, frame: SentryStackFrame): string | null {
+    const names = [frame.absPath, frame.filename].filter((name) => SOURCE_EXTENSIONS.test(text(name).replace(/[?#].*$/, '')));
+    return findFileUnder(root, names);
+}
+
+// Strip string literals and line comments so braces inside them are not counted
+function codeOnly(line: string): string {
+    return line
+        .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+        .replace(/(^|[^:])\/\/.*$/, '$1')
+        .replace(/^\s*(?:#|\*|\/\*).*$/, '');
+}
+
+function functionNameOf(header: string): string | undefined {
+    const match = header.match(FUNCTION_NAME);
+    const name = match?.[1] || match?.[2] || match?.[3];
+    return name && !['if', 'for', 'while', 'switch', 'catch', 'function'].includes(name) ? name : undefined;
+}
+
+// Python: the nearest `def` above with less indentation, down to the last line indented deeper than it
+function findIndentedFunction(lines: string[], index: number): { start: number; end: number } | null {
+    const indent = (line: string) => line.match(/^\s*/)![0].length;
+    let limit = lines[index].trim() ? indent(lines[index]) : Infinity;
+
+    for (let start = index; start >= 0; start--) {
+        const line = lines[start];
+        if (!line.trim()) continue;
+        if (/^\s*(?:async\s+)?def\s/.test(line) && (start === index || indent(line) < limit)) {
+            const base = indent(line);
+            let end = start;
+            for (let next = start + 1; next < lines.length; next++) {
+                if (!lines[next].trim()) continue;
+                if (indent(lines[next]) <= base) break;
+                end = next;
+            }
+            return end >= index ? { start, end } : null;
+        }
+        limit = Math.min(limit, indent(line));
+    }
+    return null;
+}
+
+// Brace languages: walk out through the enclosing blocks until one is opened by a function header
+function findBracedFunction(lines: string[], index: number): { start: number; end: number } | null {
+    const code = lines.map(codeOnly);
+
+    // Blocks opened on the error line itself do not contain it
+    let depth = 0;
+    for (let line = index - 1; line >= 0; line--) {
+        const chars = code[line];
+        for (let i = chars.length - 1; i >= 0; i--) {
+            if (chars[i] === '}') depth++;
+            if (chars[i] !== '{') continue;
+            if (depth > 0) {
+                depth--;
+                continue;
+            }
+
+            // An unmatched "{": the start of a block around the error line
+            const header = chars.slice(0, i).trim() ? line : Math.max(0, line - 1);
+            const headerText = header === line ? lines[line] : `${lines[header]} ${lines[line]}`;
+            if (!FUNCTION_HEADER.test(headerText) || CONTROL_HEADER.test(lines[header])) {
+                continue;
+            }
+
+            // Match braces forward from the opening one to find the end of the function
+            let open = 0;
+            for (let end = line; end < lines.length; end++) {
+                const rest = end === line ? code[end].slice(i) : code[end];
+                for (const char of rest) {
+                    if (char === '{') open++;
+                    if (char === '}') open--;
+                }
+                if (open <= 0) {
+                    return end >= index ? { start: header, end } : null;
+                }
+            }
+            return null;
+        }
+    }
+    return null;
+}
+
+/**
+ * The function around a line, or a window of lines when no function can be found
+ * @param lines File contents split into lines
+ * @param lineNo 1-based error line
+ * @param file File name, used to pick indentation (Python) or brace matching
+ */
+export function extractEnclosingFunction(lines: string[], lineNo: number, file: string, maxLines = MAX_FUNCTION_LINES): Omit<SourceSnippet, 'file'> | null {
+    const index = lineNo - 1;
+    if (index < 0 || index >= lines.length) return null;
+
+    const found = /\.py$/i.test(file) ? findIndentedFunction(lines, index) : findBracedFunction(lines, index);
+    let start = found?.start ?? Math.max(0, index - FALLBACK_RADIUS);
+    let end = found?.end ?? Math.min(lines.length - 1, index + FALLBACK_RADIUS);
+    const functionName = found ? functionNameOf(lines[found.start]) : undefined;
+
+    let truncated = false;
+    if (end - start + 1 > maxLines) {
+        truncated = true;
+        const before = Math.floor(maxLines / 2);
+        start = Math.max(start, index - before);
+        end = Math.min(end, start + maxLines - 1);
+    }
+
+    return {
+        functionName,
+        startLine: start + 1,
+        endLine: end + 1,
+        errorLine: lineNo,
+        lines: lines.slice(start, end + 1),
+        truncated,
+    };
+}
+
+const snippetSize = (snippet: SourceSnippet) => snippet.lines.reduce((size, line) => size + line.length + 8, 0);
+
+/**
+ * Read the enclosing function of the innermost in-app frames from the checkout
+ * @param root Source root (see getSourceRoot)
+ * @param frames Frames in Sentry order (oldest call first)
+ * @returns Snippets, innermost frame first, within the character budget
+ */
+export function getSourceContext(root: string, frames: SentryStackFrame[], options: SourceContextOptions = {}): SourceSnippet[] {
+    const maxFrames = options.maxFrames ?? MAX_FRAMES;
+    let budget = options.maxChars ?? (Number(process.env.SOURCE_CONTEXT_MAX_CHARS) || DEFAULT_MAX_CHARS);
+    const files = new Map<string, string[] | null>();
+    const snippets: SourceSnippet[] = [];
+
+    let rootReal: string;
+    try {
+        rootReal = fs.realpathSync(root);
+    } catch {
+        console.warn(`⚠️ Source root ${root} does not exist`);
+        return [];
+    }
+
+    const inApp = frames.filter(isInAppFrame);
+    for (const frame of (inApp.length > 0 ? inApp : frames).slice().reverse()) {
+        if (snippets.length >= maxFrames || budget <= 0) break;
+
+        const lineNo = getFrameLineNo(frame);
+        const file = lineNo ? resolveSourceFile(root, frame) : null;
+        if (!lineNo || !file) continue;
+
+        if (!files.has(file)) {
+            try {
+                files.set(file, fs.readFileSync(file, 'utf-8').split(/\r?\n/));
+            } catch {
+                files.set(file, null);
+            }
+        }
+        const lines = files.get(file);
+        if (!lines) continue;
+
+        const relative = path.relative(rootReal, file);
+        // Recursion and repeated calls point into a function already included
+        if (snippets.some((snippet) => snippet.file === relative && lineNo >= snippet.startLine && lineNo <= snippet.endLine)) {
+            continue;
+        }
+
+        let extracted = extractEnclosingFunction(lines, lineNo, file);
+        if (extracted && snippetSize({ file: relative, ...extracted }) > budget) {
+            // Out of room for the whole function: fall back to a few lines around the error
+            extracted = extractEnclosingFunction(lines, lineNo, file, MIN_RADIUS * 2 + 1);
+        }
+        if (!extracted) continue;
+
+        const snippet = { file: relative, ...extracted };
+        const size = snippetSize(snippet);
+        if (size > budget) break;
+
+        budget -= size;
+        snippets.push(snippet);
+    }
+
+    return snippets;
+}
+
+/**
+ * Snippets as prompt text, with line numbers and the error line marked
+ */
+export function formatSourceSnippets(snippets: SourceSnippet[]): string {
+    return snippets.map((snippet) => {
+        const width = String(snippet.endLine).length;
+        const heading = `File: ${snippet.file} (lines ${snippet.startLine}-${snippet.endLine}${snippet.functionName ? `, ${snippet.functionName}()` : ''}${snippet.truncated ? ', function truncated' : ''})`;
+        const code = snippet.lines.map((line, offset) => {
+            const lineNo = snippet.startLine + offset;
+            const number = String(lineNo).padStart(width);
+            return lineNo === snippet.errorLine ? `→ ${number}| ${line} ← ERROR HERE` : `  ${number}| ${line}`;
+        });
+        return `${heading}\n${code.join('\n')}`;
+    }).join('\n\n');
+}
@@ -5,8 +5,8 @@ export interface ErrorStats {
   errorLevelIssues: number;
   warningLevelIssues: number;
   affectedUsers: number;
-  frontendErrors: number;
-  backendErrors: number;
+  errorsByCategory: Record<string, number>;
+  errorsByProject: Record<string, number>;
 }
 
 /**
@@ -27,20 +27,24 @@ export function calculateErrorStats(errors: SentryError[]): ErrorStats {
   });
   const affectedUsers = errors.reduce((sum, err) => sum + Number(err.userCount || 0), 0);
 
-  const frontendErrors = errors.filter((err) => 
-    err.projectType?.toLowerCase() === "frontend" || err.projectType === "Frontend"
-  ).length;
-  const backendErrors = errors.filter((err) => 
-    err.projectType?.toLowerCase() === "backend" || err.projectType === "Backend"
-  ).length;
+  // Issue counts per registry category and per project slug
+  const errorsByCategory: Record<string, number> = {};
+  const errorsByProject: Record<string, number> = {};
+  errors.forEach((err) => {
+    const category = err.projectType?.toLowerCase() || "unknown";
+    errorsByCategory[category] = (errorsByCategory[category] || 0) + 1;
+    if (err.project) {
+      errorsByProject[err.project] = (errorsByProject[err.project] || 0) + 1;
+    }
+  });
 
   return {
     totalErrors,
     errorLevelIssues,
     warningLevelIssues,
     affectedUsers,
-    frontendErrors,
-    backendErrors,
+    errorsByCategory,
+    errorsByProject,
   };
 }
 
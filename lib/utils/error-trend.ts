@@ -0,0 +1,47 @@
+import type { SentryStatsPoint } from "@/lib/sentry/types";
+
+export type ErrorTrendDirection = "new" | "rising" | "falling" | "steady";
+
+export interface ErrorTrend {
+  direction: ErrorTrendDirection;
+  recent: number;         // Events in the most recent half of the series
+  previous: number;       // Events in the earlier half of the series
+  change: number | null;  // Relative change (0.5 = +50%), null when there's nothing to compare against
+}
+
+const RISING_RATIO = 1.5;  // Recent half has at least 50% more events
+const FALLING_RATIO = 0.5; // Recent half has at most half the events
+const MIN_EVENTS = 3;      // Ignore swings on tiny counts (1 → 2 events isn't a spike)
+
+/**
+ * Classify an issue's frequency by comparing the two halves of its Sentry stats series
+ * @param stats Sentry stats buckets ([timestamp in seconds, count], oldest first)
+ * @param firstSeen When the issue was first seen; issues first seen during the recent half are "new"
+ * @returns Trend direction and the counts it was computed from, or null without stats
+ */
+export function calculateErrorTrend(stats: SentryStatsPoint[] | undefined, firstSeen?: string): ErrorTrend | null {
+  if (!stats || stats.length < 2) return null;
+
+  const middle = Math.floor(stats.length / 2);
+  const sum = (points: SentryStatsPoint[]) => points.reduce((total, [, count]) => total + count, 0);
+  const previous = sum(stats.slice(0, middle));
+  const recent = sum(stats.slice(middle));
+  const change = previous > 0 ? (recent - previous) / previous : null;
+
+  const firstSeenMs = firstSeen ? new Date(firstSeen).getTime() : NaN;
+  const recentStartMs = stats[middle][0] * 1000;
+  if (previous === 0 && recent > 0 && (Number.isNaN(firstSeenMs) || firstSeenMs >= recentStartMs)) {
+    return { direction: "new", recent, previous, change };
+  }
+
+  let direction: ErrorTrendDirection = "steady";
+  if (Math.max(recent, previous) >= MIN_EVENTS) {
+    if (recent >= previous * RISING_RATIO) {
+      direction = "rising";
+    } else if (recent <= previous * FALLING_RATIO) {
+      direction = "falling";
+    }
+  }
+
+  return { direction, recent, previous, change };
+}
@@ -0,0 +1,147 @@
+import type { SentryEvent, SentryStackFrame } from "@/lib/sentry/types";
+import {
+  describeEventUser,
+  eventTag,
+  getEventBreadcrumbs,
+  getEventExceptions,
+  getEventRequest,
+  getFrameLineNo,
+  getQueryPairs,
+  isInAppFrame,
+  maskSensitivePairs,
+} from "@/lib/sentry/event-utils";
+
+export interface EventDiffRow {
+  field: string;
+  left?: string;
+  right?: string;
+  changed: boolean;
+}
+
+export interface EventDiffSection {
+  title: string;
+  rows: EventDiffRow[];
+  changedCount: number;
+}
+
+// Contexts that usually explain "works for me" differences
+const CONTEXT_KEYS = ["runtime", "os", "browser", "device", "app"];
+const BREADCRUMB_LIMIT = 15; // Breadcrumbs compared, counted back from the crash
+const FRAME_LIMIT = 15;      // Frames compared, counted from the most recent call
+
+function row(field: string, left?: string | null, right?: string | null): EventDiffRow {
+  const l = left ?? undefined;
+  const r = right ?? undefined;
+  return { field, left: l, right: r, changed: (l || "") !== (r || "") };
+}
+
+function section(title: string, rows: EventDiffRow[]): EventDiffSection {
+  return { title, rows, changedCount: rows.filter((r) => r.changed).length };
+}
+
+// Union of keys, in first-seen order
+function unionKeys(...lists: string[][]): string[] {
+  return Array.from(new Set(lists.flat()));
+}
+
+function describeContext(context: Record<string, unknown> | undefined): string | undefined {
+  if (!context) return undefined;
+  const name = context.name ?? context.model ?? context.family;
+  const version = context.version ?? context.kernel_version;
+  const text = [name, version].filter((part) => part !== undefined && part !== null && part !== "").join(" ");
+  return text || undefined;
+}
+
+function describeFrame(frame: SentryStackFrame): string {
+  const lineNo = getFrameLineNo(frame);
+  return `${frame.function || "anonymous"} (${frame.filename || frame.absPath || frame.module || "unknown"}${lineNo ? `:${lineNo}` : ""})`;
+}
+
+// Frames of the exception that was raised, most recent call first; in-app frames when Sentry marks them
+function getRaisedFrames(event: SentryEvent): SentryStackFrame[] {
+  const exceptions = getEventExceptions(event);
+  const frames = exceptions[exceptions.length - 1]?.stacktrace?.frames || [];
+  const inApp = frames.filter(isInAppFrame);
+  return (inApp.length > 0 ? inApp : frames).slice().reverse();
+}
+
+/**
+ * Compare two full events of the same issue field by field
+ * @param left Usually the older event
+ * @param right Usually the newer event
+ * @returns Sections (event, tags, contexts, request, breadcrumbs, stack frames) with per-field change flags
+ */
+export function diffEvents(left: SentryEvent, right: SentryEvent): EventDiffSection[] {
+  const sections: EventDiffSection[] = [];
+
+  // Event
+  const leftException = getEventExceptions(left).slice(-1)[0];
+  const rightException = getEventExceptions(right).slice(-1)[0];
+  sections.push(section("Event", [
+    { ...row("Occurred", left.dateCreated, right.dateCreated), changed: false }, // Always differs
+    row("Release", eventTag(left, "release"), eventTag(right, "release")),
+    row("Environment", eventTag(left, "environment"), eventTag(right, "environment")),
+    row("Platform", left.platform, right.platform),
+    row("User", describeEventUser(left.user), describeEventUser(right.user)),
+    row("Exception", leftException && `${leftException.type}: ${leftException.value}`, rightException && `${rightException.type}: ${rightException.value}`),
+  ]));
+
+  // Tags (release/environment are already shown above)
+  const tagKeys = unionKeys(
+    (left.tags || []).map((tag) => tag.key),
+    (right.tags || []).map((tag) => tag.key)
+  ).filter((key) => key !== "release" && key !== "environment");
+  sections.push(section("Tags", tagKeys.map((key) => row(key, eventTag(left, key), eventTag(right, key)))));
+
+  // Contexts
+  const contextKeys = unionKeys(
+    CONTEXT_KEYS,
+    Object.keys(left.contexts || {}),
+    Object.keys(right.contexts || {})
+  ).filter((key) => left.contexts?.[key] || right.contexts?.[key]);
+  sections.push(section("Contexts", contextKeys.map((key) =>
+    row(key, describeContext(left.contexts?.[key]), describeContext(right.contexts?.[key]))
+  )));
+
+  // Request (secret-looking headers and parameters are masked)
+  const leftRequest = getEventRequest(left);
+  const rightRequest = getEventRequest(right);
+  if (leftRequest || rightRequest) {
+    const pairsToMap = (pairs: Array<[string, string]>) => new Map(maskSensitivePairs(pairs));
+    const leftQuery = pairsToMap(getQueryPairs(leftRequest?.query));
+    const rightQuery = pairsToMap(getQueryPairs(rightRequest?.query));
+    const leftHeaders = pairsToMap(leftRequest?.headers || []);
+    const rightHeaders = pairsToMap(rightRequest?.headers || []);
+    const body = (data: unknown) => (data === undefined || data === null ? undefined : typeof data === "string" ? data : JSON.stringify(data));
+
+    sections.push(section("Request", [
+      row("Method", leftRequest?.method, rightRequest?.method),
+      row("URL", leftRequest?.url, rightRequest?.url),
+      ...unionKeys(Array.from(leftQuery.keys()), Array.from(rightQuery.keys())).map((key) =>
+        row(`query.${key}`, leftQuery.get(key), rightQuery.get(key))
+      ),
+      ...unionKeys(Array.from(leftHeaders.keys()), Array.from(rightHeaders.keys())).map((key) =>
+        row(`header.${key}`, leftHeaders.get(key), rightHeaders.get(key))
+      ),
+      row("Body", body(leftRequest?.data), body(rightRequest?.data)),
+    ]));
+  }
+
+  // Breadcrumbs, aligned from the crash backwards
+  const leftCrumbs = getEventBreadcrumbs(left).slice(-BREADCRUMB_LIMIT).reverse();
+  const rightCrumbs = getEventBreadcrumbs(right).slice(-BREADCRUMB_LIMIT).reverse();
+  const crumbText = (crumb?: (typeof leftCrumbs)[number]) =>
+    crumb ? `[${crumb.category || crumb.type || "default"}] ${crumb.message || (crumb.data ? JSON.stringify(crumb.data) : "")}`.trim() : undefined;
+  sections.push(section("Breadcrumbs", Array.from({ length: Math.max(leftCrumbs.length, rightCrumbs.length) }, (_, index) =>
+    row(index === 0 ? "Last" : `Last - ${index}`, crumbText(leftCrumbs[index]), crumbText(rightCrumbs[index]))
+  )));
+
+  // Stack frames, aligned from the most recent call
+  const leftFrames = getRaisedFrames(left).slice(0, FRAME_LIMIT);
+  const rightFrames = getRaisedFrames(right).slice(0, FRAME_LIMIT);
+  sections.push(section("Stack Frames", Array.from({ length: Math.max(leftFrames.length, rightFrames.length) }, (_, index) =>
+    row(`#${index + 1}`, leftFrames[index] && describeFrame(leftFrames[index]), rightFrames[index] && describeFrame(rightFrames[index]))
+  )));
+
+  return sections.filter((s) => s.rows.length > 0);
+}
@@ -0,0 +1,85 @@
+/**
+ * Incremental reader for one JSON object arriving in chunks (a streamed model reply).
+ * Each top-level property is returned as soon as its value is complete, so a page can render
+ * the first sections of an answer while the rest is still being generated.
+ */
+export class JsonObjectStream {
+  private text = "";
+  private position = 0;       // Next character to scan
+  private start = -1;         // Index of the opening brace, once seen
+  private entryStart = -1;    // Where the current top-level property begins
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private finished = false;
+
+  /**
+   * Add the next chunk of text
+   * @returns Top-level properties completed by this chunk, in order, as [key, value]
+   */
+  push(chunk: string): Array<[string, unknown]> {
+    this.text += chunk;
+    const completed: Array<[string, unknown]> = [];
+
+    for (; this.position < this.text.length && !this.finished; this.position++) {
+      const char = this.text[this.position];
+
+      // Anything before the object (code fences, a sentence of preamble) is skipped
+      if (this.start === -1) {
+        if (char === "{") {
+          this.start = this.position;
+          this.entryStart = this.position + 1;
+          this.depth = 1;
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === "\"") {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === "\"") {
+        this.inString = true;
+      } else if (char === "{" || char === "[") {
+        this.depth++;
+      } else if (char === "}" || char === "]") {
+        this.depth--;
+        if (this.depth === 0) {
+          this.finished = true;
+          this.collect(this.position, completed);
+        }
+      } else if (char === "," && this.depth === 1) {
+        this.collect(this.position, completed);
+        this.entryStart = this.position + 1;
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Whether the closing brace of the object has arrived
+   */
+  get done(): boolean {
+    return this.finished;
+  }
+
+  // Parse `"key": value` between entryStart and end on its own
+  private collect(end: number, completed: Array<[string, unknown]>) {
+    const entry = this.text.slice(this.entryStart, end).trim();
+    if (!entry) return;
+    try {
+      const parsed = JSON.parse(`{${entry}}`) as Record<string, unknown>;
+      completed.push(...Object.entries(parsed));
+    } catch {
+      // Malformed property; the full reply is validated (and repaired) once it is complete
+    }
+  }
+}
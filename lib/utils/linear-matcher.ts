@@ -1,4 +1,7 @@
 import { calculateSimilarity } from "./fuzzy-match";
+import type { ProjectColor } from "./projects";
+import type { SentryStatsPoint } from "@/lib/sentry/types";
+import type { ErrorSourceId } from "@/lib/sources/types";
 
 export interface LinearIssue {
   id: string;
@@ -29,14 +32,21 @@ export interface LinearIssue {
 
 export interface SentryError {
   id: string;
+  source?: ErrorSourceId; // Error tracking service the issue comes from (Sentry when unset)
   title: string;
   level: string;
+  firstSeen?: string;
   lastSeen: string;
   count: number;
   userCount: number;
-  projectType: "Frontend" | "Backend";
+  project?: string;
+  projectName?: string;
+  projectType: string; // Category from the project registry (e.g. "frontend", "mobile")
+  projectColor?: ProjectColor;
   culprit?: string;
   metadata?: any;
+  stats?: SentryStatsPoint[]; // Event counts over `statsPeriod`, oldest bucket first
+  statsPeriod?: string;       // "24h" (hourly buckets) or "14d" (daily buckets)
   linearIssue?: {
     id: string;
     identifier: string;
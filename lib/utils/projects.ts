@@ -0,0 +1,124 @@
+export const PROJECT_COLORS = [
+  "cyan",
+  "orange",
+  "purple",
+  "pink",
+  "green",
+  "yellow",
+  "blue",
+  "red",
+  "indigo",
+  "gray",
+] as const;
+
+export type ProjectColor = (typeof PROJECT_COLORS)[number];
+
+/**
+ * A Sentry project as exposed to the dashboard (no credentials)
+ */
+export interface ProjectInfo {
+  slug: string;
+  name: string;
+  category: string;
+  color: ProjectColor;
+}
+
+// Full class names are spelled out so Tailwind can detect them at build time
+const COLOR_CLASSES: Record<ProjectColor, { badge: string; gradient: string }> = {
+  cyan: {
+    badge: "bg-cyan-500/20 text-cyan-400 border border-cyan-500/30",
+    gradient: "from-cyan-400 to-blue-400",
+  },
+  orange: {
+    badge: "bg-orange-500/20 text-orange-400 border border-orange-500/30",
+    gradient: "from-orange-400 to-red-400",
+  },
+  purple: {
+    badge: "bg-purple-500/20 text-purple-400 border border-purple-500/30",
+    gradient: "from-purple-400 to-pink-400",
+  },
+  pink: {
+    badge: "bg-pink-500/20 text-pink-400 border border-pink-500/30",
+    gradient: "from-pink-400 to-rose-400",
+  },
+  green: {
+    badge: "bg-green-500/20 text-green-400 border border-green-500/30",
+    gradient: "from-green-400 to-emerald-400",
+  },
+  yellow: {
+    badge: "bg-yellow-500/20 text-yellow-400 border border-yellow-500/30",
+    gradient: "from-yellow-400 to-orange-400",
+  },
+  blue: {
+    badge: "bg-blue-500/20 text-blue-400 border border-blue-500/30",
+    gradient: "from-blue-400 to-indigo-400",
+  },
+  red: {
+    badge: "bg-red-500/20 text-red-400 border border-red-500/30",
+    gradient: "from-red-400 to-pink-400",
+  },
+  indigo: {
+    badge: "bg-indigo-500/20 text-indigo-400 border border-indigo-500/30",
+    gradient: "from-indigo-400 to-purple-400",
+  },
+  gray: {
+    badge: "bg-gray-500/20 text-gray-400 border border-gray-500/30",
+    gradient: "from-gray-400 to-slate-400",
+  },
+};
+
+/**
+ * Check whether a value is one of the supported project colors
+ * @param value Value to check
+ * @returns True if the value is a ProjectColor
+ */
+export function isProjectColor(value: unknown): value is ProjectColor {
+  return typeof value === "string" && (PROJECT_COLORS as readonly string[]).includes(value);
+}
+
+/**
+ * Get color classes for project badges
+ * @param color Project color from the registry
+ * @returns Tailwind CSS classes for the badge
+ */
+export function getProjectColor(color?: string): string {
+  return COLOR_CLASSES[isProjectColor(color) ? color : "gray"].badge;
+}
+
+/**
+ * Get gradient text classes for project/category stat cards
+ * @param color Project color from the registry
+ * @returns Tailwind CSS gradient classes (use with bg-gradient-to-r and bg-clip-text)
+ */
+export function getProjectGradient(color?: string): string {
+  return COLOR_CLASSES[isProjectColor(color) ? color : "gray"].gradient;
+}
+
+/**
+ * Turn a category slug into a display label ("mobile-apps" -> "Mobile Apps")
+ * @param category Category from the registry
+ * @returns Human readable label
+ */
+export function formatCategory(category?: string): string {
+  if (!category) return "Unknown";
+  return category
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(" ");
+}
+
+/**
+ * List the distinct categories in registry order
+ * @param projects Projects from the registry
+ * @returns Categories with the color of their first project
+ */
+export function getCategories(projects: ProjectInfo[]): Array<{ category: string; color: ProjectColor }> {
+  const seen = new Map<string, ProjectColor>();
+  projects.forEach((project) => {
+    if (!seen.has(project.category)) {
+      seen.set(project.category, project.color);
+    }
+  });
+  return Array.from(seen, ([category, color]) => ({ category, color }));
+}
@@ -0,0 +1,43 @@
+import { SentryError } from "./linear-matcher";
+
+export type SentryIssueSort = "date" | "new" | "freq" | "user" | "priority";
+
+export const SENTRY_ISSUE_SORTS: Array<{ value: SentryIssueSort; label: string }> = [
+  { value: "date", label: "Last Seen" },
+  { value: "new", label: "First Seen" },
+  { value: "freq", label: "Events" },
+  { value: "user", label: "Users" },
+  { value: "priority", label: "Priority" },
+];
+
+/**
+ * Check whether a value is a sort order accepted by the Sentry issues API
+ * @param value Value to check
+ * @returns True if the value is a SentryIssueSort
+ */
+export function isSentryIssueSort(value: unknown): value is SentryIssueSort {
+  return SENTRY_ISSUE_SORTS.some((sort) => sort.value === value);
+}
+
+/**
+ * Sort issues merged from several projects the same way Sentry sorts a single project
+ * @param errors Issues to sort (sorted in place)
+ * @param sort Sentry sort order ("priority" scores aren't returned by Sentry, so it falls back to last seen)
+ * @returns The sorted array
+ */
+export function sortErrors(errors: SentryError[], sort: SentryIssueSort = "date"): SentryError[] {
+  const time = (value?: string) => (value ? new Date(value).getTime() : 0);
+
+  switch (sort) {
+    case "new":
+      return errors.sort((a, b) => time(b.firstSeen) - time(a.firstSeen));
+    case "freq":
+      return errors.sort((a, b) => Number(b.count || 0) - Number(a.count || 0));
+    case "user":
+      return errors.sort((a, b) => Number(b.userCount || 0) - Number(a.userCount || 0));
+    case "priority":
+    case "date":
+    default:
+      return errors.sort((a, b) => time(b.lastSeen) - time(a.lastSeen));
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Server-Sent Events over fetch. EventSource can only GET, so POST endpoints that stream
+ * (AI explanations) and streaming model APIs are read with these helpers instead.
+ */
+
+export interface ServerSentEvent {
+  event: string;  // "message" when the event has no `event:` field
+  data: string;   // `data:` lines joined with newlines
+}
+
+/**
+ * Format one event for a `text/event-stream` response
+ * @param event Event name
+ * @param data Payload, sent as JSON
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read events from a `text/event-stream` body as they arrive
+ * @param body Response body
+ * @returns Events in order; comments (heartbeats) are skipped
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parse = (block: string): ServerSentEvent | null => {
+    let event = "message";
+    const data: string[] = [];
+    block.split("\n").forEach((line) => {
+      if (!line || line.startsWith(":")) return;
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "event") event = value;
+      if (field === "data") data.push(value);
+    });
+    return data.length > 0 ? { event, data: data.join("\n") } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done }).replace(/\r\n?/g, "\n");
+
+      // Events end with a blank line; keep the unfinished tail for the next chunk
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const event = parse(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) yield event;
+        boundary = buffer.indexOf("\n\n");
+      }
+
+      if (done) break;
+    }
+    const last = parse(buffer);
+    if (last) yield last;
+  } finally {
+    reader.releaseLock();
+  }
+}
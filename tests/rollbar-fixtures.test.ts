@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { rollbarCulprit, rollbarInstanceToEvent, rollbarItemToIssue } from '@/lib/rollbar/normalize';
+import type { RollbarInstance, RollbarItem } from '@/lib/rollbar/types';
+import { rollbarSource } from '@/lib/sources/rollbar';
+import type { SentryBreadcrumb, SentryExceptionValue } from '@/lib/sentry/types';
+
+/**
+ * The Rollbar adapter against the recorded API responses in fixtures/rollbar/.
+ * Run with `npm test`; a fixture or normalizer change that breaks the mapping fails here.
+ */
+
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'rollbar');
+const PROJECT = { slug: 'shop-web', name: 'Shop Web', category: 'frontend', color: 'red' as const };
+
+// The `result` of a recorded response
+function fixture<T>(name: string): T {
+    return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8')).result;
+}
+
+function fixtureResponse(name: string): Response {
+    return new Response(fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8'), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+    });
+}
+
+describe('rollbarItemToIssue', () => {
+    it('maps item.json to an issue', () => {
+        const issue = rollbarItemToIssue(fixture<RollbarItem>('item.json'), PROJECT);
+
+        assert.equal(issue.id, 'rollbar-272505123');
+        assert.equal(issue.shortId, '#1482');
+        assert.equal(issue.title, "TypeError: Cannot read properties of undefined (reading 'total')");
+        assert.equal(issue.level, 'error');
+        assert.equal(issue.status, 'unresolved');
+        assert.equal(issue.count, 214);
+        assert.equal(issue.userCount, 61);
+        assert.equal(issue.firstSeen, new Date(1760772120 * 1000).toISOString());
+        assert.equal(issue.lastSeen, new Date(1760858445 * 1000).toISOString());
+        assert.deepEqual(issue.project, { id: '523118', slug: 'shop-web', name: 'Shop Web' });
+        assert.deepEqual(issue.tags, [{ key: 'environment', value: 'production' }]);
+    });
+
+    it('maps every entry of items.json, with Rollbar levels in Sentry terms', () => {
+        const issues = fixture<{ items: RollbarItem[] }>('items.json').items.map((item) => rollbarItemToIssue(item, PROJECT));
+
+        assert.deepEqual(issues.map((issue) => issue.id), ['rollbar-272505123', 'rollbar-272498876', 'rollbar-272411902']);
+        assert.deepEqual(issues.map((issue) => issue.level), ['error', 'fatal', 'warning']);
+        assert.ok(issues.every((issue) => issue.status === 'unresolved'));
+    });
+});
+
+describe('rollbarInstanceToEvent', () => {
+    const instance = fixture<RollbarInstance>('instance.json');
+    const event = rollbarInstanceToEvent(instance, 'rollbar-272505123');
+
+    it('keeps the IDs, title and culprit of the occurrence', () => {
+        assert.equal(event.eventID, '355902114820');
+        assert.equal(event.groupID, 'rollbar-272505123');
+        assert.equal(event.title, "TypeError: Cannot read properties of undefined (reading 'total')");
+        assert.equal(event.culprit, 'buildSummary (webpack:///./src/checkout/summary.ts)');
+        assert.equal(rollbarCulprit(instance), event.culprit);
+        assert.equal(event.platform, 'javascript');
+        assert.equal(event.dateCreated, new Date(1760858445 * 1000).toISOString());
+    });
+
+    it('turns the trace into an exception entry with code context', () => {
+        const exception = event.entries?.find((entry) => entry.type === 'exception');
+        const values = (exception?.data as { values: SentryExceptionValue[] }).values;
+        assert.equal(values.length, 1);
+        assert.equal(values[0].type, 'TypeError');
+
+        const frames = values[0].stacktrace?.frames || [];
+        assert.equal(frames.length, 3);
+        assert.deepEqual(
+            { filename: frames[2].filename, function: frames[2].function, lineNo: frames[2].lineNo, colNo: frames[2].colNo },
+            { filename: 'webpack:///./src/checkout/summary.ts', function: 'buildSummary', lineNo: 3, colNo: 29 }
+        );
+        assert.equal(frames[2].context_line, '  const shipping = lines.shipping.total;');
+        assert.equal(frames[2].pre_context?.length, 2);
+    });
+
+    it('turns telemetry into breadcrumbs', () => {
+        const entry = event.entries?.find((candidate) => candidate.type === 'breadcrumbs');
+        const breadcrumbs = (entry?.data as { values: SentryBreadcrumb[] }).values;
+        assert.deepEqual(breadcrumbs.map((crumb) => crumb.type), ['navigation', 'http', 'http']);
+        assert.equal(breadcrumbs[2].message, 'GET /api/shipping/quote?zip=94107 [504]');
+        assert.equal(breadcrumbs[2].level, 'error');
+    });
+
+    it('keeps the request, user and tags', () => {
+        const request = event.entries?.find((entry) => entry.type === 'request')?.data as Record<string, unknown>;
+        assert.equal(request.url, 'https://shop.example.com/checkout?step=summary');
+        assert.equal(request.method, 'GET');
+        assert.deepEqual(request.query, [['step', 'summary']]);
+
+        assert.deepEqual(event.user, { id: 'u_88213', username: undefined, email: 'dana@example.com', ip_address: '203.0.113.24' });
+        assert.deepEqual(
+            Object.fromEntries((event.tags || []).map((tag) => [tag.key, tag.value])),
+            {
+                environment: 'production',
+                level: 'error',
+                release: 'web@3.14.2',
+                browser: 'Safari 17.1',
+                url: 'https://shop.example.com/checkout?step=summary',
+                framework: 'browser-js',
+            }
+        );
+    });
+
+    it('maps every occurrence of instances.json', () => {
+        const events = fixture<{ instances: RollbarInstance[] }>('instances.json').instances.map((entry) => rollbarInstanceToEvent(entry));
+        assert.deepEqual(events.map((entry) => entry.eventID), ['355902114820', '355899412207']);
+        assert.ok(events.every((entry) => entry.entries?.some((candidate) => candidate.type === 'exception')));
+    });
+});
+
+// Configure one Rollbar project and answer its API calls with the fixture for each path
+function serveFixtures(): URL[] {
+    const requested: URL[] = [];
+    const originalFetch = globalThis.fetch;
+
+    beforeEach(() => {
+        process.env.ROLLBAR_PROJECTS = JSON.stringify([{ slug: 'shop-web', name: 'Shop Web', accessTokenEnv: 'ROLLBAR_TOKEN_SHOP_WEB' }]);
+        process.env.ROLLBAR_TOKEN_SHOP_WEB = 'test-token';
+        requested.length = 0;
+        globalThis.fetch = (async (input: string | URL | Request) => {
+            const url = new URL(String(input));
+            requested.push(url);
+            const name = /\/instances\/$/.test(url.pathname) ? 'instances.json'
+                : /\/item\/\d+\/$/.test(url.pathname) ? 'item.json'
+                    : /\/instance\/\d+\/$/.test(url.pathname) ? 'instance.json'
+                        : 'items.json';
+            return fixtureResponse(name);
+        }) as typeof fetch;
+    });
+
+    afterEach(() => {
+        globalThis.fetch = originalFetch;
+        delete process.env.ROLLBAR_PROJECTS;
+        delete process.env.ROLLBAR_TOKEN_SHOP_WEB;
+    });
+
+    return requested;
+}
+
+describe('rollbarSource.listIssues', () => {
+    const requested = serveFixtures();
+
+    const list = (query: string, environments: string[] = []) =>
+        rollbarSource.listIssues({ limit: 25, query, environments, sort: 'date' });
+
+    it('maps the Sentry status and level filters to Rollbar parameters', async () => {
+        await list('is:unresolved level:fatal');
+        assert.equal(requested[0].pathname, '/api/1/items/');
+        assert.equal(requested[0].searchParams.get('status'), 'active');
+        assert.equal(requested[0].searchParams.get('level'), 'critical');
+
+        await list('is:ignored');
+        assert.equal(requested[1].searchParams.get('status'), 'muted');
+
+        await list('is:resolved');
+        assert.equal(requested[2].searchParams.get('status'), 'resolved');
+    });
+
+    it('returns the items as dashboard rows', async () => {
+        const page = await list('is:unresolved');
+        assert.equal(page.failure, undefined);
+        assert.deepEqual(page.errors.map((error) => error.id), ['rollbar-272505123', 'rollbar-272498876', 'rollbar-272411902']);
+        assert.ok(page.errors.every((error) => error.source === 'rollbar' && error.project === 'shop-web'));
+        assert.equal(page.nextCursor, null); // Fewer than 100 items: nothing more to load
+    });
+
+    it('applies free text and environments to the fetched items', async () => {
+        const byText = await list('is:unresolved chunkloaderror');
+        assert.deepEqual(byText.errors.map((error) => error.id), ['rollbar-272411902']);
+        assert.equal(requested[0].searchParams.has('chunkloaderror'), false);
+
+        const byEnvironment = await list('', ['production']);
+        assert.deepEqual(byEnvironment.errors.map((error) => error.id), ['rollbar-272505123', 'rollbar-272498876']);
+    });
+});
+
+describe('rollbarSource.getIssue', () => {
+    const requested = serveFixtures();
+
+    it('loads the item with its occurrences', async () => {
+        const { issue, latestEvent, events } = await rollbarSource.getIssue('272505123', 'shop-web');
+        assert.equal(issue.id, 'rollbar-272505123');
+        assert.equal(issue.culprit, 'buildSummary (webpack:///./src/checkout/summary.ts)');
+        assert.equal(latestEvent?.eventID, '355902114820');
+        assert.equal(events.length, 2);
+    });
+
+    it('refuses IDs that are not numeric before calling Rollbar', async () => {
+        for (const id of ['../../projects', '1/../2', '272505123%2F..', '']) {
+            await assert.rejects(rollbarSource.getIssue(id, 'shop-web'), (error: { status?: number }) => error.status === 400, id);
+            await assert.rejects(rollbarSource.getEvent('272505123', id, 'shop-web'), (error: { status?: number }) => error.status === 400, id);
+        }
+        // Only the valid item of getEvent() reached Rollbar
+        assert.ok(requested.every((url) => /^\/api\/1\/item\/272505123\/(?:instances\/)?$/.test(url.pathname)), requested.join(', '));
+    });
+});